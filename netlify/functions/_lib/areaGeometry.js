@@ -0,0 +1,90 @@
+// netlify/functions/_lib/areaGeometry.js
+// Server-side copy of the service area geometry checks the editor runs
+// (src/lib/areaGeometry.ts), for functions that take a drawn shape straight
+// from the browser. Bow-ties and slivers otherwise make get_area_preview
+// and the sponsorship overlap RPCs fail or price nonsense.
+//
+// The editor saves through service-area-save.js, which runs these checks
+// before calling the save RPCs; the browser can't call those directly.
+//
+// Schema (run in Supabase SQL editor):
+//   revoke execute on function public.insert_service_area, public.update_service_area
+//     from public, anon, authenticated;
+//   grant execute on function public.insert_service_area, public.update_service_area
+//     to service_role;
+//
+//   -- the same rules in SQL, as a second line inside the save RPCs:
+//   create or replace function public.service_area_problem(p_gj jsonb)
+//   returns text language sql immutable as $$
+//     with g as (select ST_SetSRID(ST_GeomFromGeoJSON(p_gj::text), 4326) as geom)
+//     select case
+//       when not ST_IsValid(geom) then 'self_intersection'
+//       when ST_NPoints(ST_RemoveRepeatedPoints(geom)) < ST_NPoints(geom) then 'duplicate_vertex'
+//       when exists (select 1 from ST_Dump(geom) p, ST_DumpRings(p.geom) r
+//                    where ST_Area(r.geom::geography) < 2500) then 'tiny_ring'
+//       when ST_Area(geom::geography) > 2000e6 then 'too_large'
+//     end from g
+//   $$;
+//   -- first thing in insert_service_area, update_service_area and
+//   -- clip_available_slot1_and_make_area:
+//   --   if public.service_area_problem(p_gj) is not null then
+//   --     raise exception 'invalid_area:%', public.service_area_problem(p_gj) using errcode = '22023';
+//   --   end if;
+import { area, kinks, multiPolygon, polygon } from "@turf/turf";
+
+// keep in step with MAX_AREA_KM2 / MIN_RING_M2 in src/lib/areaGeometry.ts
+export const MAX_AREA_KM2 = 2000;
+export const MIN_RING_M2 = 2500;
+
+const MESSAGES = {
+  self_intersection: "The outline crosses itself.",
+  duplicate_vertex: "The same point is used twice in a row.",
+  tiny_ring: "A part or hole is too small to be real.",
+  too_large: `The area is over ${MAX_AREA_KM2} km².`,
+  not_polygon: "Expected a Polygon or MultiPolygon.",
+};
+
+const samePosition = (a, b) => a[0] === b[0] && a[1] === b[1];
+
+function toPolygons(geo) {
+  const g = geo?.type === "Feature" ? geo.geometry : geo;
+  if (g?.type === "Polygon" && Array.isArray(g.coordinates)) return [g.coordinates];
+  if (g?.type === "MultiPolygon" && Array.isArray(g.coordinates)) return g.coordinates;
+  return null;
+}
+
+/**
+ * Problems with a drawn area as [{ code, message }], empty when it's fine.
+ * Codes match AreaIssueCode in the client so it can explain them.
+ */
+export function validateAreaGeometry(geo) {
+  const polys = toPolygons(geo);
+  if (!polys?.length) return [{ code: "not_polygon", message: MESSAGES.not_polygon }];
+
+  const codes = new Set();
+  for (const poly of polys) {
+    let checkShape = true;
+    for (const ring of poly) {
+      const numeric =
+        Array.isArray(ring) && ring.length > 0 && ring.every((p) => Array.isArray(p) && p.every(Number.isFinite));
+      if (!numeric || !samePosition(ring[0], ring[ring.length - 1])) {
+        return [{ code: "not_polygon", message: MESSAGES.not_polygon }];
+      }
+
+      if (ring.length < 4) codes.add("tiny_ring");
+      else if (ring.some((p, i) => i > 0 && samePosition(p, ring[i - 1]))) codes.add("duplicate_vertex");
+      else continue;
+      checkShape = false;
+    }
+    // turf can't measure rings like that; the codes above say enough
+    if (!checkShape) continue;
+
+    if (kinks(polygon(poly)).features.length) codes.add("self_intersection");
+    else if (poly.some((ring) => area(polygon([ring])) < MIN_RING_M2)) codes.add("tiny_ring");
+  }
+
+  if (!codes.has("tiny_ring") && area(multiPolygon(polys)) > MAX_AREA_KM2 * 1_000_000) {
+    codes.add("too_large");
+  }
+  return [...codes].map((code) => ({ code, message: MESSAGES[code] }));
+}
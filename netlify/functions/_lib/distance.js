@@ -0,0 +1,20 @@
+// netlify/functions/_lib/distance.js
+// Great-circle distance for "x miles away" on search results.
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+const toRad = (d) => (d * Math.PI) / 180;
+
+export function haversineMiles(aLat, aLng, bLat, bLng) {
+  const dLat = toRad(bLat - aLat);
+  const dLng = toRad(bLng - aLng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(aLat)) * Math.cos(toRad(bLat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// one decimal is as precise as "from your postcode centroid" deserves
+export function roundMiles(miles) {
+  return Number.isFinite(miles) ? Math.round(miles * 10) / 10 : null;
+}
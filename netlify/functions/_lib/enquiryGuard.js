@@ -0,0 +1,177 @@
+// netlify/functions/_lib/enquiryGuard.js
+// Spam / abuse checks for the enquiry endpoints.
+//
+//  - bot checks: honeypot field filled, or form submitted faster than a
+//    person could fill it in → blocked (bot gets a fake "ok")
+//  - rate limits per IP and per customer email → blocked (429)
+//  - content heuristics (links, duplicate messages) → stored but
+//    quarantined: the business isn't emailed and it's hidden from Leads
+//
+// Every decision is written to public.enquiry_blocks.
+//
+// Schema (run in Supabase SQL editor):
+//   alter table public.enquiries
+//     add column if not exists message_hash text,
+//     add column if not exists quarantined_at timestamptz,
+//     add column if not exists quarantine_reason text;
+//   create index on public.enquiries (ip, created_at);
+//   create index on public.enquiries (user_email, created_at);
+//   create index on public.enquiries (message_hash, created_at);
+//
+//   create table public.enquiry_blocks (
+//     id          uuid primary key default gen_random_uuid(),
+//     created_at  timestamptz not null default now(),
+//     decision    text not null check (decision in ('blocked','quarantined')),
+//     reason      text not null,
+//     ip          text,
+//     email       text,
+//     cleaner_id  uuid,
+//     enquiry_id  uuid references public.enquiries(id) on delete set null,
+//     meta        jsonb
+//   );
+//   create index on public.enquiry_blocks (created_at desc);
+//   alter table public.enquiry_blocks enable row level security; -- service role only
+import { createHash } from "node:crypto";
+
+// form must be open at least this long before sending
+export const MIN_FILL_MS = 3000;
+
+// [window ms, max enquiries]
+const IP_LIMITS = [
+  [60 * 60 * 1000, 5],
+  [24 * 60 * 60 * 1000, 20],
+];
+const EMAIL_LIMITS = [
+  [60 * 60 * 1000, 3],
+  [24 * 60 * 60 * 1000, 10],
+];
+
+// the same message from this many different senders in a day is a campaign
+const DUPLICATE_SENDERS = 3;
+
+// explicit links, or a bare spam-prone domain once email addresses are
+// taken out ("bob@hotmail.com" is a customer, not a link)
+const LINK_RE = /(https?:\/\/|\bwww\.)/i;
+const BARE_DOMAIN_RE = /\b[a-z0-9-]+\.(com|net|org|ru|cn|io|xyz|top|info|biz|link|click)\b/i;
+const EMAIL_RE = /[^\s@]+@[^\s@]+\.[^\s@]+/g;
+
+/** True when a message contains a URL or a bare domain (email addresses don't count). */
+export function hasLink(message) {
+  const text = String(message || "");
+  return LINK_RE.test(text) || BARE_DOMAIN_RE.test(text.replace(EMAIL_RE, " "));
+}
+
+export function clientIp(headers) {
+  const raw =
+    headers["x-nf-client-connection-ip"] ||
+    headers["x-forwarded-for"] ||
+    headers["client-ip"] ||
+    "";
+  return typeof raw === "string" && raw.trim() ? raw.split(",")[0].trim() : null;
+}
+
+// case / whitespace / punctuation-insensitive fingerprint of a message
+export function messageHash(message) {
+  const norm = String(message || "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+  return createHash("sha256").update(norm).digest("hex");
+}
+
+/**
+ * Honeypot + time-to-submit. `honeypot` is the hidden field's value,
+ * `elapsedMs` how long the form was open (sent by CleanerCard).
+ * Returns a reason string or null.
+ */
+export function botReason({ honeypot, elapsedMs }) {
+  if (String(honeypot || "").trim()) return "honeypot";
+  const ms = Number(elapsedMs);
+  if (!Number.isFinite(ms)) return "no_timing";
+  if (ms < MIN_FILL_MS) return "too_fast";
+  return null;
+}
+
+async function countSince(sb, column, value, windowMs) {
+  const since = new Date(Date.now() - windowMs).toISOString();
+  const { count, error } = await sb
+    .from("enquiries")
+    .select("id", { count: "exact", head: true })
+    .eq(column, value)
+    .gte("created_at", since);
+  if (error) {
+    // don't lock everyone out if the count fails
+    console.warn("[enquiryGuard] count failed:", column, error.message);
+    return 0;
+  }
+  return count || 0;
+}
+
+/** Returns a reason string ("ip_rate" / "email_rate") or null. */
+export async function rateLimitReason(sb, { ip, email }) {
+  if (ip) {
+    for (const [windowMs, max] of IP_LIMITS) {
+      if ((await countSince(sb, "ip", ip, windowMs)) >= max) return "ip_rate";
+    }
+  }
+  if (email) {
+    for (const [windowMs, max] of EMAIL_LIMITS) {
+      if ((await countSince(sb, "user_email", email, windowMs)) >= max) return "email_rate";
+    }
+  }
+  return null;
+}
+
+/**
+ * Content heuristics. Returns a reason string or null:
+ *  - "links":     message contains a URL / domain
+ *  - "duplicate": same message already sent to this business this week,
+ *                 or sent by several different people in the last day
+ */
+export async function contentReason(sb, { cleanerId, email, message, hash }) {
+  if (hasLink(message)) return "links";
+
+  const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+  const dayAgo = Date.now() - 24 * 60 * 60 * 1000;
+
+  const { data, error } = await sb
+    .from("enquiries")
+    .select("cleaner_id, user_email, created_at")
+    .eq("message_hash", hash)
+    .gte("created_at", weekAgo)
+    .limit(50);
+
+  if (error) {
+    console.warn("[enquiryGuard] duplicate check failed:", error.message);
+    return null;
+  }
+
+  const rows = data || [];
+  if (rows.some((r) => r.cleaner_id === cleanerId)) return "duplicate";
+
+  const senders = new Set([email]);
+  for (const r of rows) {
+    if (new Date(r.created_at).getTime() >= dayAgo && r.user_email) senders.add(r.user_email);
+  }
+  if (senders.size >= DUPLICATE_SENDERS) return "duplicate";
+
+  return null;
+}
+
+/** Audit a block / quarantine decision. Never throws. */
+export async function logBlock(sb, { decision, reason, ip, email, cleanerId, enquiryId, meta }) {
+  try {
+    const { error } = await sb.from("enquiry_blocks").insert({
+      decision,
+      reason,
+      ip: ip || null,
+      email: email || null,
+      cleaner_id: cleanerId || null,
+      enquiry_id: enquiryId || null,
+      meta: meta || null,
+    });
+    if (error) console.warn("[enquiryGuard] audit insert failed:", error.message);
+  } catch (e) {
+    console.warn("[enquiryGuard] audit insert failed:", e);
+  }
+}
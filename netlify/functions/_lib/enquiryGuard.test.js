@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { hasLink } from "./enquiryGuard.js";
+
+describe("hasLink", () => {
+  it("flags explicit links", () => {
+    expect(hasLink("see https://example.co.uk/deal")).toBe(true);
+    expect(hasLink("visit www.cheap-bins.co.uk")).toBe(true);
+  });
+
+  it("flags bare spam-prone domains", () => {
+    expect(hasLink("great prices at cheapbins.xyz today")).toBe(true);
+  });
+
+  it("ignores email addresses", () => {
+    expect(hasLink("You can also email me on bob@hotmail.com")).toBe(false);
+    expect(hasLink("bob.smith@outlook.com or call 07700 900123")).toBe(false);
+  });
+
+  it("still flags a domain next to an email address", () => {
+    expect(hasLink("email bob@hotmail.com or see bins4u.com")).toBe(true);
+  });
+});
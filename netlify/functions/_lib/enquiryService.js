@@ -0,0 +1,570 @@
+// netlify/functions/_lib/enquiryService.js
+// The one enquiry pipeline behind sendEnquiry (sendEnquiryEmail is an alias):
+// validation → spam checks → recipient lookup → storage → thread →
+// lead delivery (email / SMS / webhook, see leadDelivery.js) → customer copy.
+// Routes are thin adapters: parse the request, call submitEnquiry, return
+// its { status, body }.
+//
+// Env:
+//   RESEND_API_KEY, ENQUIRY_FROM      (ENQUIRY_FROM on your verified domain)
+//   SUPABASE_URL, SUPABASE_SERVICE_ROLE
+//   ENQUIRY_INBOX_TO                  (optional admin BCC + fallback recipient)
+//   ENQUIRY_RELAY_DOMAIN              (optional, see enquiryThread.js)
+//
+// Optional search context stored with the enquiry (run in Supabase SQL editor):
+//   alter table public.enquiries
+//     add column if not exists area_id uuid references public.service_areas(id) on delete set null,
+//     add column if not exists category_id uuid references public.service_categories(id) on delete set null,
+//     add column if not exists postcode text;
+//
+// Each delivered enquiry is also an analytics event, so businesses see
+// leads next to clicks. Recorded here (not via record_event) so the count
+// can't be inflated from the browser:
+//   alter type public.event add value if not exists 'enquiry_sent_email';
+//   alter type public.event add value if not exists 'enquiry_sent_whatsapp';
+import { createClient } from "@supabase/supabase-js";
+import {
+  appendMessage,
+  customerThreadUrl,
+  newCustomerToken,
+  newThreadToken,
+  relayAddress,
+} from "./enquiryThread.js";
+import {
+  botReason,
+  clientIp,
+  contentReason,
+  logBlock,
+  messageHash,
+  rateLimitReason,
+} from "./enquiryGuard.js";
+import { geocodePlace, geocodePostcode } from "./geocode.js";
+import { renderReplyTemplate } from "./replyTemplates.js";
+import { chosenChannels, deliverLead, webhookUrlProblem } from "./leadDelivery.js";
+import { clipSms, getSmsProvider, normaliseUkMobile } from "./smsProvider.js";
+import { QUOTE_FREQUENCIES, formatPence, parseQuote, priceQuote, quoteSummary } from "./quoteRequest.js";
+
+// what the site calls itself (header, footer, page titles)
+export const BRAND = "Klean.ly";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const result = (status, body) => ({ status, body });
+
+export function isValidEmail(v) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(v || "").trim());
+}
+
+function escapeHtml(s) {
+  return String(s ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+const str = (v) => (typeof v === "string" ? v.trim() : "");
+const uuidOrNull = (v) => (UUID_RE.test(str(v)) ? str(v) : null);
+
+/**
+ * Validate a raw request payload. Returns { enquiry } or { error }.
+ * Client-supplied recipient fields (the old `cleanerEmail`) are ignored:
+ * the business address is always looked up server-side.
+ */
+export function parseEnquiry(raw) {
+  const p = raw && typeof raw === "object" ? raw : {};
+
+  const enquiry = {
+    cleanerId: str(p.cleanerId),
+    cleanerName: str(p.cleanerName),
+    name: str(p.name),
+    address: str(p.address),
+    phone: str(p.phone),
+    email: str(p.email).toLowerCase(),
+    message: str(p.message),
+    quote: parseQuote(p.quote),
+    acknowledged: !!p.acknowledged,
+    areaId: uuidOrNull(p.areaId),
+    categoryId: uuidOrNull(p.categoryId),
+    postcode: str(p.postcode).toUpperCase().slice(0, 10) || null,
+    channel: p.channel === "whatsapp" ? "whatsapp" : "email",
+    sessionId: str(p.sessionId) || null,
+    honeypot: p.website,
+    elapsedMs: p.elapsedMs,
+  };
+
+  if (!enquiry.cleanerId || !enquiry.cleanerName) {
+    return { error: "Missing cleanerId or cleanerName." };
+  }
+  if (!enquiry.name) return { error: "Missing name." };
+  if (!enquiry.address) return { error: "Missing address." };
+  if (!enquiry.phone) return { error: "Missing phone." };
+  if (!isValidEmail(enquiry.email)) return { error: "Missing or invalid email." };
+  // a quote request can stand in for the message
+  if (!enquiry.message && enquiry.quote) {
+    enquiry.message = `Quote request: ${quoteSummary(enquiry.quote)}`;
+  }
+  if (!enquiry.message) return { error: "Missing message." };
+  if (!enquiry.acknowledged) {
+    return { error: "You must confirm you have read and understood the information." };
+  }
+
+  return { enquiry };
+}
+
+// Business contact email, auto-reply and lead delivery settings
+async function loadCleaner(sb, cleanerId) {
+  const [{ data, error }, { data: targets, error: targetsErr }] = await Promise.all([
+    sb
+      .from("cleaners")
+      .select("business_name, contact_email, auto_reply_enabled, auto_reply_template, lead_channels")
+      .eq("id", cleanerId)
+      .maybeSingle(),
+    // private to the business, see leadDelivery.js
+    sb.from("lead_delivery_targets").select("sms_to, webhook_url").eq("cleaner_id", cleanerId).maybeSingle(),
+  ]);
+
+  if (error) {
+    console.error("[enquiryService] cleaners lookup error:", error);
+  }
+  if (targetsErr) {
+    console.error("[enquiryService] lead_delivery_targets lookup error:", targetsErr);
+  }
+
+  const email = str(data?.contact_email);
+  const webhookUrl = str(targets?.webhook_url);
+  return {
+    businessName: str(data?.business_name) || null,
+    contactEmail: email && isValidEmail(email) ? email : null,
+    autoReply: data?.auto_reply_enabled ? str(data.auto_reply_template) || null : null,
+    channels: chosenChannels(data),
+    smsTo: normaliseUkMobile(targets?.sms_to),
+    // the host is resolved and checked again just before each send
+    webhookUrl: webhookUrl && !webhookUrlProblem(webhookUrl) ? webhookUrl : null,
+  };
+}
+
+// Short text for the SMS channel
+function leadSms(enquiry, quote) {
+  return clipSms(
+    `New ${BRAND} enquiry: ${enquiry.name}, ${enquiry.phone}` +
+      (enquiry.postcode ? `, ${enquiry.postcode}` : "") +
+      (quote ? `. ${quoteSummary(quote)}` : "") +
+      `. "${enquiry.message}"` +
+      ` Reply from Leads in your dashboard or by email.`
+  );
+}
+
+// JSON body for the webhook channel
+function leadWebhookBody(enquiry, { enquiryId, createdAt, quote, areaName, replyTo }) {
+  return {
+    event: "enquiry.created",
+    enquiry: {
+      id: enquiryId,
+      created_at: createdAt,
+      name: enquiry.name,
+      phone: enquiry.phone,
+      // relay address when masking is on, so replies stay in the thread
+      email: replyTo,
+      address: enquiry.address,
+      postcode: enquiry.postcode,
+      message: enquiry.message,
+      area: areaName,
+      category_id: enquiry.categoryId,
+      quote: quote || null,
+    },
+  };
+}
+
+// names for the "where did this come from" line in the business email
+async function describeContext(sb, { areaId, categoryId, postcode }) {
+  const [area, category] = await Promise.all([
+    areaId
+      ? sb.from("service_areas").select("name").eq("id", areaId).maybeSingle()
+      : null,
+    categoryId
+      ? sb.from("service_categories").select("name").eq("id", categoryId).maybeSingle()
+      : null,
+  ]);
+
+  const areaName = area?.data?.name || null;
+  return {
+    areaName,
+    lines: [
+      category?.data?.name ? `Service: ${category.data.name}` : null,
+      areaName ? `Area: ${areaName}` : null,
+      postcode ? `Postcode: ${postcode}` : null,
+    ].filter(Boolean),
+  };
+}
+
+// Customer's address → point, from the local postcode dataset
+async function locateCustomer(enquiry) {
+  try {
+    const hit =
+      (await geocodePlace(enquiry.address)) ||
+      (enquiry.postcode ? await geocodePostcode(enquiry.postcode) : null);
+    return hit ? { lat: hit.lat, lng: hit.lng } : null;
+  } catch (e) {
+    console.warn("[enquiryService] geocode failed:", e);
+    return null;
+  }
+}
+
+/**
+ * Record enquiry_sent_email / enquiry_sent_whatsapp for the business.
+ * The area is resolved from the customer's address with area_for_point
+ * (same as record_event); without a point or category we fall back to the
+ * area the card was shown for. Never throws.
+ */
+async function recordEnquiryEvent(sb, enquiry, enquiryId) {
+  try {
+    let areaId = enquiry.areaId;
+    const point = await locateCustomer(enquiry);
+
+    if (point && enquiry.categoryId) {
+      const { data, error } = await sb.rpc("area_for_point", {
+        p_cleaner_id: enquiry.cleanerId,
+        p_category_id: enquiry.categoryId,
+        p_lat: point.lat,
+        p_lng: point.lng,
+      });
+      if (error) console.warn("[enquiryService] area_for_point failed:", error);
+      else areaId = data ?? null; // null = outside all polygons => unattributed
+    }
+
+    const { error } = await sb.from("analytics_events").insert({
+      event: enquiry.channel === "whatsapp" ? "enquiry_sent_whatsapp" : "enquiry_sent_email",
+      cleaner_id: enquiry.cleanerId,
+      area_id: areaId,
+      category_id: enquiry.categoryId,
+      session_id: enquiry.sessionId,
+      meta: { enquiry_id: enquiryId, postcode: enquiry.postcode },
+    });
+    if (error) console.warn("[enquiryService] enquiry event insert failed:", error);
+  } catch (e) {
+    console.warn("[enquiryService] enquiry event failed:", e);
+  }
+}
+
+function quoteHtml(quote) {
+  if (!quote?.lines?.length) return "";
+  const cell = `style="padding:4px 12px 4px 0;text-align:left"`;
+  const rows = quote.lines
+    .map(
+      (l) =>
+        `<tr><td ${cell}>${escapeHtml(l.size)}</td><td ${cell}>× ${l.qty}</td>` +
+        `<td ${cell}>${l.unit_price_cents != null ? `${formatPence(l.unit_price_cents)} each` : "—"}</td></tr>`
+    )
+    .join("");
+
+  return (
+    `<p><strong>Quote request:</strong> ${escapeHtml(QUOTE_FREQUENCIES[quote.frequency] || quote.frequency)}</p>` +
+    `<table style="border-collapse:collapse;font-size:14px">${rows}</table>` +
+    (quote.indicative_total_cents != null
+      ? `<p><strong>Indicative price:</strong> ${formatPence(quote.indicative_total_cents)} per clean</p>`
+      : "")
+  );
+}
+
+/**
+ * Business notification + customer copy for one enquiry. `autoReply` is
+ * the business's own (already filled-in) reply, used in place of our
+ * generic acknowledgement.
+ */
+export function renderEnquiryEmails(
+  enquiry,
+  { context = [], customerToken, quote, autoReply, businessName } = {}
+) {
+  const wrap = (inner) =>
+    `<div style="font-family:system-ui,-apple-system,Segoe UI,Roboto,Arial,sans-serif;line-height:1.5">` +
+    inner +
+    `</div>`;
+
+  const details =
+    `<p><strong>Name:</strong> ${escapeHtml(enquiry.name)}</p>` +
+    `<p><strong>Phone:</strong> ${escapeHtml(enquiry.phone)}</p>` +
+    `<p><strong>Address:</strong> ${escapeHtml(enquiry.address)}</p>` +
+    quoteHtml(quote) +
+    `<p><strong>Message:</strong><br/>${escapeHtml(enquiry.message).replace(/\n/g, "<br/>")}</p>`;
+
+  const footer = (text) => `<p style="color:#6b7280;font-size:12px">${text}</p>`;
+
+  const businessSubject = `New enquiry for ${enquiry.cleanerName}`;
+  const business = {
+    subject: businessSubject,
+    html: wrap(
+      `<h2>${escapeHtml(businessSubject)}</h2>` +
+        `<p><strong>Business:</strong> ${escapeHtml(enquiry.cleanerName)}<br/>` +
+        `<strong>Cleaner ID:</strong> ${escapeHtml(enquiry.cleanerId)}</p>` +
+        (context.length
+          ? `<p style="color:#6b7280;font-size:12px">${context.map(escapeHtml).join(" &nbsp;•&nbsp; ")}</p>`
+          : "") +
+        `<hr/>` +
+        details +
+        `<hr/>` +
+        footer(
+          `Reply to this email to answer the customer, or use Leads in your dashboard. Sent from ${BRAND}`
+        )
+    ),
+  };
+
+  const threadLink = customerToken
+    ? `<a href="${customerThreadUrl(customerToken)}">your conversation page</a>`
+    : null;
+
+  // The customer copy goes to whatever address was typed in, so it carries
+  // nothing else from the form: the business name comes from our own row and
+  // the auto-reply is the business's text (see submitEnquiry).
+  const to = businessName || "the business";
+  const customer = {
+    subject: `Your enquiry to ${to}`,
+    html: wrap(
+      (autoReply
+        ? `<p>${escapeHtml(autoReply).replace(/\n/g, "<br/>")}</p>` +
+          (threadLink ? `<p>You can also reply on ${threadLink}.</p>` : "")
+        : `<h2>Your enquiry to ${escapeHtml(to)}</h2>` +
+          `<p>We've passed this on. Replies from the business will arrive by email` +
+          (threadLink ? ` and on ${threadLink}` : "") +
+          `.</p>`) +
+        `<hr/>` +
+        footer(`If you didn't send this enquiry, ignore this email. Sent from ${BRAND}`)
+    ),
+  };
+
+  return { business, customer };
+}
+
+/**
+ * Run one enquiry through the whole pipeline.
+ * `headers` are the request headers (for IP / user agent).
+ * Returns { status, body } for the route to send back as JSON.
+ */
+export async function submitEnquiry(raw, { headers = {} } = {}) {
+  const {
+    RESEND_API_KEY,
+    ENQUIRY_FROM,
+    ENQUIRY_INBOX_TO,
+    SUPABASE_URL,
+    SUPABASE_SERVICE_ROLE,
+    SUPABASE_SERVICE_ROLE_KEY,
+  } = process.env;
+
+  if (!RESEND_API_KEY || !ENQUIRY_FROM) {
+    return result(500, {
+      error: "Email service not configured. Missing RESEND_API_KEY or ENQUIRY_FROM.",
+    });
+  }
+  const serviceKey = SUPABASE_SERVICE_ROLE || SUPABASE_SERVICE_ROLE_KEY;
+  if (!SUPABASE_URL || !serviceKey) {
+    return result(500, {
+      error: "Database service not configured. Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE.",
+    });
+  }
+
+  const { enquiry, error: invalid } = parseEnquiry(raw);
+  if (invalid) return result(400, { error: invalid });
+
+  const sb = createClient(SUPABASE_URL, serviceKey, { auth: { persistSession: false } });
+
+  // ✅ Abuse checks before we store or email anything
+  const ip = clientIp(headers);
+  const audit = { ip, email: enquiry.email, cleanerId: enquiry.cleanerId };
+
+  const bot = botReason({ honeypot: enquiry.honeypot, elapsedMs: enquiry.elapsedMs });
+  if (bot) {
+    await logBlock(sb, { ...audit, decision: "blocked", reason: bot });
+    // don't tell a bot it was caught; a person who was just quick can retry
+    if (bot === "honeypot") return result(200, { ok: true });
+    return result(400, { error: "That was quick! Please check your details and try again." });
+  }
+
+  const limited = await rateLimitReason(sb, { ip, email: enquiry.email });
+  if (limited) {
+    await logBlock(sb, { ...audit, decision: "blocked", reason: limited });
+    return result(429, { error: "Too many enquiries sent recently. Please try again later." });
+  }
+
+  const hash = messageHash(enquiry.message);
+  const quarantine = await contentReason(sb, {
+    cleanerId: enquiry.cleanerId,
+    email: enquiry.email,
+    message: enquiry.message,
+    hash,
+  });
+
+  // bin sizes / frequency, priced from the business's own offerings
+  const quote = await priceQuote(sb, enquiry.cleanerId, enquiry.quote);
+
+  // Business email from cleaners.contact_email, else the admin inbox
+  const cleaner = await loadCleaner(sb, enquiry.cleanerId);
+  const { contactEmail: businessEmail, autoReply } = cleaner;
+  const primaryRecipient = businessEmail || str(ENQUIRY_INBOX_TO);
+
+  // channels they picked that we can actually use (no SMS provider on this
+  // site = no texts); email if none can be
+  const smsReady = !!cleaner.smsTo && !!getSmsProvider();
+  let channels = cleaner.channels.filter((c) =>
+    c === "email" ? !!primaryRecipient : c === "sms" ? smsReady : !!cleaner.webhookUrl
+  );
+  if (!channels.length && primaryRecipient) channels = ["email"];
+  if (!channels.length) {
+    return result(500, {
+      error:
+        "No recipient email available. Ensure cleaner has contact_email set or set ENQUIRY_INBOX_TO.",
+    });
+  }
+
+  const threadToken = newThreadToken();
+  const customerToken = newCustomerToken();
+
+  // Replies go through the relay so neither side sees the other's address.
+  // Without a relay domain configured, fall back to the old direct replyTo.
+  const relayForBusiness = relayAddress(threadToken, "business");
+  const businessReplyTo = relayForBusiness || enquiry.email;
+  const customerReplyTo = relayAddress(threadToken, "customer");
+
+  const { data: stored, error: insErr } = await sb
+    .from("enquiries")
+    .insert({
+      cleaner_id: enquiry.cleanerId,
+      user_name: enquiry.name,
+      user_address: enquiry.address,
+      user_phone: enquiry.phone,
+      user_email: enquiry.email,
+      reply_to: relayForBusiness, // what Leads shows instead of user_email
+      message: enquiry.message,
+      message_hash: hash,
+      ip,
+      user_agent: str(headers["user-agent"]) || null,
+      acknowledged: true, // enforced in parseEnquiry
+      area_id: enquiry.areaId,
+      category_id: enquiry.categoryId,
+      postcode: enquiry.postcode,
+      quote,
+      thread_token: threadToken,
+      customer_token: customerToken,
+      ...(quarantine
+        ? { quarantined_at: new Date().toISOString(), quarantine_reason: quarantine }
+        : {}),
+    })
+    .select("id, created_at")
+    .single();
+
+  if (insErr || !stored) {
+    console.error("[enquiryService] failed to store enquiry:", insErr);
+    return result(500, { error: "Failed to store enquiry." });
+  }
+
+  // First message of the thread is the enquiry itself
+  try {
+    await appendMessage(sb, {
+      enquiryId: stored.id,
+      sender: "customer",
+      body: enquiry.message,
+      via: "web",
+    });
+  } catch (e) {
+    console.warn("[enquiryService] thread start failed:", e);
+  }
+
+  // Quarantined: kept for review, nobody is emailed. Looks sent to the sender.
+  if (quarantine) {
+    await logBlock(sb, { ...audit, decision: "quarantined", reason: quarantine, enquiryId: stored.id });
+    return result(200, { ok: true, stored: true, enquiry_id: stored.id });
+  }
+
+  const { lines: context, areaName } = await describeContext(sb, enquiry);
+  const emails = renderEnquiryEmails(enquiry, {
+    context,
+    customerToken,
+    quote,
+    businessName: cleaner.businessName,
+    autoReply: autoReply
+      ? renderReplyTemplate(autoReply, {
+          // not the typed name: the copy goes to an unconfirmed address
+          customer_name: "there",
+          business_name: cleaner.businessName,
+          area: areaName || "your area",
+        })
+      : null,
+  });
+
+  // Optional admin BCC (only if not already the recipient)
+  const inbox = str(ENQUIRY_INBOX_TO).toLowerCase();
+  const bcc = inbox && primaryRecipient.toLowerCase() !== inbox ? [inbox] : undefined;
+
+  // Lead to the business on each channel; failures are retried later
+  const jobs = channels.map((channel) => {
+    if (channel === "sms") {
+      return {
+        channel,
+        target: cleaner.smsTo,
+        payload: { to: cleaner.smsTo, body: leadSms(enquiry, quote) },
+      };
+    }
+    if (channel === "webhook") {
+      return {
+        channel,
+        target: cleaner.webhookUrl,
+        payload: {
+          url: cleaner.webhookUrl,
+          body: leadWebhookBody(enquiry, {
+            enquiryId: stored.id,
+            createdAt: stored.created_at,
+            quote,
+            areaName,
+            replyTo: businessReplyTo,
+          }),
+        },
+      };
+    }
+    return {
+      channel,
+      target: primaryRecipient,
+      payload: {
+        from: ENQUIRY_FROM,
+        to: [primaryRecipient],
+        bcc,
+        ...emails.business,
+        replyTo: businessReplyTo,
+      },
+    };
+  });
+
+  const delivery = await deliverLead(sb, {
+    enquiryId: stored.id,
+    cleanerId: enquiry.cleanerId,
+    jobs,
+  });
+
+  const sendEmail = (body) =>
+    fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${RESEND_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ from: ENQUIRY_FROM, ...body }),
+    });
+
+  const copy = await sendEmail({
+    to: [enquiry.email],
+    ...emails.customer,
+    ...(customerReplyTo ? { replyTo: customerReplyTo } : {}),
+  });
+  if (!copy.ok) {
+    console.warn("[enquiryService] customer copy failed:", await copy.text().catch(() => ""));
+  }
+
+  await recordEnquiryEvent(sb, enquiry, stored.id);
+
+  return result(200, {
+    ok: true,
+    stored: true,
+    enquiry_id: stored.id,
+    // reached the business on at least one channel right away; `delivery`
+    // has each channel's status (failed ones are retried later)
+    delivered: delivery.some((d) => d.status === "sent"),
+    delivery,
+  });
+}
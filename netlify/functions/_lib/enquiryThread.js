@@ -0,0 +1,247 @@
+// netlify/functions/_lib/enquiryThread.js
+// Enquiry conversations with a masked email relay. Neither side sees the
+// other's real address: each enquiry gets a thread token and every email
+// goes out from / replies go back to
+//   t-<token>-b@RELAY_DOMAIN   (the business replying)
+//   t-<token>-c@RELAY_DOMAIN   (the customer replying)
+// Inbound replies arrive at enquiry-inbound-email.js and are appended to the
+// thread, then forwarded to the other side.
+//
+// Env:
+//   ENQUIRY_RELAY_DOMAIN   inbound-enabled domain, e.g. reply.klean.ly
+//                          (unset = no masking, replyTo is the real address)
+//   ENQUIRY_FROM           verified sender used when there's no relay domain
+//   RESEND_API_KEY
+//
+// Schema (run in Supabase SQL editor):
+//   alter table public.enquiries
+//     add column if not exists thread_token text unique,
+//     add column if not exists customer_token text unique,
+//     add column if not exists last_message_at timestamptz;
+//
+//   create table public.enquiry_messages (
+//     id          uuid primary key default gen_random_uuid(),
+//     enquiry_id  uuid not null references public.enquiries(id) on delete cascade,
+//     sender      text not null check (sender in ('customer','business')),
+//     body        text not null,
+//     via         text not null default 'web' check (via in ('web','email')),
+//     created_at  timestamptz not null default now()
+//   );
+//   create index on public.enquiry_messages (enquiry_id, created_at);
+//   alter table public.enquiry_messages enable row level security; -- service role only
+import { randomBytes } from "node:crypto";
+
+const MAX_BODY = 5000;
+
+export function newThreadToken() {
+  return randomBytes(12).toString("hex");
+}
+
+// long + unguessable: it's the customer's only key to their thread page
+export function newCustomerToken() {
+  return randomBytes(24).toString("base64url");
+}
+
+export function relayDomain() {
+  return (process.env.ENQUIRY_RELAY_DOMAIN || "").trim().toLowerCase();
+}
+
+// side = who will be replying through this address
+export function relayAddress(token, side) {
+  const domain = relayDomain();
+  if (!domain || !token) return null;
+  return `t-${token}-${side === "business" ? "b" : "c"}@${domain}`;
+}
+
+/**
+ * Find our relay address in a To/Cc value ("Name <a@b>, c@d" or an array).
+ * Returns { token, side } or null.
+ */
+export function parseRelayAddress(value) {
+  const domain = relayDomain();
+  const list = Array.isArray(value) ? value.join(",") : String(value || "");
+  const re = /t-([a-f0-9]{24})-([bc])@([a-z0-9.-]+)/gi;
+
+  let m;
+  while ((m = re.exec(list))) {
+    if (domain && m[3].toLowerCase() !== domain) continue;
+    return { token: m[1].toLowerCase(), side: m[2].toLowerCase() === "b" ? "business" : "customer" };
+  }
+  return null;
+}
+
+// bare address from "Name <a@b>"
+export function emailOnly(value) {
+  const s = String(value || "").trim();
+  const m = s.match(/<([^>]+)>/);
+  return (m ? m[1] : s).trim().toLowerCase();
+}
+
+// Keep only what they typed: drop the quoted history mail clients append.
+export function stripQuotedReply(text) {
+  const lines = String(text || "").replace(/\r\n/g, "\n").split("\n");
+  const out = [];
+  for (const line of lines) {
+    if (/^On .+wrote:\s*$/i.test(line.trim())) break;
+    if (/^-{2,}\s*Original Message\s*-{2,}/i.test(line.trim())) break;
+    if (/^From:\s/i.test(line.trim()) && out.length) break;
+    if (line.startsWith(">")) continue;
+    out.push(line);
+  }
+  return out.join("\n").trim().slice(0, MAX_BODY);
+}
+
+export function cleanBody(text) {
+  return String(text || "").trim().slice(0, MAX_BODY);
+}
+
+export async function appendMessage(sb, { enquiryId, sender, body, via = "web" }) {
+  const { data, error } = await sb
+    .from("enquiry_messages")
+    .insert({ enquiry_id: enquiryId, sender, body, via })
+    .select("id, sender, body, via, created_at")
+    .single();
+  if (error) throw error;
+
+  const { error: upErr } = await sb
+    .from("enquiries")
+    .update({ last_message_at: data.created_at })
+    .eq("id", enquiryId);
+  if (upErr) console.warn("[enquiryThread] last_message_at update failed:", upErr);
+
+  return data;
+}
+
+function escapeHtml(s) {
+  return String(s ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Email one side of the thread. `replySide` is the side receiving this
+ * email (their reply comes back on their relay address).
+ */
+export async function sendThreadEmail({
+  to,
+  fromName,
+  token,
+  replySide,
+  subject,
+  body,
+  footerHtml = "",
+  bcc,
+}) {
+  const { RESEND_API_KEY, ENQUIRY_FROM } = process.env;
+  if (!RESEND_API_KEY) throw new Error("Missing RESEND_API_KEY");
+
+  const relay = relayAddress(token, replySide);
+  const fallbackFrom = ENQUIRY_FROM || "Kleanly <info@klean.ly>";
+  const safeName = String(fromName || "Kleanly").replace(/[<>"]/g, "");
+  const from = relay ? `${safeName} via Kleanly <${relay}>` : fallbackFrom;
+
+  const html =
+    `<div style="font-family:system-ui,-apple-system,Segoe UI,Roboto,Arial,sans-serif;line-height:1.5">` +
+    `<p>${escapeHtml(body).replace(/\n/g, "<br/>")}</p>` +
+    `<hr/>` +
+    (relay
+      ? `<p style="color:#6b7280;font-size:12px">Reply to this email to answer – your address stays private.</p>`
+      : "") +
+    footerHtml +
+    `</div>`;
+
+  const r = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${RESEND_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from,
+      to: [to],
+      bcc,
+      subject,
+      html,
+      text: body,
+      ...(relay ? { replyTo: relay } : {}),
+    }),
+  });
+
+  if (!r.ok) {
+    const txt = await r.text().catch(() => "");
+    throw new Error(txt || "Resend returned an error.");
+  }
+}
+
+const ENQUIRY_COLUMNS =
+  "id, cleaner_id, user_name, user_email, thread_token, customer_token, created_at";
+
+// enquiry + the business's name/email, by id, thread_token or customer_token
+export async function loadThread(sb, { id, threadToken, customerToken }) {
+  let q = sb.from("enquiries").select(ENQUIRY_COLUMNS);
+  if (id) q = q.eq("id", id);
+  else if (threadToken) q = q.eq("thread_token", threadToken);
+  else if (customerToken) q = q.eq("customer_token", customerToken);
+  else return null;
+
+  const { data: enquiry, error } = await q.maybeSingle();
+  if (error) throw error;
+  if (!enquiry) return null;
+
+  const { data: cleaner, error: cErr } = await sb
+    .from("cleaners")
+    .select("id, user_id, business_name, contact_email")
+    .eq("id", enquiry.cleaner_id)
+    .maybeSingle();
+  if (cErr) throw cErr;
+
+  return { enquiry, cleaner: cleaner || null };
+}
+
+export async function listMessages(sb, enquiryId) {
+  const { data, error } = await sb
+    .from("enquiry_messages")
+    .select("id, sender, body, via, created_at")
+    .eq("enquiry_id", enquiryId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+export function customerThreadUrl(customerToken) {
+  const site = (process.env.PUBLIC_SITE_URL || "http://localhost:5173").replace(/\/+$/, "");
+  return `${site}/enquiry/${encodeURIComponent(customerToken)}`;
+}
+
+// Pass a new message on to whoever didn't write it.
+export async function forwardMessage({ enquiry, cleaner }, sender, body) {
+  const businessName = cleaner?.business_name || "the business";
+
+  if (sender === "customer") {
+    const to = cleaner?.contact_email || process.env.ENQUIRY_INBOX_TO;
+    if (!to) throw new Error("Business has no contact email.");
+    await sendThreadEmail({
+      to,
+      fromName: enquiry.user_name || "Customer",
+      token: enquiry.thread_token,
+      replySide: "business",
+      subject: `Re: Enquiry from ${enquiry.user_name || "a customer"}`,
+      body,
+    });
+    return;
+  }
+
+  if (!enquiry.user_email) throw new Error("Enquiry has no customer email.");
+  await sendThreadEmail({
+    to: enquiry.user_email,
+    fromName: businessName,
+    token: enquiry.thread_token,
+    replySide: "customer",
+    subject: `Re: Your enquiry to ${businessName}`,
+    body,
+    footerHtml: enquiry.customer_token
+      ? `<p style="color:#6b7280;font-size:12px"><a href="${customerThreadUrl(enquiry.customer_token)}">View the whole conversation</a></p>`
+      : "",
+  });
+}
@@ -0,0 +1,12 @@
+// netlify/functions/_lib/env.js
+// Where a function is running, for the pluggable providers: stand-ins
+// (fake SMS, synthetic road grid) are only used by default locally.
+
+/** True under `netlify dev` and in tests; false on deployed sites. */
+export function isLocalDev() {
+  return (
+    process.env.NETLIFY_DEV === "true" ||
+    process.env.CONTEXT === "dev" ||
+    process.env.VITEST === "true"
+  );
+}
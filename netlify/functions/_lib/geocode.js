@@ -0,0 +1,112 @@
+// netlify/functions/_lib/geocode.js
+// Postcode -> lat/lng lookup for server-side search.
+// Uses the local postcode table (see ./postcodes.js) so search keeps working
+// when postcodes.io is down or slow. The table is loaded once per warm
+// function instance.
+//
+// The table isn't committed (ONSPD is ~1 GB). Build it before deploying:
+//   node scripts/build-postcode-dataset.mjs ONSPD_<MMM>_<YYYY>_UK.csv
+// which writes netlify/functions/data/postcodes.csv; netlify.toml bundles
+// everything under netlify/functions/ with the functions. Without the file
+// lookups go to postcodes.io as before (./postcodesIo.js) and the SEO town
+// list is empty.
+//
+// Env:
+//   POSTCODE_DATASET_PATH   CSV to load (default netlify/functions/data/postcodes.csv)
+import { existsSync } from "node:fs";
+import path from "node:path";
+import {
+  loadPostcodeIndex,
+  lookupPlace,
+  lookupPostcode,
+  nearestOutcode,
+  parsePostcode,
+} from "./postcodes.js";
+import { remoteLookupPlace, remoteLookupPostcode, remoteNearestOutcode } from "./postcodesIo.js";
+
+const DEFAULT_DATASET = "netlify/functions/data/postcodes.csv";
+
+// Points further than this from any outcode are outside our coverage
+const MAX_REVERSE_KM = 25;
+
+// undefined = not loaded yet, null = no dataset file (use postcodes.io)
+let index;
+
+function getIndex() {
+  if (index !== undefined) return index;
+  const file = path.resolve(process.env.POSTCODE_DATASET_PATH || DEFAULT_DATASET);
+  if (!existsSync(file)) {
+    console.warn(`[geocode] ${file} not found, using postcodes.io`);
+    index = null;
+    return index;
+  }
+  index = loadPostcodeIndex(file);
+  return index;
+}
+
+// for tests: forget the loaded table so the next lookup re-reads the env
+export function resetGeocodeIndex() {
+  index = undefined;
+}
+
+// "bt205nf" -> "BT20 5NF"; anything unparseable is just tidied up
+export function normalisePostcode(raw) {
+  const parsed = parsePostcode(raw);
+  if (parsed) return parsed.postcode || parsed.sector || parsed.outcode;
+  return String(raw || "")
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Resolve a full or partial postcode to
+ * { postcode, outcode, precision, lat, lng, post_town, town }.
+ * Returns null when the postcode is not recognised. Throws when the dataset
+ * can't be read, or postcodes.io fails while standing in for it.
+ */
+export async function geocodePostcode(raw) {
+  const idx = getIndex();
+  const hit = idx ? lookupPostcode(idx, raw) : await remoteLookupPostcode(raw);
+  if (!hit) return null;
+  return { ...hit, town: hit.post_town };
+}
+
+/**
+ * Resolve free text ("Bangor", "12 Main St, Bangor") to the same shape as
+ * geocodePostcode, or null when no town/postcode in it is recognised.
+ */
+export async function geocodePlace(text) {
+  const idx = getIndex();
+  const hit = idx ? lookupPlace(idx, text) : await remoteLookupPlace(text);
+  if (!hit) return null;
+  return { ...hit, town: hit.post_town };
+}
+
+/**
+ * Label a coordinate with its nearest outcode + post town, e.g. for
+ * "use my location". Returns null if the point is nowhere near the dataset.
+ */
+export async function reverseGeocode(lat, lng) {
+  const idx = getIndex();
+  if (!idx) {
+    const near = await remoteNearestOutcode(lat, lng, MAX_REVERSE_KM);
+    return near && { outcode: near.outcode, post_town: near.post_town, town: near.post_town };
+  }
+  const near = nearestOutcode(idx, lat, lng);
+  if (!near || near.distance_km > MAX_REVERSE_KM) return null;
+  return { outcode: near.outcode, post_town: near.post_town, town: near.post_town };
+}
+
+/**
+ * Every post town in the dataset as { town, lat, lng, points } (centroid of
+ * its postcodes, plus its sector centres as [lng, lat]), for the SEO town
+ * pages and sitemap. Empty without the dataset.
+ */
+export async function listTowns() {
+  const idx = getIndex();
+  if (!idx) return [];
+  return [...idx.towns.values()]
+    .filter((t) => t.town)
+    .map((t) => ({ town: t.town, lat: t.lat, lng: t.lng, points: t.points || [] }));
+}
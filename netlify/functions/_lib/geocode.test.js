@@ -0,0 +1,65 @@
+import { fileURLToPath } from "node:url";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { geocodePlace, geocodePostcode, listTowns, resetGeocodeIndex, reverseGeocode } from "./geocode.js";
+
+const FIXTURE = fileURLToPath(new URL("./fixtures/postcodes.csv", import.meta.url));
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  resetGeocodeIndex();
+});
+
+describe("geocode with the local dataset", () => {
+  it("never touches the network", async () => {
+    vi.stubEnv("POSTCODE_DATASET_PATH", FIXTURE);
+    const fetchSpy = vi.fn();
+    vi.stubGlobal("fetch", fetchSpy);
+
+    expect(await geocodePostcode("bt205nf")).toMatchObject({ postcode: "BT20 5NF", town: "BANGOR" });
+    expect(await geocodePlace("Bangor")).toMatchObject({ precision: "town" });
+    expect(await reverseGeocode(54.6, -5.93)).toMatchObject({ outcode: "BT1" });
+    expect((await listTowns()).map((t) => t.town).sort()).toEqual(["BANGOR", "BELFAST"]);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("gives each town its sector centres as a footprint", async () => {
+    vi.stubEnv("POSTCODE_DATASET_PATH", FIXTURE);
+    const bangor = (await listTowns()).find((t) => t.town === "BANGOR");
+    // BT20 5, BT20 4 and BT19 1
+    expect(bangor.points).toHaveLength(3);
+    expect(bangor.points).toContainEqual([-5.6512, 54.6532]);
+  });
+});
+
+describe("geocode without the dataset", () => {
+  it("falls back to postcodes.io", async () => {
+    vi.stubEnv("POSTCODE_DATASET_PATH", "/nonexistent/postcodes.csv");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchSpy = vi.fn(async (url) => {
+      if (String(url).endsWith("/postcodes/BT20%205NF")) {
+        return Response.json({ status: 200, result: { latitude: 54.66, longitude: -5.67, admin_district: "Ards" } });
+      }
+      return Response.json({ status: 404, error: "not found" }, { status: 404 });
+    });
+    vi.stubGlobal("fetch", fetchSpy);
+
+    expect(await geocodePostcode("BT20 5NF")).toMatchObject({
+      postcode: "BT20 5NF",
+      precision: "postcode",
+      lat: 54.66,
+      town: "Ards",
+    });
+    expect(await geocodePostcode("ZZ1 1ZZ")).toBeNull();
+    expect(await listTowns()).toEqual([]);
+  });
+
+  it("reports postcodes.io outages as errors", async () => {
+    vi.stubEnv("POSTCODE_DATASET_PATH", "/nonexistent/postcodes.csv");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("down", { status: 503 })));
+
+    await expect(geocodePostcode("BT7 1NN")).rejects.toThrow("postcodes.io 503");
+  });
+});
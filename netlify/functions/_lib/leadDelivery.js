@@ -0,0 +1,322 @@
+// netlify/functions/_lib/leadDelivery.js
+// Deliver a new lead to the business on each channel they picked in
+// Settings: email (Resend), SMS (see smsProvider.js) and a signed webhook to
+// their own CRM. Every channel gets a lead_deliveries row; failures are
+// retried with backoff by lead-delivery-retry.js until MAX_ATTEMPTS.
+//
+// Schema (run in Supabase SQL editor):
+//   alter table public.cleaners
+//     add column if not exists lead_channels text[] not null default '{email}';
+//
+//   -- where SMS and webhooks go: private to the business, unlike cleaners
+//   -- (which the browser reads with the anon key). Hook URLs are often
+//   -- capability URLs, so nobody else may see them.
+//   create table public.lead_delivery_targets (
+//     cleaner_id   uuid primary key references public.cleaners(id) on delete cascade,
+//     sms_to       text,
+//     webhook_url  text check (webhook_url ~* '^https://'),
+//     updated_at   timestamptz not null default now()
+//   );
+//   alter table public.lead_delivery_targets enable row level security;
+//   create policy "own targets" on public.lead_delivery_targets for all
+//     using (cleaner_id in (select id from public.cleaners where user_id = auth.uid()))
+//     with check (cleaner_id in (select id from public.cleaners where user_id = auth.uid()));
+//   -- moving the old cleaners columns over:
+//   insert into public.lead_delivery_targets (cleaner_id, sms_to, webhook_url)
+//     select id, lead_sms_to, case when lead_webhook_url ~* '^https://' then lead_webhook_url end
+//     from public.cleaners where lead_sms_to is not null or lead_webhook_url is not null
+//     on conflict (cleaner_id) do nothing;
+//   alter table public.cleaners
+//     drop column if exists lead_sms_to,
+//     drop column if exists lead_webhook_url;
+//
+//   -- signing secrets live apart from cleaners (which the browser reads
+//   -- with the anon key); no policies, so only the service role sees them.
+//   -- Set and rotated through lead-webhook-secret.js.
+//   create table public.lead_webhook_secrets (
+//     cleaner_id  uuid primary key references public.cleaners(id) on delete cascade,
+//     secret      text not null,
+//     created_at  timestamptz not null default now()
+//   );
+//   alter table public.lead_webhook_secrets enable row level security;
+//   -- moving an existing column over:
+//   insert into public.lead_webhook_secrets (cleaner_id, secret)
+//     select id, lead_webhook_secret from public.cleaners
+//     where coalesce(lead_webhook_secret, '') <> ''
+//     on conflict (cleaner_id) do nothing;
+//   alter table public.cleaners drop column if exists lead_webhook_secret;
+//
+//   create table public.lead_deliveries (
+//     id               uuid primary key default gen_random_uuid(),
+//     enquiry_id       uuid not null references public.enquiries(id) on delete cascade,
+//     cleaner_id       uuid not null references public.cleaners(id) on delete cascade,
+//     channel          text not null check (channel in ('email','sms','webhook')),
+//     target           text,            -- address / number / URL, for display
+//     status           text not null default 'pending'
+//                        check (status in ('pending','sent','retrying','failed')),
+//     attempts         int not null default 0,
+//     last_error       text,
+//     provider_ref     text,
+//     payload          jsonb not null,  -- what to send, so retries resend the same thing
+//     next_attempt_at  timestamptz,
+//     delivered_at     timestamptz,
+//     created_at       timestamptz not null default now(),
+//     updated_at       timestamptz not null default now()
+//   );
+//   create index on public.lead_deliveries (status, next_attempt_at);
+//   create index on public.lead_deliveries (enquiry_id);
+//   alter table public.lead_deliveries enable row level security;
+//   create policy "own deliveries read" on public.lead_deliveries for select
+//     using (cleaner_id in (select id from public.cleaners where user_id = auth.uid()));
+//
+// Webhook requests are POSTed as JSON with
+//   X-Kleanly-Timestamp: <unix seconds>
+//   X-Kleanly-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>" with the secret>
+// Nothing is sent until the business has a secret: an unsigned request
+// can't be told apart from a forged one. Nor is anything sent to a host
+// that resolves to a private, loopback or link-local address, so a hook URL
+// can't be used to reach inside our own network.
+import { createHmac, randomBytes } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { getSmsProvider } from "./smsProvider.js";
+
+export const LEAD_CHANNELS = ["email", "sms", "webhook"];
+
+// minutes to wait after the 1st, 2nd, … failed attempt
+const RETRY_DELAYS_MIN = [1, 5, 30, 120];
+export const MAX_ATTEMPTS = RETRY_DELAYS_MIN.length + 1;
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// addresses a webhook may never reach
+const PRIVATE_NETS = new BlockList();
+for (const [net, bits] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, incl. cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3], // multicast and reserved
+]) {
+  PRIVATE_NETS.addSubnet(net, bits, "ipv4");
+}
+for (const [net, bits] of [
+  ["::", 127], // unspecified and loopback
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+]) {
+  PRIVATE_NETS.addSubnet(net, bits, "ipv6");
+}
+
+export function isPrivateAddress(address) {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return isPrivateAddress(mapped);
+  const family = isIP(address);
+  if (!family) return true;
+  return PRIVATE_NETS.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/** Why a hook URL can't be used as typed, or null. No DNS; see checkWebhookTarget. */
+export function webhookUrlProblem(raw) {
+  let url;
+  try {
+    url = new URL(String(raw || ""));
+  } catch {
+    return "Not a URL";
+  }
+  if (url.protocol !== "https:") return "Webhook URLs must be https://";
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".internal")) {
+    return "Webhook host isn't public";
+  }
+  if (isIP(host) && isPrivateAddress(host)) return "Webhook host isn't public";
+  return null;
+}
+
+/** Throws unless every address the hook's host resolves to is public. */
+export async function checkWebhookTarget(raw) {
+  const problem = webhookUrlProblem(raw);
+  if (problem) throw new Error(problem);
+  const host = new URL(raw).hostname.replace(/^\[|\]$/g, "");
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  if (!addresses.length || addresses.some((a) => isPrivateAddress(a.address))) {
+    throw new Error("Webhook host isn't public");
+  }
+}
+
+export function signWebhook(secret, timestamp, rawBody) {
+  if (!secret) throw new Error("No webhook signing secret");
+  return createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest("hex");
+}
+
+/** Random hex secret for signing webhooks. */
+export function newWebhookSecret() {
+  return randomBytes(24).toString("hex");
+}
+
+/** Channels a business wants, defaulting to email. */
+export function chosenChannels(cleaner) {
+  const list = Array.isArray(cleaner?.lead_channels) ? cleaner.lead_channels : [];
+  const valid = list.filter((c) => LEAD_CHANNELS.includes(c));
+  return valid.length ? valid : ["email"];
+}
+
+async function sendEmail(payload) {
+  const { RESEND_API_KEY } = process.env;
+  if (!RESEND_API_KEY) throw new Error("Missing RESEND_API_KEY");
+
+  const r = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${RESEND_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(payload),
+  });
+  const data = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(data?.message || `Resend returned ${r.status}`);
+  return data?.id || null;
+}
+
+async function sendWebhook(sb, row) {
+  // secret is read at send time so a rotated (or first) secret applies to retries
+  const { data: stored, error } = await sb
+    .from("lead_webhook_secrets")
+    .select("secret")
+    .eq("cleaner_id", row.cleaner_id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!stored?.secret) throw new Error("No webhook signing secret – generate one in Settings");
+
+  await checkWebhookTarget(row.payload.url);
+
+  const rawBody = JSON.stringify(row.payload.body);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const r = await fetch(row.payload.url, {
+    method: "POST",
+    // a redirect could point anywhere, including back inside
+    redirect: "manual",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "Kleanly-Webhooks/1",
+      "X-Kleanly-Timestamp": String(timestamp),
+      "X-Kleanly-Signature": `sha256=${signWebhook(stored.secret, timestamp, rawBody)}`,
+    },
+    body: rawBody,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (r.status >= 300 && r.status < 400) throw new Error(`Webhook redirected (${r.status}); use the final URL`);
+  if (!r.ok) throw new Error(`Webhook returned ${r.status}`);
+  return null;
+}
+
+async function send(sb, row) {
+  if (row.channel === "email") return sendEmail(row.payload);
+  if (row.channel === "sms") {
+    const sms = getSmsProvider();
+    if (!sms) throw new Error("SMS isn't configured (SMS_PROVIDER)");
+    return (await sms.send(row.payload)).id;
+  }
+  if (row.channel === "webhook") return sendWebhook(sb, row);
+  throw new Error(`Unknown channel ${row.channel}`);
+}
+
+/**
+ * Try one delivery row once and record the outcome. Returns the new
+ * status. Never throws.
+ */
+export async function attemptDelivery(sb, row) {
+  const attempts = (row.attempts || 0) + 1;
+  const now = new Date();
+  let patch;
+
+  try {
+    const ref = await send(sb, row);
+    patch = {
+      status: "sent",
+      attempts,
+      provider_ref: ref,
+      last_error: null,
+      next_attempt_at: null,
+      delivered_at: now.toISOString(),
+    };
+  } catch (e) {
+    const message = String(e?.message || e).slice(0, 500);
+    console.warn(`[leadDelivery] ${row.channel} attempt ${attempts} failed:`, message);
+    const delay = RETRY_DELAYS_MIN[attempts - 1];
+    patch = {
+      status: delay == null ? "failed" : "retrying",
+      attempts,
+      last_error: message,
+      next_attempt_at: delay == null ? null : new Date(now.getTime() + delay * 60_000).toISOString(),
+    };
+  }
+
+  const { error } = await sb
+    .from("lead_deliveries")
+    .update({ ...patch, updated_at: now.toISOString() })
+    .eq("id", row.id);
+  if (error) console.warn("[leadDelivery] status update failed:", error.message);
+
+  return patch.status;
+}
+
+/**
+ * Create a delivery row per job ({ channel, target, payload }) and try each
+ * once now. Returns [{ channel, status }].
+ */
+export async function deliverLead(sb, { enquiryId, cleanerId, jobs }) {
+  if (!jobs.length) return [];
+
+  const { data: rows, error } = await sb
+    .from("lead_deliveries")
+    .insert(
+      jobs.map((j) => ({
+        enquiry_id: enquiryId,
+        cleaner_id: cleanerId,
+        channel: j.channel,
+        target: j.target,
+        payload: j.payload,
+      }))
+    )
+    .select("id, cleaner_id, channel, attempts, payload");
+
+  if (error) {
+    // can't track it, but still get the lead out
+    console.error("[leadDelivery] failed to record deliveries:", error);
+    return Promise.all(
+      jobs.map(async (job) => {
+        const row = { cleaner_id: cleanerId, ...job };
+        try {
+          await send(sb, row);
+          return { channel: row.channel, status: "sent" };
+        } catch {
+          return { channel: row.channel, status: "failed" };
+        }
+      })
+    );
+  }
+
+  return Promise.all(
+    rows.map(async (row) => ({ channel: row.channel, status: await attemptDelivery(sb, row) }))
+  );
+}
+
+/** Rows whose next retry is due, oldest first. */
+export async function dueDeliveries(sb, limit = 50) {
+  const { data, error } = await sb
+    .from("lead_deliveries")
+    .select("id, cleaner_id, channel, attempts, payload")
+    .eq("status", "retrying")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit);
+  if (error) throw error;
+  return data || [];
+}
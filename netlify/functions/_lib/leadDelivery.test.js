@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { checkWebhookTarget, isPrivateAddress, webhookUrlProblem } from "./leadDelivery.js";
+
+describe("isPrivateAddress", () => {
+  it("catches private, loopback and link-local addresses", () => {
+    for (const ip of ["10.1.2.3", "127.0.0.1", "169.254.169.254", "172.20.0.1", "192.168.1.10", "100.64.0.1", "0.0.0.0"]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+    for (const ip of ["::1", "::", "fe80::1", "fd12:3456::1", "::ffff:127.0.0.1"]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+  });
+
+  it("lets public addresses through", () => {
+    expect(isPrivateAddress("8.8.8.8")).toBe(false);
+    expect(isPrivateAddress("172.32.0.1")).toBe(false);
+    expect(isPrivateAddress("2606:4700::1111")).toBe(false);
+  });
+});
+
+describe("webhookUrlProblem", () => {
+  it("wants a public https URL", () => {
+    expect(webhookUrlProblem("https://hooks.zapier.com/hooks/catch/1/abc")).toBeNull();
+    expect(webhookUrlProblem("http://hooks.example.com/x")).toMatch(/https/);
+    expect(webhookUrlProblem("not a url")).toBe("Not a URL");
+    expect(webhookUrlProblem("https://localhost:8080/x")).toBe("Webhook host isn't public");
+    expect(webhookUrlProblem("https://169.254.169.254/latest/meta-data")).toBe("Webhook host isn't public");
+    expect(webhookUrlProblem("https://[::1]/x")).toBe("Webhook host isn't public");
+  });
+});
+
+describe("checkWebhookTarget", () => {
+  it("accepts a public address and refuses private ones", async () => {
+    await expect(checkWebhookTarget("https://8.8.8.8/hook")).resolves.toBeUndefined();
+    await expect(checkWebhookTarget("https://10.0.0.5/hook")).rejects.toThrow("Webhook host isn't public");
+    await expect(checkWebhookTarget("http://8.8.8.8/hook")).rejects.toThrow(/https/);
+  });
+});
@@ -0,0 +1,120 @@
+// netlify/functions/_lib/postcodeBoundaries.js
+// Postcode district ("BT20") and sector ("BT20 5") boundaries from a locally
+// loaded GeoJSON file, for building service areas out of postcodes instead
+// of drawing them. Loaded once per warm function instance, like the
+// postcode table in geocode.js.
+//
+// The file is a FeatureCollection of Polygon / MultiPolygon features in
+// WGS84 whose properties carry the code under one of
+//   code | name | postcode | district | sector
+// Districts and sectors can share one file or be split across several
+// (comma-separated POSTCODE_BOUNDARY_PATH). Build it before deploying with
+// scripts/build-postcode-boundaries.mjs; without it the picker is switched
+// off (area-postcodes.js answers 503) and areas are drawn by hand.
+//
+// Env:
+//   POSTCODE_BOUNDARY_PATH   default netlify/functions/data/postcode-boundaries.geojson
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { booleanPointInPolygon, featureCollection, union } from "@turf/turf";
+import { parsePostcode } from "./postcodes.js";
+
+const DEFAULT_DATASET = "netlify/functions/data/postcode-boundaries.geojson";
+const CODE_PROPS = ["code", "name", "postcode", "district", "sector"];
+
+// an area is a handful of districts or a few dozen sectors, not a county
+export const MAX_CODES = 100;
+
+// null = not loaded yet; empty when no boundary file has been deployed
+let index = null;
+
+/** "bt20" -> "BT20", "bt205" -> "BT20 5"; null if it isn't a district or sector. */
+export function normaliseCode(raw) {
+  const parsed = parsePostcode(raw);
+  if (!parsed) return null;
+  if (parsed.kind === "outcode") return parsed.outcode;
+  if (parsed.kind === "sector") return parsed.sector;
+  return null; // full postcodes are too small to be an area
+}
+
+export function codeLevel(code) {
+  return code.includes(" ") ? "sector" : "district";
+}
+
+function getIndex() {
+  if (index) return index;
+  const files = (process.env.POSTCODE_BOUNDARY_PATH || DEFAULT_DATASET)
+    .split(",")
+    .map((f) => f.trim())
+    .filter(Boolean);
+
+  const byCode = new Map();
+  for (const file of files.map((f) => path.resolve(f))) {
+    if (!existsSync(file)) {
+      console.warn(`[postcodeBoundaries] ${file} not found, postcode areas are off`);
+      continue;
+    }
+    const fc = JSON.parse(readFileSync(file, "utf8"));
+    for (const f of fc.features || []) {
+      if (!["Polygon", "MultiPolygon"].includes(f?.geometry?.type)) continue;
+      const prop = CODE_PROPS.find((p) => f.properties?.[p]);
+      const code = prop && normaliseCode(f.properties[prop]);
+      if (code) byCode.set(code, { type: "Feature", properties: { code }, geometry: f.geometry });
+    }
+  }
+
+  index = byCode;
+  return index;
+}
+
+// for tests: forget the loaded boundaries so the next lookup re-reads the env
+export function resetBoundaryIndex() {
+  index = null;
+}
+
+/** False when no boundary file has been deployed (or it has no usable features). */
+export function boundariesAvailable() {
+  return getIndex().size > 0;
+}
+
+/** Codes starting with `prefix` (for type-ahead), districts before sectors. */
+export function suggestCodes(prefix, limit = 20) {
+  const p = String(prefix || "").toUpperCase().replace(/\s+/g, " ").trim();
+  if (!p) return [];
+  return [...getIndex().keys()]
+    .filter((c) => c.startsWith(p))
+    .sort((a, b) => codeLevel(a).localeCompare(codeLevel(b)) || a.localeCompare(b, "en", { numeric: true }))
+    .slice(0, limit);
+}
+
+/** District or sector containing a point, or null. */
+export function codeAt(lat, lng, level = "district") {
+  for (const [code, f] of getIndex()) {
+    if (codeLevel(code) === level && booleanPointInPolygon([lng, lat], f)) return code;
+  }
+  return null;
+}
+
+/**
+ * Dissolve the boundaries of `codes` into one MultiPolygon.
+ * Returns { geojson, codes, missing } – codes normalised and de-duplicated,
+ * missing = ones not in the dataset (left out of the shape).
+ */
+export function dissolveCodes(rawCodes) {
+  const codes = [...new Set(rawCodes.map(normaliseCode).filter(Boolean))].slice(0, MAX_CODES);
+  const idx = getIndex();
+  const found = codes.filter((c) => idx.has(c));
+  const missing = codes.filter((c) => !idx.has(c));
+  if (!found.length) return { geojson: null, codes, missing };
+
+  const features = found.map((c) => idx.get(c));
+  const merged = features.length === 1 ? features[0] : union(featureCollection(features));
+  const geom = merged?.geometry;
+  if (!geom) return { geojson: null, codes, missing };
+
+  return {
+    geojson: geom.type === "Polygon" ? { type: "MultiPolygon", coordinates: [geom.coordinates] } : geom,
+    codes: found,
+    missing,
+  };
+}
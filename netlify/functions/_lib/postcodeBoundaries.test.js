@@ -0,0 +1,78 @@
+import { fileURLToPath } from "node:url";
+import { area } from "@turf/turf";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  boundariesAvailable,
+  codeAt,
+  dissolveCodes,
+  normaliseCode,
+  resetBoundaryIndex,
+  suggestCodes,
+} from "./postcodeBoundaries.js";
+
+const FIXTURE = fileURLToPath(new URL("./fixtures/postcode-boundaries.geojson", import.meta.url));
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  resetBoundaryIndex();
+});
+
+describe("normaliseCode", () => {
+  it("tidies districts and sectors", () => {
+    expect(normaliseCode("bt20")).toBe("BT20");
+    expect(normaliseCode(" bt20 5 ")).toBe("BT20 5");
+    expect(normaliseCode("bt205")).toBe("BT20 5");
+  });
+
+  it("rejects full postcodes and junk", () => {
+    expect(normaliseCode("BT20 5NF")).toBeNull();
+    expect(normaliseCode("hello")).toBeNull();
+    expect(normaliseCode("")).toBeNull();
+  });
+});
+
+describe("with the boundary file", () => {
+  beforeEach(() => vi.stubEnv("POSTCODE_BOUNDARY_PATH", FIXTURE));
+
+  it("dissolves neighbouring districts into one polygon", () => {
+    const { geojson, codes, missing } = dissolveCodes(["bt19", "BT20", "BT19"]);
+    expect(codes).toEqual(["BT19", "BT20"]);
+    expect(missing).toEqual([]);
+    expect(geojson.type).toBe("MultiPolygon");
+    // the shared edge goes, so it's one part the size of both
+    expect(geojson.coordinates).toHaveLength(1);
+    const one = area(dissolveCodes(["BT19"]).geojson);
+    expect(area(geojson)).toBeCloseTo(one + area(dissolveCodes(["BT20"]).geojson), -3);
+  });
+
+  it("reports codes it has no boundary for", () => {
+    const { geojson, codes, missing } = dissolveCodes(["BT20 5", "BT99", "BT20 5NF"]);
+    expect(codes).toEqual(["BT20 5"]);
+    expect(missing).toEqual(["BT99"]);
+    expect(geojson.coordinates).toHaveLength(1);
+
+    expect(dissolveCodes(["BT99"])).toEqual({ geojson: null, codes: ["BT99"], missing: ["BT99"] });
+  });
+
+  it("finds codes by prefix and by point, skipping non-polygons", () => {
+    expect(suggestCodes("bt2")).toEqual(["BT20", "BT20 5"]);
+    expect(suggestCodes("BT1")).toEqual(["BT19"]);
+    expect(codeAt(54.66, -5.66)).toBe("BT20");
+    expect(codeAt(54.66, -5.66, "sector")).toBe("BT20 5");
+    expect(codeAt(54.5, -5.66)).toBeNull();
+    expect(boundariesAvailable()).toBe(true);
+  });
+});
+
+describe("without the boundary file", () => {
+  it("switches postcode areas off instead of throwing", () => {
+    vi.stubEnv("POSTCODE_BOUNDARY_PATH", "netlify/functions/data/not-deployed.geojson");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(boundariesAvailable()).toBe(false);
+    expect(suggestCodes("BT")).toEqual([]);
+    expect(dissolveCodes(["BT20"]).missing).toEqual(["BT20"]);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,319 @@
+// netlify/functions/_lib/postcodes.js
+// Offline UK postcode lookup backed by a locally loaded CSV
+// (ONSPD / OS Code-Point Open style, already converted to WGS84 lat/lng).
+//
+// Expected columns (header row, case-insensitive, extra columns ignored):
+//   postcode | pcds | pcd          full postcode, or just an outcode ("BT20")
+//   latitude | lat
+//   longitude | long | lng
+//   post_town | town | posttown    optional, but town search, town pages and
+//                                  the sitemap need it; ONSPD has none, so
+//                                  scripts/build-postcode-dataset.mjs names
+//                                  towns from its area codes
+//
+// Lookups resolve in order: full postcode -> sector ("BT20 5") -> outcode
+// ("BT20"). Sector, outcode and post town positions are the centroid of every
+// postcode loaded for them unless the file has an explicit outcode row.
+import { readFileSync } from "node:fs";
+
+const POSTCODE_COLS = ["postcode", "pcds", "pcd"];
+const LAT_COLS = ["latitude", "lat"];
+const LNG_COLS = ["longitude", "long", "lng"];
+const TOWN_COLS = ["post_town", "posttown", "town"];
+
+// Outward code: area letters + district (digit, optional digit/letter)
+const OUTCODE_RE = /^[A-Z]{1,2}[0-9][0-9A-Z]?$/;
+const INWARD_RE = /^[0-9][A-Z]{2}$/;
+
+/**
+ * Split a user-typed postcode into its parts.
+ * Accepts "bt205nf", "BT20  5NF", "bt20 5", "BT205", "BT20".
+ * Returns null when the input can't be a (partial) UK postcode.
+ */
+export function parsePostcode(raw) {
+  const text = String(raw || "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9\s]/g, "")
+    .trim()
+    .replace(/\s+/g, " ");
+  const compact = text.replace(/ /g, "");
+  if (!compact) return null;
+
+  // Full postcode: the inward code is always the last three characters
+  if (compact.length >= 5) {
+    const outcode = compact.slice(0, -3);
+    const inward = compact.slice(-3);
+    if (OUTCODE_RE.test(outcode) && INWARD_RE.test(inward)) {
+      return {
+        kind: "postcode",
+        outcode,
+        sector: `${outcode} ${inward[0]}`,
+        postcode: `${outcode} ${inward}`,
+      };
+    }
+  }
+
+  // "BT20 5" is unambiguous when typed with a space
+  const [outPart, inPart] = text.split(" ");
+  if (inPart !== undefined && OUTCODE_RE.test(outPart) && /^[0-9]$/.test(inPart)) {
+    return sector(outPart, inPart);
+  }
+
+  // Without a space prefer the outcode reading ("BT20" is BT20, not "BT2 0")
+  if (OUTCODE_RE.test(compact)) {
+    return { kind: "outcode", outcode: compact, sector: null, postcode: null };
+  }
+
+  if (/[0-9]$/.test(compact) && OUTCODE_RE.test(compact.slice(0, -1))) {
+    return sector(compact.slice(0, -1), compact.slice(-1));
+  }
+
+  return null;
+}
+
+function sector(outcode, digit) {
+  return {
+    kind: "sector",
+    outcode,
+    sector: `${outcode} ${digit}`,
+    postcode: null,
+  };
+}
+
+export function splitCsvLine(line) {
+  const out = [];
+  let cur = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cur += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      out.push(cur);
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur);
+  return out.map((s) => s.trim());
+}
+
+function findColumn(header, names) {
+  return header.findIndex((h) => names.includes(h));
+}
+
+function addToCentroid(map, key, lat, lng, town) {
+  const acc = map.get(key) || { lat: 0, lng: 0, n: 0, towns: new Map() };
+  acc.lat += lat;
+  acc.lng += lng;
+  acc.n += 1;
+  if (town) acc.towns.set(town, (acc.towns.get(town) || 0) + 1);
+  map.set(key, acc);
+}
+
+function finishCentroids(map) {
+  const out = new Map();
+  for (const [key, acc] of map) {
+    // most common post town wins for a sector/outcode
+    let town = "";
+    let best = 0;
+    for (const [t, n] of acc.towns) {
+      if (n > best) {
+        town = t;
+        best = n;
+      }
+    }
+    out.set(key, { lat: acc.lat / acc.n, lng: acc.lng / acc.n, town });
+  }
+  return out;
+}
+
+/**
+ * Build lookup tables from CSV text. Rows with unusable coordinates
+ * (ONSPD uses 99.999999 for "no grid reference") are skipped.
+ */
+export function buildPostcodeIndex(csvText) {
+  const lines = String(csvText || "").split(/\r?\n/);
+  const header = splitCsvLine(lines[0] || "").map((h) => h.toLowerCase());
+
+  const pcCol = findColumn(header, POSTCODE_COLS);
+  const latCol = findColumn(header, LAT_COLS);
+  const lngCol = findColumn(header, LNG_COLS);
+  const townCol = findColumn(header, TOWN_COLS);
+
+  if (pcCol < 0 || latCol < 0 || lngCol < 0) {
+    throw new Error(
+      "Postcode dataset needs postcode, latitude and longitude columns."
+    );
+  }
+
+  const postcodes = new Map();
+  const explicitOutcodes = new Map();
+  const sectorAcc = new Map();
+  const outcodeAcc = new Map();
+  const townAcc = new Map();
+  const townSectors = new Map(); // TOWN -> Set of sectors, for its footprint
+
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i]) continue;
+    const cols = splitCsvLine(lines[i]);
+
+    const parsed = parsePostcode(cols[pcCol]);
+    const lat = Number(cols[latCol]);
+    const lng = Number(cols[lngCol]);
+    const town = townCol >= 0 ? cols[townCol] || "" : "";
+
+    if (!parsed || parsed.kind === "sector") continue;
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) continue;
+
+    if (parsed.kind === "outcode") {
+      explicitOutcodes.set(parsed.outcode, { lat, lng, town });
+      continue;
+    }
+
+    postcodes.set(parsed.postcode, { lat, lng, town });
+    addToCentroid(sectorAcc, parsed.sector, lat, lng, town);
+    addToCentroid(outcodeAcc, parsed.outcode, lat, lng, town);
+    if (town) {
+      addToCentroid(townAcc, town.toUpperCase(), lat, lng, town);
+      const set = townSectors.get(town.toUpperCase()) || new Set();
+      set.add(parsed.sector);
+      townSectors.set(town.toUpperCase(), set);
+    }
+  }
+
+  const outcodes = finishCentroids(outcodeAcc);
+  for (const [k, v] of explicitOutcodes) outcodes.set(k, v);
+
+  // each town also gets its sector centres as [lng, lat] points: a rough
+  // footprint, so "covers the town" isn't just "covers its centroid"
+  const sectors = finishCentroids(sectorAcc);
+  const towns = finishCentroids(townAcc);
+  for (const [key, t] of towns) {
+    t.points = [...(townSectors.get(key) || [])].map((s) => [sectors.get(s).lng, sectors.get(s).lat]);
+  }
+
+  return {
+    postcodes,
+    sectors,
+    outcodes,
+    towns,
+  };
+}
+
+export function loadPostcodeIndex(filePath) {
+  return buildPostcodeIndex(readFileSync(filePath, "utf8"));
+}
+
+/**
+ * Resolve a (partial) postcode against an index built above.
+ * Returns { postcode, outcode, precision, lat, lng, post_town } or null.
+ * A full postcode missing from the dataset (e.g. brand new) falls back to its
+ * sector, then outcode, so searches still land in the right place.
+ */
+export function lookupPostcode(index, raw) {
+  const parsed = parsePostcode(raw);
+  if (!parsed) return null;
+
+  const attempts = [
+    ["postcode", parsed.postcode, index.postcodes],
+    ["sector", parsed.sector, index.sectors],
+    ["outcode", parsed.outcode, index.outcodes],
+  ];
+
+  for (const [precision, key, table] of attempts) {
+    if (!key) continue;
+    const hit = table.get(key);
+    if (!hit) continue;
+    return {
+      postcode: parsed.postcode || parsed.sector || parsed.outcode,
+      outcode: parsed.outcode,
+      precision,
+      lat: hit.lat,
+      lng: hit.lng,
+      post_town: hit.town || "",
+    };
+  }
+
+  return null;
+}
+
+// Finds "BT20 5NF" / "bt205nf" inside free text like "1 Main St, Bangor BT20 5NF"
+export const POSTCODE_IN_TEXT_RE =
+  /\b([A-Z]{1,2}[0-9][0-9A-Z]?)\s*([0-9][A-Z]{2})\b/i;
+
+/**
+ * Resolve free text (a town, or an address that mentions a town or postcode)
+ * to { postcode, outcode, precision, lat, lng, post_town } or null.
+ * A postcode anywhere in the text wins; otherwise each comma-separated part is
+ * tried as a post town, last part first ("Main Street, Bangor" -> Bangor).
+ */
+export function lookupPlace(index, text) {
+  const raw = String(text || "").trim();
+  if (!raw) return null;
+
+  const m = raw.match(POSTCODE_IN_TEXT_RE);
+  if (m) {
+    const hit = lookupPostcode(index, `${m[1]} ${m[2]}`);
+    if (hit) return hit;
+  }
+
+  const parts = raw
+    .split(",")
+    .map((p) => p.trim().toUpperCase())
+    .filter(Boolean)
+    .reverse();
+
+  for (const part of parts) {
+    const hit = index.towns.get(part);
+    if (!hit) continue;
+    const near = nearestOutcode(index, hit.lat, hit.lng);
+    return {
+      postcode: near?.outcode ?? "",
+      outcode: near?.outcode ?? "",
+      precision: "town",
+      lat: hit.lat,
+      lng: hit.lng,
+      post_town: hit.town,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Closest outcode centroid to a point, for labelling searches that start
+ * from coordinates (browser geolocation, Places picks).
+ * Returns { outcode, lat, lng, post_town, distance_km } or null.
+ */
+export function nearestOutcode(index, lat, lng) {
+  let best = null;
+  let bestD = Infinity;
+  const cosLat = Math.cos((lat * Math.PI) / 180);
+
+  for (const [outcode, v] of index.outcodes) {
+    // equirectangular is plenty at outcode scale
+    const dx = (v.lng - lng) * cosLat;
+    const dy = v.lat - lat;
+    const d = dx * dx + dy * dy;
+    if (d < bestD) {
+      bestD = d;
+      best = { outcode, lat: v.lat, lng: v.lng, post_town: v.town || "" };
+    }
+  }
+
+  if (!best) return null;
+  return { ...best, distance_km: Math.sqrt(bestD) * 111.32 };
+}
@@ -0,0 +1,84 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { buildPostcodeIndex, lookupPlace, lookupPostcode, nearestOutcode, parsePostcode } from "./postcodes.js";
+
+const index = buildPostcodeIndex(readFileSync(new URL("./fixtures/postcodes.csv", import.meta.url), "utf8"));
+
+describe("parsePostcode", () => {
+  it("normalises full postcodes however they're typed", () => {
+    for (const raw of ["bt205nf", "BT20  5NF", " bt20 5nf "]) {
+      expect(parsePostcode(raw)).toEqual({
+        kind: "postcode",
+        outcode: "BT20",
+        sector: "BT20 5",
+        postcode: "BT20 5NF",
+      });
+    }
+  });
+
+  it("reads outcodes and sectors", () => {
+    expect(parsePostcode("bt20")).toMatchObject({ kind: "outcode", outcode: "BT20" });
+    expect(parsePostcode("BT20 5")).toMatchObject({ kind: "sector", sector: "BT20 5" });
+    expect(parsePostcode("BT205")).toMatchObject({ kind: "sector", sector: "BT20 5" });
+  });
+
+  it("rejects things that can't be postcodes", () => {
+    expect(parsePostcode("")).toBeNull();
+    expect(parsePostcode("hello")).toBeNull();
+    expect(parsePostcode("12345")).toBeNull();
+  });
+});
+
+describe("lookupPostcode", () => {
+  it("finds a full postcode", () => {
+    expect(lookupPostcode(index, "bt205nf")).toEqual({
+      postcode: "BT20 5NF",
+      outcode: "BT20",
+      precision: "postcode",
+      lat: 54.6601,
+      lng: -5.6689,
+      post_town: "BANGOR",
+    });
+  });
+
+  it("falls back to the sector, then the outcode, for unknown postcodes", () => {
+    const sector = lookupPostcode(index, "BT20 5ZZ");
+    expect(sector).toMatchObject({ precision: "sector", post_town: "BANGOR" });
+    expect(sector.lat).toBeCloseTo((54.6601 + 54.6611) / 2, 6);
+
+    expect(lookupPostcode(index, "BT19 9ZZ")).toMatchObject({ precision: "outcode", lat: 54.6455 });
+  });
+
+  it("uses an explicit outcode row over the centroid", () => {
+    expect(lookupPostcode(index, "BT23")).toMatchObject({ precision: "outcode", lat: 54.59, post_town: "NEWTOWNARDS" });
+  });
+
+  it("skips rows with no grid reference and unknown areas", () => {
+    expect(lookupPostcode(index, "BT99 9ZZ")).toBeNull();
+    expect(lookupPostcode(index, "SW1A 1AA")).toBeNull();
+  });
+});
+
+describe("lookupPlace", () => {
+  it("prefers a postcode in the text", () => {
+    expect(lookupPlace(index, "1 Main St, Belfast, BT20 5NF")).toMatchObject({ postcode: "BT20 5NF" });
+  });
+
+  it("matches a town, last comma part first", () => {
+    const hit = lookupPlace(index, "Main Street, bangor");
+    expect(hit).toMatchObject({ precision: "town", post_town: "BANGOR", outcode: "BT20" });
+  });
+
+  it("returns null for places it doesn't know", () => {
+    expect(lookupPlace(index, "Atlantis")).toBeNull();
+    expect(lookupPlace(index, "")).toBeNull();
+  });
+});
+
+describe("nearestOutcode", () => {
+  it("labels a point with the closest outcode", () => {
+    const near = nearestOutcode(index, 54.6, -5.93);
+    expect(near).toMatchObject({ outcode: "BT1", post_town: "BELFAST" });
+    expect(near.distance_km).toBeLessThan(1);
+  });
+});
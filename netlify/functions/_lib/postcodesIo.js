@@ -0,0 +1,124 @@
+// netlify/functions/_lib/postcodesIo.js
+// postcodes.io lookups, used by geocode.js only when the local postcode
+// dataset hasn't been deployed (see scripts/build-postcode-dataset.mjs).
+// Same result shapes as ./postcodes.js. Results are cached per warm function
+// instance so repeat searches don't hit postcodes.io again.
+import { POSTCODE_IN_TEXT_RE, parsePostcode } from "./postcodes.js";
+
+const API = "https://api.postcodes.io";
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // postcodes barely move
+const CACHE_MAX_ENTRIES = 5000;
+
+// key: request path -> { value, expires }
+const cache = new Map();
+
+function cacheGet(key) {
+  const hit = cache.get(key);
+  if (!hit) return undefined;
+  if (hit.expires < Date.now()) {
+    cache.delete(key);
+    return undefined;
+  }
+  return hit.value;
+}
+
+function cacheSet(key, value) {
+  // Map keeps insertion order, so the first key is the oldest entry
+  if (cache.size >= CACHE_MAX_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    cache.delete(oldest);
+  }
+  cache.set(key, { value, expires: Date.now() + CACHE_TTL_MS });
+}
+
+/**
+ * GET a postcodes.io path and return its `result`, or null when it doesn't
+ * know the thing (also cached, so typos don't hammer the upstream). Throws
+ * when the service itself fails.
+ */
+async function getResult(pathAndQuery) {
+  const cached = cacheGet(pathAndQuery);
+  if (cached !== undefined) return cached;
+
+  const res = await fetch(`${API}${pathAndQuery}`);
+  if (res.status === 404 || res.status === 400) {
+    cacheSet(pathAndQuery, null);
+    return null;
+  }
+  if (!res.ok) throw new Error(`postcodes.io ${res.status}`);
+
+  const body = await res.json();
+  const result = body?.status === 200 && body.result ? body.result : null;
+  cacheSet(pathAndQuery, result);
+  return result;
+}
+
+// postcodes.io has no post town field; the district is the nearest thing
+const townOf = (r) => (Array.isArray(r.admin_district) ? r.admin_district[0] : r.admin_district) || r.region || "";
+
+/** Same contract as lookupPostcode in ./postcodes.js (sectors resolve to their outcode). */
+export async function remoteLookupPostcode(raw) {
+  const parsed = parsePostcode(raw);
+  if (!parsed) return null;
+
+  if (parsed.postcode) {
+    const r = await getResult(`/postcodes/${encodeURIComponent(parsed.postcode)}`);
+    if (r) {
+      return {
+        postcode: parsed.postcode,
+        outcode: parsed.outcode,
+        precision: "postcode",
+        lat: Number(r.latitude),
+        lng: Number(r.longitude),
+        post_town: townOf(r),
+      };
+    }
+  }
+
+  const r = await getResult(`/outcodes/${encodeURIComponent(parsed.outcode)}`);
+  if (!r || r.latitude == null) return null;
+  return {
+    postcode: parsed.postcode || parsed.sector || parsed.outcode,
+    outcode: parsed.outcode,
+    precision: "outcode",
+    lat: Number(r.latitude),
+    lng: Number(r.longitude),
+    post_town: townOf(r),
+  };
+}
+
+/** Same contract as lookupPlace in ./postcodes.js. */
+export async function remoteLookupPlace(text) {
+  const raw = String(text || "").trim();
+  if (!raw) return null;
+
+  const m = raw.match(POSTCODE_IN_TEXT_RE);
+  if (m) {
+    const hit = await remoteLookupPostcode(`${m[1]} ${m[2]}`);
+    if (hit) return hit;
+  }
+
+  // last comma-separated part is usually the town
+  const town = raw.split(",").map((p) => p.trim()).filter(Boolean).pop();
+  const places = await getResult(`/places?q=${encodeURIComponent(town)}&limit=1`);
+  const p = Array.isArray(places) ? places[0] : null;
+  if (!p) return null;
+  return {
+    postcode: p.outcode || "",
+    outcode: p.outcode || "",
+    precision: "town",
+    lat: Number(p.latitude),
+    lng: Number(p.longitude),
+    post_town: p.name_1 || town,
+  };
+}
+
+/** Same contract as nearestOutcode in ./postcodes.js, minus distance: only outcodes within radiusKm. */
+export async function remoteNearestOutcode(lat, lng, radiusKm) {
+  const radius = Math.round(radiusKm * 1000);
+  const list = await getResult(`/outcodes?lon=${lng}&lat=${lat}&radius=${radius}&limit=1`);
+  const r = Array.isArray(list) ? list[0] : null;
+  if (!r) return null;
+  return { outcode: r.outcode, lat: Number(r.latitude), lng: Number(r.longitude), post_town: townOf(r) };
+}
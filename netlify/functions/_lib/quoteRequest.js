@@ -0,0 +1,92 @@
+// netlify/functions/_lib/quoteRequest.js
+// Structured quote requests sent with an enquiry: which bin sizes, how many
+// of each, and how often. Mirrors src/constants/quoteRequest.ts.
+//
+// Stored on the enquiry (run in Supabase SQL editor):
+//   alter table public.enquiries add column if not exists quote jsonb;
+//
+// Shape:
+//   { frequency: "one_off" | "monthly" | "four_weekly",
+//     lines: [{ size: "240L", qty: 2, unit_price_cents: 800 | null }],
+//     indicative_total_cents: 1600 | null }   -- per clean, null if any size unpriced
+//
+// Prices always come from service_offerings.price_cents, never the client.
+
+export const QUOTE_FREQUENCIES = {
+  one_off: "One-off",
+  monthly: "Monthly",
+  four_weekly: "Every 4 weeks",
+};
+
+const BIN_SIZES = ["120L", "240L", "360L", "660L", "1100L"];
+const MAX_BIN_QTY = 20;
+
+/**
+ * Tidy a client quote into { frequency, lines: [{ size, qty }] }, or null
+ * when nothing usable was sent. Unknown sizes and silly quantities are dropped.
+ */
+export function parseQuote(raw) {
+  if (!raw || typeof raw !== "object") return null;
+
+  const frequency = Object.hasOwn(QUOTE_FREQUENCIES, raw.frequency) ? raw.frequency : "one_off";
+
+  const qtyBySize = new Map();
+  for (const line of Array.isArray(raw.lines) ? raw.lines : []) {
+    const size = String(line?.size || "");
+    const qty = Math.floor(Number(line?.qty));
+    if (!BIN_SIZES.includes(size) || !Number.isFinite(qty) || qty < 1) continue;
+    qtyBySize.set(size, Math.min(MAX_BIN_QTY, (qtyBySize.get(size) || 0) + qty));
+  }
+
+  const lines = BIN_SIZES.filter((s) => qtyBySize.has(s)).map((size) => ({
+    size,
+    qty: qtyBySize.get(size),
+  }));
+  return lines.length ? { frequency, lines } : null;
+}
+
+/**
+ * Price a parsed quote against the cleaner's active bin_cleaning offerings.
+ * Sizes they don't offer are dropped. Returns the stored shape or null.
+ */
+export async function priceQuote(sb, cleanerId, quote) {
+  if (!quote) return null;
+
+  const { data, error } = await sb
+    .from("service_offerings")
+    .select("variant, price_cents")
+    .eq("cleaner_id", cleanerId)
+    .eq("service", "bin_cleaning")
+    .eq("is_active", true);
+
+  if (error) {
+    console.warn("[quoteRequest] service_offerings lookup failed:", error);
+    return null;
+  }
+
+  const prices = new Map((data || []).map((o) => [o.variant, o.price_cents ?? null]));
+  const lines = quote.lines
+    .filter((l) => prices.has(l.size))
+    .map((l) => ({ ...l, unit_price_cents: prices.get(l.size) }));
+  if (!lines.length) return null;
+
+  const priced = lines.every((l) => Number.isFinite(l.unit_price_cents));
+  return {
+    frequency: quote.frequency,
+    lines,
+    indicative_total_cents: priced
+      ? lines.reduce((sum, l) => sum + l.qty * l.unit_price_cents, 0)
+      : null,
+  };
+}
+
+export function formatPence(cents) {
+  return `£${(Number(cents || 0) / 100).toFixed(2)}`;
+}
+
+// "2 × 240L, 1 × 660L – Monthly"
+export function quoteSummary(quote) {
+  if (!quote?.lines?.length) return "";
+  const items = quote.lines.map((l) => `${l.qty} × ${l.size}`).join(", ");
+  return `${items} – ${QUOTE_FREQUENCIES[quote.frequency] || quote.frequency}`;
+}
@@ -0,0 +1,142 @@
+// netlify/functions/_lib/ranking.js
+// Ordering of search results. Sponsors always lead; everyone else is
+// placed by a deterministic strategy seeded per UTC day + postcode area +
+// category, so the same search gives the same order all day and we can
+// explain to a business why they ranked where they did.
+//
+// Strategies (SEARCH_ROTATION_STRATEGY env, default "rotate"):
+//   rotate                 round-robin: over N days each of N cleaners holds
+//                          each position exactly once
+//   weighted_completeness  seeded weighted shuffle, fuller profiles float up
+//   weighted_rating        seeded weighted shuffle, better rated float up
+
+export const ROTATION_STRATEGIES = [
+  "rotate",
+  "weighted_completeness",
+  "weighted_rating",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// FNV-1a, 32 bit
+function hashString(str) {
+  let h = 2166136261;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+function mulberry32(a) {
+  return function () {
+    let t = (a += 0x6d2b79f5);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function resolveStrategy(raw) {
+  const s = String(raw || "").trim();
+  return ROTATION_STRATEGIES.includes(s) ? s : "rotate";
+}
+
+// "BT20 5NF" -> "BT20"; coordinate searches fall back to a ~1km grid cell
+export function areaKeyFor(postcode, lat, lng) {
+  const outcode = String(postcode || "").trim().split(" ")[0];
+  if (outcode) return outcode.toUpperCase();
+  return `${lat.toFixed(2)},${lng.toFixed(2)}`;
+}
+
+// Share of the public profile that is filled in, 0..1
+export function profileCompleteness(row) {
+  const checks = [
+    !!row.logo_url,
+    !!row.website,
+    !!row.phone,
+    !!row.whatsapp,
+    (row.payment_methods || []).length > 0,
+    (row.service_types || []).length > 0,
+    typeof (row.google_rating ?? row.rating_avg) === "number",
+  ];
+  return checks.filter(Boolean).length / checks.length;
+}
+
+// Rating pulled towards 4.0 until there are enough reviews to trust it
+function smoothedRating(row) {
+  const r = row.google_rating ?? row.rating_avg;
+  if (typeof r !== "number") return null;
+  const n = Number(row.google_reviews_count ?? row.rating_count ?? 0) || 0;
+  const PRIOR = 4.0;
+  const PRIOR_WEIGHT = 5;
+  return (r * n + PRIOR * PRIOR_WEIGHT) / (n + PRIOR_WEIGHT);
+}
+
+function weightFor(strategy, row) {
+  if (strategy === "weighted_completeness") {
+    return 0.5 + profileCompleteness(row);
+  }
+  if (strategy === "weighted_rating") {
+    const r = smoothedRating(row);
+    return r == null ? 1 : 0.5 + r / 5;
+  }
+  return 1;
+}
+
+function rotate(rows, seed, dayIndex) {
+  // fixed base order per area/category, then slide it one place per day
+  const base = [...rows].sort(
+    (a, b) =>
+      hashString(`${seed}|${a.cleaner_id}`) -
+        hashString(`${seed}|${b.cleaner_id}`) ||
+      String(a.cleaner_id).localeCompare(String(b.cleaner_id))
+  );
+  if (base.length < 2) return base;
+  const offset = dayIndex % base.length;
+  return [...base.slice(offset), ...base.slice(0, offset)];
+}
+
+function weightedShuffle(rows, seed, strategy) {
+  // Efraimidis–Spirakis: key = u^(1/w), highest key first
+  const rng = mulberry32(hashString(seed));
+  const stable = [...rows].sort((a, b) =>
+    String(a.cleaner_id).localeCompare(String(b.cleaner_id))
+  );
+  return stable
+    .map((row) => ({
+      row,
+      key: Math.pow(rng(), 1 / Math.max(weightFor(strategy, row), 1e-6)),
+    }))
+    .sort((a, b) => b.key - a.key)
+    .map((x) => x.row);
+}
+
+/**
+ * Order results for a search.
+ * Returns { ordered, sponsored, strategy, seed } — strategy and seed go into
+ * impression meta so position analytics can be reproduced.
+ * `coverage(row)` (optional, e.g. services matched) orders rows most first
+ * inside each tier; the sponsor tier still comes first.
+ */
+export function orderResults(rows, { areaKey, serviceSlug, strategy, coverage, now = Date.now() }) {
+  const chosen = resolveStrategy(strategy);
+  const dayIndex = Math.floor(now / DAY_MS);
+  const day = new Date(dayIndex * DAY_MS).toISOString().slice(0, 10);
+
+  const sponsored = rows.filter((x) => x.is_covering_sponsor);
+  const organic = rows.filter((x) => !x.is_covering_sponsor);
+
+  const seed = `${areaKey}|${serviceSlug}|${day}`;
+  const rest =
+    chosen === "rotate"
+      ? // the day is the rotation offset, so keep it out of the base order
+        rotate(organic, `${areaKey}|${serviceSlug}`, dayIndex)
+      : weightedShuffle(organic, seed, chosen);
+
+  // sort is stable, so the rotation order survives within each coverage
+  const byCoverage = (list) => (coverage ? [...list].sort((a, b) => coverage(b) - coverage(a)) : list);
+  const sponsors = byCoverage(sponsored);
+
+  return { ordered: [...sponsors, ...byCoverage(rest)], sponsored: sponsors, strategy: chosen, seed };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { orderResults } from "./ranking.js";
+
+const row = (id, covered, sponsor = false) => ({
+  cleaner_id: id,
+  is_covering_sponsor: sponsor,
+  categories: Array.from({ length: covered }, (_, i) => ({ slug: `s${i}` })),
+});
+
+describe("orderResults", () => {
+  const opts = { areaKey: "BT20", serviceSlug: "bins+windows+domestic", now: Date.UTC(2026, 0, 1) };
+
+  it("keeps sponsors first whatever they cover", () => {
+    const rows = [row("a", 2), row("b", 1, true), row("c", 2), row("d", 1)];
+    const { ordered } = orderResults(rows, { ...opts, coverage: (r) => r.categories.length });
+    expect(ordered[0].cleaner_id).toBe("b");
+    expect(ordered.slice(1).map((r) => r.categories.length)).toEqual([2, 2, 1]);
+  });
+
+  it("orders sponsors by coverage too", () => {
+    const rows = [row("a", 1, true), row("b", 2, true), row("c", 2)];
+    const { ordered, sponsored } = orderResults(rows, { ...opts, coverage: (r) => r.categories.length });
+    expect(ordered.map((r) => r.cleaner_id)).toEqual(["b", "a", "c"]);
+    expect(sponsored.map((r) => r.cleaner_id)).toEqual(["b", "a"]);
+  });
+
+  it("is deterministic for the same day", () => {
+    const rows = ["a", "b", "c", "d"].map((id) => row(id, 1));
+    expect(orderResults(rows, opts).ordered).toEqual(orderResults([...rows].reverse(), opts).ordered);
+  });
+});
@@ -0,0 +1,16 @@
+// netlify/functions/_lib/replyTemplates.js
+// Fill a business's auto-reply template. Mirrors src/lib/replyTemplates.ts
+// (schema documented there).
+
+export const MAX_TEMPLATE_LENGTH = 3000;
+
+const KNOWN = ["customer_name", "business_name", "area"];
+
+/** Fill {{placeholders}}; unknown ones are left as typed, empty ones blank. */
+export function renderReplyTemplate(template, vars) {
+  return String(template || "")
+    .slice(0, MAX_TEMPLATE_LENGTH)
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (whole, key) =>
+      KNOWN.includes(key) ? String(vars?.[key] ?? "").trim() : whole
+    );
+}
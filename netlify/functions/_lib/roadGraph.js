@@ -0,0 +1,156 @@
+// netlify/functions/_lib/roadGraph.js
+// Drive-time isochrones over a small local road graph: the "local" routing
+// provider (see routingProvider.js), used in development and tests so area
+// creation works without a routing API key.
+//
+// A graph file (ROAD_GRAPH_PATH) is JSON:
+//   { "nodes": [[lat, lng], …], "edges": [[fromIndex, toIndex, kmh], …] }
+// Edges are two-way. Without a file a synthetic grid is built around the
+// origin: local roads every GRID_KM with faster "A roads" every few lines,
+// which is enough to give a believable, non-circular shape.
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { concave, convex, featureCollection, point } from "@turf/turf";
+import { haversineMiles } from "./distance.js";
+
+const KM_PER_MILE = 1.609344;
+const GRID_KM = 1;
+const MAIN_ROAD_EVERY = 5; // grid lines
+const LOCAL_KMH = 40;
+const MAIN_KMH = 80;
+
+let fileGraph;
+
+function kmBetween(a, b) {
+  return haversineMiles(a[0], a[1], b[0], b[1]) * KM_PER_MILE;
+}
+
+function loadGraphFile() {
+  if (fileGraph !== undefined) return fileGraph;
+  const file = process.env.ROAD_GRAPH_PATH;
+  fileGraph = file ? JSON.parse(readFileSync(path.resolve(file), "utf8")) : null;
+  return fileGraph;
+}
+
+/** Square grid of roads centred on the origin, big enough for `minutes` at MAIN_KMH. */
+export function syntheticGrid(lat, lng, minutes) {
+  const reachKm = (MAIN_KMH * minutes) / 60;
+  const half = Math.ceil(reachKm / GRID_KM);
+  const dLat = GRID_KM / 111.32;
+  const dLng = GRID_KM / (111.32 * Math.cos((lat * Math.PI) / 180));
+
+  const size = half * 2 + 1;
+  const nodes = [];
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      nodes.push([lat + (r - half) * dLat, lng + (c - half) * dLng]);
+    }
+  }
+
+  const edges = [];
+  const id = (r, c) => r * size + c;
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      // horizontal road along row r, vertical along column c
+      if (c + 1 < size) edges.push([id(r, c), id(r, c + 1), (r - half) % MAIN_ROAD_EVERY === 0 ? MAIN_KMH : LOCAL_KMH]);
+      if (r + 1 < size) edges.push([id(r, c), id(r + 1, c), (c - half) % MAIN_ROAD_EVERY === 0 ? MAIN_KMH : LOCAL_KMH]);
+    }
+  }
+
+  return { nodes, edges };
+}
+
+function adjacency(graph) {
+  const adj = graph.nodes.map(() => []);
+  for (const [a, b, kmh] of graph.edges) {
+    const minutes = (kmBetween(graph.nodes[a], graph.nodes[b]) / kmh) * 60;
+    adj[a].push([b, minutes]);
+    adj[b].push([a, minutes]);
+  }
+  return adj;
+}
+
+function nearestNode(nodes, lat, lng) {
+  let best = -1;
+  let bestKm = Infinity;
+  nodes.forEach((n, i) => {
+    const km = kmBetween(n, [lat, lng]);
+    if (km < bestKm) {
+      best = i;
+      bestKm = km;
+    }
+  });
+  return { index: best, km: bestKm };
+}
+
+// minimal binary heap of [cost, node]
+function pushHeap(heap, item) {
+  heap.push(item);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const p = (i - 1) >> 1;
+    if (heap[p][0] <= heap[i][0]) break;
+    [heap[p], heap[i]] = [heap[i], heap[p]];
+    i = p;
+  }
+}
+
+function popHeap(heap) {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const l = i * 2 + 1;
+      const r = l + 1;
+      let m = i;
+      if (l < heap.length && heap[l][0] < heap[m][0]) m = l;
+      if (r < heap.length && heap[r][0] < heap[m][0]) m = r;
+      if (m === i) break;
+      [heap[m], heap[i]] = [heap[i], heap[m]];
+      i = m;
+    }
+  }
+  return top;
+}
+
+/** Node indexes reachable from `start` within `minutes` (Dijkstra). */
+export function reachableNodes(graph, start, minutes) {
+  const adj = adjacency(graph);
+  const best = new Map([[start, 0]]);
+  const heap = [[0, start]];
+
+  while (heap.length) {
+    const [cost, node] = popHeap(heap);
+    if (cost > (best.get(node) ?? Infinity)) continue;
+    for (const [next, w] of adj[node]) {
+      const c = cost + w;
+      if (c <= minutes && c < (best.get(next) ?? Infinity)) {
+        best.set(next, c);
+        pushHeap(heap, [c, next]);
+      }
+    }
+  }
+  return [...best.keys()];
+}
+
+/**
+ * Drive-time polygon from (lat, lng) on the local graph, as a GeoJSON
+ * Polygon or MultiPolygon. Throws when the origin is off the graph.
+ */
+export function localIsochrone({ lat, lng, minutes }) {
+  const graph = loadGraphFile() || syntheticGrid(lat, lng, minutes);
+
+  const start = nearestNode(graph.nodes, lat, lng);
+  if (start.index < 0 || start.km > 5) throw new Error("Business location is outside the road graph");
+
+  const pts = featureCollection(
+    reachableNodes(graph, start.index, minutes).map((i) => point([graph.nodes[i][1], graph.nodes[i][0]]))
+  );
+  if (pts.features.length < 3) throw new Error("Too few roads reachable in that time");
+
+  const hull = concave(pts, { maxEdge: GRID_KM * 3, units: "kilometers" }) || convex(pts);
+  if (!hull) throw new Error("Could not build a drive-time area");
+  return hull.geometry;
+}
@@ -0,0 +1,49 @@
+import { area, booleanPointInPolygon, point } from "@turf/turf";
+import { describe, expect, it } from "vitest";
+import { localIsochrone, reachableNodes } from "./roadGraph.js";
+
+// ~1 km apart north–south; at 60 km/h each hop is about a minute
+const KM_LAT = 1 / 111.2;
+const line = {
+  nodes: [
+    [54.6, -5.9],
+    [54.6 + KM_LAT, -5.9],
+    [54.6 + 2 * KM_LAT, -5.9],
+    [54.7, -5.5], // not joined to anything
+  ],
+  edges: [
+    [0, 1, 60],
+    [1, 2, 60],
+  ],
+};
+
+describe("reachableNodes", () => {
+  it("stops at the time limit", () => {
+    expect(reachableNodes(line, 0, 1.5).sort()).toEqual([0, 1]);
+    expect(reachableNodes(line, 0, 2.5).sort()).toEqual([0, 1, 2]);
+  });
+
+  it("treats edges as two-way", () => {
+    expect(reachableNodes(line, 2, 1.5).sort()).toEqual([1, 2]);
+  });
+
+  it("never reaches a disconnected node", () => {
+    expect(reachableNodes(line, 0, 600)).not.toContain(3);
+  });
+});
+
+describe("localIsochrone", () => {
+  const origin = { lat: 54.66, lng: -5.67 };
+
+  it("returns a polygon around the origin", () => {
+    const geom = localIsochrone({ ...origin, minutes: 10 });
+    expect(["Polygon", "MultiPolygon"]).toContain(geom.type);
+    expect(booleanPointInPolygon(point([origin.lng, origin.lat]), geom)).toBe(true);
+  });
+
+  it("grows with the drive time", () => {
+    const small = area(localIsochrone({ ...origin, minutes: 5 }));
+    const big = area(localIsochrone({ ...origin, minutes: 15 }));
+    expect(big).toBeGreaterThan(small * 2);
+  });
+});
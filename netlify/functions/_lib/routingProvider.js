@@ -0,0 +1,66 @@
+// netlify/functions/_lib/routingProvider.js
+// Pluggable drive-time isochrones for creating service areas. A provider is
+//   { name, isochrone({ lat, lng, minutes }) -> Promise<GeoJSON Polygon | MultiPolygon> }
+// (throws on failure)
+//
+// Env:
+//   ROUTING_PROVIDER    "openrouteservice" | "local". Unset means no drive-time
+//                       areas on deployed sites (the editor offers a radius)
+//                       and "local" under netlify dev / tests.
+//   ORS_API_KEY         openrouteservice.org key
+//   ROAD_GRAPH_PATH     road graph for "local" (see roadGraph.js); synthetic grid if unset
+import { isLocalDev } from "./env.js";
+import { localIsochrone } from "./roadGraph.js";
+
+const ORS_TIMEOUT_MS = 15_000;
+
+export const localProvider = {
+  name: "local",
+  async isochrone(opts) {
+    return localIsochrone(opts);
+  },
+};
+
+export const openRouteServiceProvider = {
+  name: "openrouteservice",
+  async isochrone({ lat, lng, minutes }) {
+    const { ORS_API_KEY } = process.env;
+    if (!ORS_API_KEY) throw new Error("Missing ORS_API_KEY");
+
+    const r = await fetch("https://api.openrouteservice.org/v2/isochrones/driving-car", {
+      method: "POST",
+      headers: {
+        Authorization: ORS_API_KEY,
+        "Content-Type": "application/json",
+        Accept: "application/geo+json",
+      },
+      body: JSON.stringify({
+        locations: [[lng, lat]],
+        range: [Math.round(minutes * 60)],
+        range_type: "time",
+        smoothing: 10,
+      }),
+      signal: AbortSignal.timeout(ORS_TIMEOUT_MS),
+    });
+
+    const data = await r.json().catch(() => ({}));
+    if (!r.ok) throw new Error(data?.error?.message || `openrouteservice returned ${r.status}`);
+
+    const geometry = data?.features?.[0]?.geometry;
+    if (!geometry || !["Polygon", "MultiPolygon"].includes(geometry.type)) {
+      throw new Error("openrouteservice returned no polygon");
+    }
+    return geometry;
+  },
+};
+
+const PROVIDERS = { local: localProvider, openrouteservice: openRouteServiceProvider };
+
+/** The configured provider, or null when drive-time areas aren't set up here. */
+export function getRoutingProvider() {
+  const name = (process.env.ROUTING_PROVIDER || (isLocalDev() ? "local" : "")).trim().toLowerCase();
+  if (!name) return null;
+  const provider = PROVIDERS[name];
+  if (!provider) throw new Error(`Unknown ROUTING_PROVIDER "${name}"`);
+  return provider;
+}
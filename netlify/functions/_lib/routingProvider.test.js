@@ -0,0 +1,25 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getRoutingProvider } from "./routingProvider.js";
+
+afterEach(() => vi.unstubAllEnvs());
+
+describe("getRoutingProvider", () => {
+  it("has no default on a deployed site", () => {
+    vi.stubEnv("VITEST", "");
+    vi.stubEnv("NETLIFY_DEV", "");
+    vi.stubEnv("CONTEXT", "production");
+    vi.stubEnv("ROUTING_PROVIDER", "");
+    expect(getRoutingProvider()).toBeNull();
+  });
+
+  it("uses the local graph in dev and tests", () => {
+    vi.stubEnv("ROUTING_PROVIDER", "");
+    expect(getRoutingProvider()?.name).toBe("local");
+  });
+
+  it("uses what's configured", () => {
+    vi.stubEnv("VITEST", "");
+    vi.stubEnv("ROUTING_PROVIDER", "openrouteservice");
+    expect(getRoutingProvider()?.name).toBe("openrouteservice");
+  });
+});
@@ -0,0 +1,147 @@
+// netlify/functions/_lib/searchAlerts.js
+// "Notify me when someone covers my postcode" – shared bits for the
+// subscribe / confirm / unsubscribe endpoints and the scheduled notifier.
+//
+// Table (no migrations in this repo, run in Supabase SQL editor):
+//
+//   create table public.search_alerts (
+//     id                uuid primary key default gen_random_uuid(),
+//     email             text not null,
+//     postcode          text,
+//     lat               double precision not null,
+//     lng               double precision not null,
+//     service_slug      text not null,
+//     category_id       uuid references public.service_categories(id),
+//     status            text not null default 'pending',
+//                       -- pending | active | notified | unsubscribed
+//     confirm_token     text not null,
+//     unsubscribe_token text not null unique,
+//     created_at        timestamptz not null default now(),
+//     confirmed_at      timestamptz,
+//     last_checked_at   timestamptz,
+//     notified_at       timestamptz
+//   );
+//   create index on public.search_alerts (status);
+//   create index on public.search_alerts (confirm_token);
+//   alter table public.search_alerts enable row level security; -- service role only
+//
+//   -- rate limits on /api/alerts/subscribe
+//   alter table public.search_alerts
+//     add column if not exists ip text,
+//     add column if not exists confirm_sent_at timestamptz;
+//   create index on public.search_alerts (ip, created_at);
+//   create index on public.search_alerts (email, created_at);
+import { createClient } from "@supabase/supabase-js";
+import { randomBytes } from "node:crypto";
+import { BRAND } from "./enquiryService.js";
+
+// [window ms, max alerts created] – each service asked for is one alert
+const IP_LIMITS = [
+  [60 * 60 * 1000, 10],
+  [24 * 60 * 60 * 1000, 30],
+];
+const EMAIL_LIMITS = [
+  [60 * 60 * 1000, 6],
+  [24 * 60 * 60 * 1000, 15],
+];
+
+// a pending alert's confirm email is re-sent at most this often
+export const CONFIRM_RESEND_MS = 15 * 60 * 1000;
+
+export const ALERT_FROM =
+  process.env.ALERTS_FROM_EMAIL ||
+  process.env.INVOICE_FROM_EMAIL ||
+  `${BRAND} <info@klean.ly>`;
+
+export function getSupabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key =
+    process.env.SUPABASE_SERVICE_ROLE || process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    throw new Error(
+      "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE (service role key) in Netlify env."
+    );
+  }
+
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+export function siteUrl() {
+  return (process.env.PUBLIC_SITE_URL || "http://localhost:5173").replace(/\/+$/, "");
+}
+
+// url-safe, unguessable (these links are the only auth on confirm/unsubscribe)
+export function newToken() {
+  return randomBytes(24).toString("base64url");
+}
+
+// Email links open a page in the app (src/pages/AlertAction.tsx) whose
+// button POSTs the token; link scanners only ever GET, so they can't
+// confirm or unsubscribe anyone.
+export function confirmUrl(token) {
+  return `${siteUrl()}/alerts/confirm?token=${encodeURIComponent(token)}`;
+}
+
+export function unsubscribeUrl(token) {
+  return `${siteUrl()}/alerts/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+export function searchUrl(postcode, serviceSlug) {
+  const qs = new URLSearchParams();
+  if (postcode) qs.set("pc", postcode);
+  if (serviceSlug) qs.set("service", serviceSlug);
+  return `${siteUrl()}/?${qs.toString()}`;
+}
+
+export function escapeHtml(s) {
+  return String(s ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function isValidEmail(v) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(v || "").trim());
+}
+
+async function countSince(sb, column, value, windowMs) {
+  const since = new Date(Date.now() - windowMs).toISOString();
+  const { count, error } = await sb
+    .from("search_alerts")
+    .select("id", { count: "exact", head: true })
+    .eq(column, value)
+    .gte("created_at", since);
+  if (error) {
+    // don't lock everyone out if the count fails
+    console.warn("[searchAlerts] count failed:", column, error.message);
+    return 0;
+  }
+  return count || 0;
+}
+
+/** Returns a reason string ("ip_rate" / "email_rate") or null. */
+export async function subscribeLimitReason(sb, { ip, email }) {
+  if (ip) {
+    for (const [windowMs, max] of IP_LIMITS) {
+      if ((await countSince(sb, "ip", ip, windowMs)) >= max) return "ip_rate";
+    }
+  }
+  if (email) {
+    for (const [windowMs, max] of EMAIL_LIMITS) {
+      if ((await countSince(sb, "email", email, windowMs)) >= max) return "email_rate";
+    }
+  }
+  return null;
+}
+
+/** Reads the { token } body the landing page POSTs to confirm / unsubscribe. */
+export async function readToken(req) {
+  try {
+    const body = await req.json();
+    return String(body?.token || "").trim();
+  } catch {
+    return "";
+  }
+}
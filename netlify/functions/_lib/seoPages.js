@@ -0,0 +1,267 @@
+// netlify/functions/_lib/seoPages.js
+// Server-rendered landing pages for search engines: one per post town ×
+// service, e.g. /cleaners/bin-cleaner/bangor ("Bin cleaners in Bangor").
+// The SPA can't be indexed, so these are plain HTML built on request by
+// seo-town-page.js and cached at the CDN. sitemap.js lists every page that has
+// at least one business on it.
+//
+// A town counts as covered where a business's live search would find them
+// at any of the town's sector centres (listTowns `points`), checked in one
+// RPC for however many towns and services (run in Supabase SQL editor):
+//   create or replace function public.town_coverage(p_towns jsonb, p_category_slugs text[])
+//   returns jsonb language sql stable as $$
+//     with pts as (
+//       select t->>'town' as town, (p->>1)::float8 as lat, (p->>0)::float8 as lng
+//       from jsonb_array_elements(p_towns) t, jsonb_array_elements(t->'points') p
+//     ), hits as (
+//       select distinct pts.town, s.slug, m.cleaner_id
+//       from pts
+//       cross join unnest(p_category_slugs) as s(slug)
+//       cross join lateral public.search_cleaners(
+//         p_category_slug => s.slug, p_lat => pts.lat, p_lng => pts.lng) m
+//       join public.cleaners c on c.id = m.cleaner_id
+//       where coalesce(nullif(c.phone, ''), nullif(c.whatsapp, ''), nullif(c.website, '')) is not null
+//     )
+//     select coalesce(jsonb_agg(jsonb_build_object(
+//       'town', town, 'service', slug, 'cleaner_ids', ids)), '[]'::jsonb)
+//     from (select town, slug, array_agg(cleaner_id) as ids from hits group by town, slug) g
+//   $$;
+//   revoke execute on function public.town_coverage(jsonb, text[]) from public, anon, authenticated;
+import { listTowns } from "./geocode.js";
+import { haversineMiles } from "./distance.js";
+import { siteUrl } from "./searchAlerts.js";
+
+// mirrors SERVICES in src/constants/services.ts
+export const SEO_SERVICES = [
+  { slug: "bin-cleaner", plural: "Bin cleaners", schemaType: "LocalBusiness", blurb: "wheelie bin cleaning" },
+  { slug: "window-cleaner", plural: "Window cleaners", schemaType: "LocalBusiness", blurb: "window cleaning" },
+  { slug: "cleaner", plural: "Domestic cleaners", schemaType: "HouseCleaningService", blurb: "domestic cleaning" },
+];
+
+const CLEANER_COLUMNS =
+  "id, slug, business_name, logo_url, about, website, phone, whatsapp, google_rating, google_reviews_count, rating_avg, rating_count";
+
+const NEARBY_TOWNS = 6;
+
+export function escapeHtml(s) {
+  return String(s ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// "NEWTOWNABBEY" -> "Newtownabbey", "BALLYMENA-ON-SEA" -> "Ballymena-on-Sea"
+export function townLabel(town) {
+  return String(town || "")
+    .toLowerCase()
+    .replace(/(^|[\s-])(\p{L})/gu, (_, sep, ch) => sep + ch.toUpperCase())
+    .replace(/-(On|Upon|Under|In|By)-/g, (m) => m.toLowerCase());
+}
+
+export function townSlug(town) {
+  return String(town || "")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function pagePath(serviceSlug, town) {
+  return `/cleaners/${serviceSlug}/${townSlug(town)}`;
+}
+
+/** slug -> { town, lat, lng } from the postcode dataset, or null. */
+export async function findTown(slug) {
+  const towns = await listTowns();
+  return towns.find((t) => townSlug(t.town) === slug) || null;
+}
+
+export const coverageKey = (serviceSlug, town) => `${serviceSlug}|${town}`;
+
+/**
+ * Who covers which towns, for any number of towns × services in one call:
+ * Map "service|TOWN" -> cleaner ids, covered pairs only. Same eligibility as
+ * the live search (search_cleaners + must be contactable).
+ */
+export async function townCoverage(sb, towns, serviceSlugs) {
+  const { data, error } = await sb.rpc("town_coverage", {
+    // no sectors (remote geocoding) -> the centre stands in
+    p_towns: towns.map((t) => ({ town: t.town, points: t.points?.length ? t.points : [[t.lng, t.lat]] })),
+    p_category_slugs: serviceSlugs,
+  });
+  if (error) throw error;
+
+  const out = new Map();
+  for (const row of data || []) out.set(coverageKey(row.service, row.town), row.cleaner_ids || []);
+  return out;
+}
+
+/** Businesses covering a town for one service, best rated first. */
+export async function cleanersForTown(sb, serviceSlug, town) {
+  const coverage = await townCoverage(sb, [town], [serviceSlug]);
+  const ids = [...new Set(coverage.get(coverageKey(serviceSlug, town.town)) || [])];
+  if (!ids.length) return [];
+
+  const { data: cleaners, error: cleanersErr } = await sb
+    .from("cleaners")
+    .select(CLEANER_COLUMNS)
+    .in("id", ids);
+  if (cleanersErr) throw cleanersErr;
+
+  return (cleaners || [])
+    .filter((c) => c.phone || c.whatsapp || c.website)
+    .sort((a, b) => (b.google_rating ?? b.rating_avg ?? 0) - (a.google_rating ?? a.rating_avg ?? 0));
+}
+
+async function nearbyTowns(town) {
+  const towns = await listTowns();
+  return towns
+    .filter((t) => t.town !== town.town)
+    .map((t) => ({ ...t, miles: haversineMiles(town.lat, town.lng, t.lat, t.lng) }))
+    .sort((a, b) => a.miles - b.miles)
+    .slice(0, NEARBY_TOWNS);
+}
+
+function businessJsonLd(c, service, town) {
+  const rating = c.google_rating ?? c.rating_avg;
+  const reviews = c.google_reviews_count ?? c.rating_count;
+  return {
+    "@type": service.schemaType,
+    name: c.business_name,
+    ...(c.slug ? { url: `${siteUrl()}/b/${c.slug}` } : c.website ? { url: c.website } : {}),
+    ...(c.logo_url ? { image: c.logo_url, logo: c.logo_url } : {}),
+    ...(c.phone ? { telephone: c.phone } : {}),
+    ...(c.about ? { description: c.about.slice(0, 300) } : {}),
+    areaServed: { "@type": "City", name: townLabel(town.town) },
+    ...(typeof rating === "number" && reviews
+      ? {
+          aggregateRating: {
+            "@type": "AggregateRating",
+            ratingValue: Number(rating.toFixed(1)),
+            reviewCount: reviews,
+          },
+        }
+      : {}),
+  };
+}
+
+// JSON inside <script> must not be able to close the tag
+const scriptJson = (v) => JSON.stringify(v).replace(/</g, "\\u003c");
+
+function cardHtml(c) {
+  const rating = c.google_rating ?? c.rating_avg;
+  const reviews = c.google_reviews_count ?? c.rating_count;
+  const href = c.slug ? `/b/${encodeURIComponent(c.slug)}` : null;
+  const name = escapeHtml(c.business_name || "Cleaner");
+
+  return `<li class="card">
+  ${c.logo_url ? `<img src="${escapeHtml(c.logo_url)}" alt="" width="56" height="56" loading="lazy">` : ""}
+  <div>
+    <h3>${href ? `<a href="${href}">${name}</a>` : name}</h3>
+    ${typeof rating === "number" ? `<p class="muted">★ ${rating.toFixed(1)}${reviews ? ` (${reviews} reviews)` : ""}</p>` : ""}
+    ${c.about ? `<p>${escapeHtml(c.about.length > 200 ? `${c.about.slice(0, 199)}…` : c.about)}</p>` : ""}
+    ${c.phone ? `<p><a href="tel:${escapeHtml(c.phone.replace(/\s+/g, ""))}">${escapeHtml(c.phone)}</a></p>` : ""}
+  </div>
+</li>`;
+}
+
+/** Full HTML document for one town × service page. */
+export async function renderTownPage({ service, town, cleaners }) {
+  const place = townLabel(town.town);
+  const path = pagePath(service.slug, town.town);
+  const url = `${siteUrl()}${path}`;
+  const title = `${service.plural} in ${place} | Kleanly`;
+  const description = cleaners.length
+    ? `Compare ${cleaners.length} local ${service.plural.toLowerCase()} covering ${place}. See ratings, prices and service areas, then enquire for free.`
+    : `Looking for ${service.blurb} in ${place}? Search by postcode to find businesses covering your street.`;
+
+  const nearby = await nearbyTowns(town);
+  const otherServices = SEO_SERVICES.filter((s) => s.slug !== service.slug);
+
+  const jsonLd = {
+    "@context": "https://schema.org",
+    "@type": "ItemList",
+    name: `${service.plural} in ${place}`,
+    url,
+    itemListElement: cleaners.map((c, i) => ({
+      "@type": "ListItem",
+      position: i + 1,
+      item: businessJsonLd(c, service, town),
+    })),
+  };
+
+  return `<!doctype html>
+<html lang="en-GB">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<meta name="description" content="${escapeHtml(description)}">
+<link rel="canonical" href="${escapeHtml(url)}">
+<meta property="og:title" content="${escapeHtml(title)}">
+<meta property="og:description" content="${escapeHtml(description)}">
+<meta property="og:url" content="${escapeHtml(url)}">
+<meta property="og:type" content="website">
+<link rel="icon" href="/cleanlylogo.png">
+<script type="application/ld+json">${scriptJson(jsonLd)}</script>
+<style>
+  body{font-family:system-ui,-apple-system,Segoe UI,Roboto,sans-serif;margin:0;color:#111827;background:#f9fafb}
+  main{max-width:880px;margin:0 auto;padding:32px 20px}
+  h1{font-size:28px;margin:0 0 8px}
+  .muted{color:#6b7280}
+  form{display:flex;gap:8px;margin:20px 0}
+  input{flex:1;padding:10px 12px;border:1px solid #d1d5db;border-radius:8px;font-size:16px}
+  button{padding:10px 16px;border:0;border-radius:8px;background:#111827;color:#fff;font-size:16px}
+  ul.list{list-style:none;padding:0;display:grid;gap:12px}
+  .card{display:flex;gap:12px;background:#fff;border:1px solid #e5e7eb;border-radius:12px;padding:14px}
+  .card img{border-radius:8px;object-fit:cover}
+  .card h3{margin:0 0 4px;font-size:18px}
+  .card p{margin:4px 0}
+  nav a{margin-right:12px}
+</style>
+</head>
+<body>
+<main>
+  <p><a href="/">Kleanly</a></p>
+  <h1>${escapeHtml(service.plural)} in ${escapeHtml(place)}</h1>
+  <p class="muted">${escapeHtml(description)}</p>
+
+  <!-- plain GET to the app: Landing reads ?pc=&service= and runs the normal search -->
+  <form method="get" action="/">
+    <input type="hidden" name="service" value="${escapeHtml(service.slug)}">
+    <input name="pc" placeholder="Enter your postcode" autocomplete="postal-code" required>
+    <button type="submit">Search</button>
+  </form>
+
+  ${
+    cleaners.length
+      ? `<ul class="list">${cleaners.map(cardHtml).join("\n")}</ul>`
+      : `<p>No listed businesses cover ${escapeHtml(place)} yet. Search your postcode to check your street.</p>`
+  }
+
+  <h2>Other services in ${escapeHtml(place)}</h2>
+  <nav>${otherServices.map((s) => `<a href="${pagePath(s.slug, town.town)}">${escapeHtml(s.plural)}</a>`).join("")}</nav>
+
+  ${
+    nearby.length
+      ? `<h2>${escapeHtml(service.plural)} near ${escapeHtml(place)}</h2>
+  <nav>${nearby.map((t) => `<a href="${pagePath(service.slug, t.town)}">${escapeHtml(townLabel(t.town))}</a>`).join("")}</nav>`
+      : ""
+  }
+</main>
+</body>
+</html>`;
+}
+
+/** sitemap.xml for the given absolute URLs. */
+export function renderSitemap(urls) {
+  const today = new Date().toISOString().slice(0, 10);
+  const entries = urls
+    .map((u) => `  <url><loc>${escapeHtml(u)}</loc><lastmod>${today}</lastmod></url>`)
+    .join("\n");
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${entries}
+</urlset>`;
+}
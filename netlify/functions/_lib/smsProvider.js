@@ -0,0 +1,81 @@
+// netlify/functions/_lib/smsProvider.js
+// Pluggable SMS sending for lead delivery. A provider is
+//   { name, send({ to, body }) -> Promise<{ id }> }   (throws on failure)
+//
+// Env:
+//   SMS_PROVIDER        "twilio" | "fake". Unset means no SMS on deployed
+//                       sites (the channel is skipped, leads go by email) and
+//                       "fake" under netlify dev / tests.
+//   SMS_FROM            sender number / alphanumeric ID
+//   TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN
+//   SMS_FAKE_FAIL       "1" = the fake throws, to exercise retries locally
+
+import { isLocalDev } from "./env.js";
+
+const MAX_SMS_LENGTH = 640; // 4 segments
+
+// Messages the fake provider has "sent" in this function instance.
+export const fakeOutbox = [];
+
+export const fakeProvider = {
+  name: "fake",
+  async send({ to, body }) {
+    if (process.env.SMS_FAKE_FAIL === "1") throw new Error("fake SMS failure");
+    const id = `fake-${Date.now()}-${fakeOutbox.length}`;
+    fakeOutbox.push({ id, to, body, at: new Date().toISOString() });
+    console.log(`[sms:fake] queued ${id} (${body.length} chars)`);
+    return { id };
+  },
+};
+
+export const twilioProvider = {
+  name: "twilio",
+  async send({ to, body }) {
+    const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, SMS_FROM } = process.env;
+    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !SMS_FROM) {
+      throw new Error("Missing TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN or SMS_FROM");
+    }
+
+    const auth = Buffer.from(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`).toString("base64");
+    const r = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${auth}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({ To: to, From: SMS_FROM, Body: body }),
+      }
+    );
+
+    const data = await r.json().catch(() => ({}));
+    if (!r.ok) throw new Error(data?.message || `Twilio returned ${r.status}`);
+    return { id: data.sid };
+  },
+};
+
+const PROVIDERS = { fake: fakeProvider, twilio: twilioProvider };
+
+/** The configured provider, or null when SMS isn't set up here. */
+export function getSmsProvider() {
+  const name = (process.env.SMS_PROVIDER || (isLocalDev() ? "fake" : "")).trim().toLowerCase();
+  if (!name) return null;
+  const provider = PROVIDERS[name];
+  if (!provider) throw new Error(`Unknown SMS_PROVIDER "${name}"`);
+  return provider;
+}
+
+// UK numbers to E.164: "07700 900123" -> "+447700900123"
+export function normaliseUkMobile(raw) {
+  const digits = String(raw || "").replace(/[^\d+]/g, "");
+  if (/^\+\d{10,15}$/.test(digits)) return digits;
+  if (/^07\d{9}$/.test(digits)) return `+44${digits.slice(1)}`;
+  if (/^447\d{9}$/.test(digits)) return `+${digits}`;
+  return null;
+}
+
+export function clipSms(text) {
+  const s = String(text || "").replace(/\s+/g, " ").trim();
+  return s.length > MAX_SMS_LENGTH ? `${s.slice(0, MAX_SMS_LENGTH - 1)}…` : s;
+}
@@ -0,0 +1,99 @@
+// netlify/functions/area-isochrone.js
+// GET  /api/area/isochrone                           -> { ok, available }
+// POST /api/area/isochrone  { cleaner_id, minutes }   (Bearer token, must own it)
+// Drive-time polygon around the business base (set_cleaner_location at
+// onboarding), used by the service area editor as a starting shape. Nothing
+// is saved here – the editor saves it like a hand-drawn area. Without a
+// ROUTING_PROVIDER (see _lib/routingProvider.js) drive times are off: GET
+// says so, so the editor can hide the option, and POST answers 503.
+import { getSupabaseAdmin } from "./_lib/searchAlerts.js";
+import { getRoutingProvider } from "./_lib/routingProvider.js";
+
+const corsHeaders = {
+  "content-type": "application/json",
+  "access-control-allow-origin": "*",
+  "access-control-allow-methods": "GET,POST,OPTIONS",
+  "access-control-allow-headers": "content-type,authorization",
+};
+
+const json = (body, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: corsHeaders });
+
+// keep in step with ISOCHRONE_MINUTES in src/lib/areaShapes.ts
+const MIN_MINUTES = 5;
+const MAX_MINUTES = 60;
+
+const NOT_SET_UP = "Drive-time areas aren't set up on this site. Use a radius instead.";
+
+function getBearer(req) {
+  const h =
+    req.headers.get("authorization") || req.headers.get("Authorization") || "";
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m ? m[1] : null;
+}
+
+export default async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method === "GET") return json({ ok: true, available: !!getRoutingProvider() });
+  if (req.method !== "POST") return json({ ok: false, error: "Method not allowed" }, 405);
+
+  try {
+    const provider = getRoutingProvider();
+    if (!provider) return json({ ok: false, error: NOT_SET_UP }, 503);
+
+    const body = await req.json().catch(() => ({}));
+    const cleanerId = String(body.cleaner_id || "");
+    const minutes = Number(body.minutes);
+    if (!cleanerId) return json({ ok: false, error: "Missing cleaner_id" }, 400);
+    if (!Number.isFinite(minutes) || minutes < MIN_MINUTES || minutes > MAX_MINUTES) {
+      return json({ ok: false, error: `Drive time must be ${MIN_MINUTES}–${MAX_MINUTES} minutes` }, 400);
+    }
+
+    const jwt = getBearer(req);
+    if (!jwt) return json({ ok: false, error: "Missing Authorization bearer token" }, 401);
+
+    const sb = getSupabaseAdmin();
+    const { data: userData, error: userErr } = await sb.auth.getUser(jwt);
+    if (userErr || !userData?.user) {
+      return json({ ok: false, error: "Invalid session" }, 401);
+    }
+
+    const { data: cleaner, error: cleanerErr } = await sb
+      .from("cleaners")
+      .select("id")
+      .eq("id", cleanerId)
+      .eq("user_id", userData.user.id)
+      .maybeSingle();
+    if (cleanerErr) throw cleanerErr;
+    if (!cleaner) return json({ ok: false, error: "Not your business" }, 403);
+
+    const { data: bases, error: baseErr } = await sb.rpc("cleaner_base_points", {
+      p_cleaner_ids: [cleanerId],
+    });
+    if (baseErr) throw baseErr;
+    const base = (bases || [])[0];
+    if (!base || base.lat == null || base.lng == null) {
+      return json({ ok: false, error: "no_base_location" }, 409);
+    }
+
+    let geojson;
+    try {
+      geojson = await provider.isochrone({ lat: base.lat, lng: base.lng, minutes });
+    } catch (e) {
+      console.warn(`[area-isochrone] ${provider.name} failed:`, e?.message || e);
+      return json({ ok: false, error: "Drive-time lookup failed. Try again, or use a radius." }, 502);
+    }
+
+    return json({
+      ok: true,
+      provider: provider.name,
+      center: { lat: base.lat, lng: base.lng },
+      geojson,
+    });
+  } catch (e) {
+    console.error("[area-isochrone] error:", e);
+    return json({ ok: false, error: e?.message || "Server error" }, 500);
+  }
+};
@@ -0,0 +1,70 @@
+// netlify/functions/area-postcodes.js
+// Postcode picking for the service area editor (see _lib/postcodeBoundaries.js).
+// GET  /api/area/postcodes                           -> { ok, available }
+// GET  /api/area/postcodes?q=BT2                     -> { ok, codes }   type-ahead
+// GET  /api/area/postcodes?lat=…&lng=…&level=sector  -> { ok, code }    map click
+// POST /api/area/postcodes { codes: ["BT19","BT20 5"] }
+//   -> { ok, geojson, codes, missing }   boundaries dissolved into one MultiPolygon
+// Boundaries are public data; nothing is saved here. Until the boundary file
+// has been deployed (scripts/build-postcode-boundaries.mjs) the bare GET
+// says so, so the editor can hide the picker, and the rest answer 503.
+import {
+  MAX_CODES,
+  boundariesAvailable,
+  codeAt,
+  dissolveCodes,
+  suggestCodes,
+} from "./_lib/postcodeBoundaries.js";
+
+const corsHeaders = {
+  "content-type": "application/json",
+  "access-control-allow-origin": "*",
+  "access-control-allow-methods": "GET,POST,OPTIONS",
+  "access-control-allow-headers": "content-type",
+};
+
+const json = (body, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: corsHeaders });
+
+export default async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    if (req.method === "GET" && !url.searchParams.has("q") && !url.searchParams.has("lat")) {
+      return json({ ok: true, available: boundariesAvailable() });
+    }
+    if (!boundariesAvailable()) {
+      return json({ ok: false, error: "Postcode areas aren't available yet. Draw the area instead." }, 503);
+    }
+
+    if (req.method === "GET") {
+      const q = url.searchParams.get("q");
+      if (q != null) return json({ ok: true, codes: suggestCodes(q) });
+
+      const lat = Number(url.searchParams.get("lat"));
+      const lng = Number(url.searchParams.get("lng"));
+      const level = url.searchParams.get("level") === "sector" ? "sector" : "district";
+      if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+        return json({ ok: false, error: "Missing q, or lat and lng" }, 400);
+      }
+      return json({ ok: true, code: codeAt(lat, lng, level) });
+    }
+
+    if (req.method !== "POST") return json({ ok: false, error: "Method not allowed" }, 405);
+
+    const body = await req.json().catch(() => ({}));
+    const codes = Array.isArray(body.codes) ? body.codes.map(String) : [];
+    if (!codes.length) return json({ ok: false, error: "Pick at least one postcode district" }, 400);
+    if (codes.length > MAX_CODES) {
+      return json({ ok: false, error: `Up to ${MAX_CODES} districts or sectors per area` }, 400);
+    }
+
+    return json({ ok: true, ...dissolveCodes(codes) });
+  } catch (e) {
+    console.error("[area-postcodes] error:", e);
+    return json({ ok: false, error: e?.message || "Server error" }, 500);
+  }
+};
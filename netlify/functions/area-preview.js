@@ -1,5 +1,6 @@
 // netlify/functions/area-preview.js
 import { createClient } from '@supabase/supabase-js';
+import { validateAreaGeometry } from './_lib/areaGeometry.js';
 
 const supabase = createClient(
   process.env.SUPABASE_URL,
@@ -42,6 +43,17 @@ export default async (req) => {
       });
     }
 
+    // a bow-tie or sliver makes the SQL below throw or price nonsense
+    if (drawnGeoJSON) {
+      const issues = validateAreaGeometry(drawnGeoJSON);
+      if (issues.length) {
+        return new Response(JSON.stringify({ error: 'invalid_area', issues }), {
+          status: 422,
+          headers: { 'content-type': 'application/json' },
+        });
+      }
+    }
+
     // Call SQL preview
     const { data, error } = await supabase.rpc('get_area_preview', {
       _area_id: areaId,
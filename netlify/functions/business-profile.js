@@ -0,0 +1,118 @@
+// netlify/functions/business-profile.js
+// GET /api/business/profile?slug=…
+// Everything the public page at /b/:slug shows: the business's public
+// details, the services it offers, its bin sizes / prices and its service
+// areas as GeoJSON for the map. Contact email and anything private stay out.
+//
+// Schema (run in Supabase SQL editor):
+//   alter table public.cleaners add column if not exists slug text;
+//   create unique index if not exists cleaners_slug_key on public.cleaners (lower(slug));
+//   alter type public.event add value if not exists 'profile_view';
+import { getSupabaseAdmin } from "./_lib/searchAlerts.js";
+
+const corsHeaders = {
+  "content-type": "application/json",
+  "access-control-allow-origin": "*",
+  "access-control-allow-methods": "GET,OPTIONS",
+  "access-control-allow-headers": "content-type",
+  // the page is shared on vans and socials; a minute of staleness is fine
+  "cache-control": "public, max-age=60",
+};
+
+const json = (status, body) =>
+  new Response(JSON.stringify(body), { status, headers: corsHeaders });
+
+// keep in step with SLUG_RE in src/lib/publicProfile.ts
+const SLUG_RE = /^[a-z0-9](?:[a-z0-9-]{1,58}[a-z0-9])$/;
+
+const PROFILE_COLUMNS =
+  "id, business_name, logo_url, about, website, phone, whatsapp, payment_methods, rating_avg, rating_count, google_rating, google_reviews_count, google_place_id";
+
+function parseGeo(gj) {
+  if (!gj) return null;
+  if (typeof gj !== "string") return gj;
+  try {
+    return JSON.parse(gj);
+  } catch {
+    return null;
+  }
+}
+
+export default async (req) => {
+  if (req.method === "OPTIONS") return new Response("", { status: 204, headers: corsHeaders });
+  if (req.method !== "GET") return json(405, { error: "Method not allowed" });
+
+  const slug = (new URL(req.url).searchParams.get("slug") || "").trim().toLowerCase();
+  if (!SLUG_RE.test(slug)) return json(404, { error: "Business not found" });
+
+  try {
+    const sb = getSupabaseAdmin();
+
+    const { data: cleaner, error } = await sb
+      .from("cleaners")
+      .select(PROFILE_COLUMNS)
+      .ilike("slug", slug)
+      .maybeSingle();
+    if (error) throw error;
+    if (!cleaner) return json(404, { error: "Business not found" });
+
+    const [{ data: offered, error: catErr }, { data: offerings, error: offErr }] =
+      await Promise.all([
+        sb
+          .from("cleaner_category_offerings")
+          .select("category_id, service_categories ( id, name, slug )")
+          .eq("cleaner_id", cleaner.id)
+          .eq("is_active", true),
+        sb
+          .from("service_offerings")
+          .select("variant, price_cents")
+          .eq("cleaner_id", cleaner.id)
+          .eq("service", "bin_cleaning")
+          .eq("is_active", true),
+      ]);
+    if (catErr) console.warn("[business-profile] categories lookup failed:", catErr);
+    if (offErr) console.warn("[business-profile] service_offerings lookup failed:", offErr);
+
+    const categories = (offered || [])
+      .map((o) => o.service_categories)
+      .filter(Boolean)
+      .map((c) => ({ id: c.id, name: c.name, slug: c.slug }));
+
+    // one list_service_areas call per service; a failure just leaves it off the map
+    const areaLists = await Promise.all(
+      categories.map(async (c) => {
+        const { data, error: areaErr } = await sb.rpc("list_service_areas", {
+          p_cleaner_id: cleaner.id,
+          p_category_id: c.id,
+        });
+        if (areaErr) {
+          console.warn("[business-profile] list_service_areas failed:", areaErr);
+          return [];
+        }
+        return (data || []).map((a) => ({
+          id: a.id,
+          name: a.name,
+          category_id: c.id,
+          gj: parseGeo(a.gj),
+        }));
+      })
+    );
+
+    const binPrices = {};
+    for (const o of offerings || []) binPrices[o.variant] = o.price_cents ?? null;
+
+    return json(200, {
+      cleaner: {
+        ...cleaner,
+        payment_methods: Array.isArray(cleaner.payment_methods) ? cleaner.payment_methods : [],
+        bin_sizes: Object.keys(binPrices),
+        bin_prices: binPrices,
+      },
+      categories,
+      areas: areaLists.flat().filter((a) => a.gj),
+    });
+  } catch (e) {
+    console.error("[business-profile] error:", e);
+    return json(500, { error: e?.message || "Server error" });
+  }
+};
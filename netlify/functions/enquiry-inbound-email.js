@@ -0,0 +1,106 @@
+// netlify/functions/enquiry-inbound-email.js
+// POST /api/enquiry/inbound  (inbound-email provider webhook)
+// A reply to one of our relay addresses (see _lib/enquiryThread.js) is
+// appended to its enquiry thread and forwarded to the other side.
+//
+// Expects the provider's parsed-email JSON, normalised to
+//   { to, cc?, from, subject?, text }
+// (to/cc may be a string or an array). Authenticated with a shared secret:
+//   header x-inbound-secret: $INBOUND_EMAIL_SECRET   (or ?secret=…)
+//
+// Locally: `node scripts/inbound-email.mjs` posts a fake reply here.
+import { createClient } from "@supabase/supabase-js";
+import {
+  appendMessage,
+  emailOnly,
+  forwardMessage,
+  loadThread,
+  parseRelayAddress,
+  stripQuotedReply,
+} from "./_lib/enquiryThread.js";
+
+const json = (status, body) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+
+function getSupabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key =
+    process.env.SUPABASE_SERVICE_ROLE || process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    throw new Error(
+      "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE (service role key) in Netlify env."
+    );
+  }
+
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+export default async (req) => {
+  if (req.method !== "POST") {
+    return json(405, { ok: false, error: "Method not allowed" });
+  }
+
+  const secret = process.env.INBOUND_EMAIL_SECRET;
+  const given =
+    req.headers.get("x-inbound-secret") || new URL(req.url).searchParams.get("secret");
+  if (!secret || given !== secret) {
+    return json(401, { ok: false, error: "Unauthorized" });
+  }
+
+  let mail;
+  try {
+    mail = await req.json();
+  } catch {
+    return json(400, { ok: false, error: "Invalid JSON" });
+  }
+
+  // From here on answer 200 for anything we deliberately drop, so the
+  // provider doesn't keep retrying it.
+  try {
+    const relay = parseRelayAddress([mail.to, mail.cc].flat().filter(Boolean));
+    if (!relay) return json(200, { ok: false, ignored: "no_relay_address" });
+
+    const sb = getSupabaseAdmin();
+    const thread = await loadThread(sb, { threadToken: relay.token });
+    if (!thread) return json(200, { ok: false, ignored: "unknown_thread" });
+
+    // only the party this relay address was given to may post through it
+    const from = emailOnly(mail.from);
+    const expected =
+      relay.side === "business"
+        ? emailOnly(thread.cleaner?.contact_email)
+        : emailOnly(thread.enquiry.user_email);
+    if (!from || from !== expected) {
+      console.warn("[enquiry-inbound-email] sender mismatch:", relay.token, from);
+      return json(200, { ok: false, ignored: "sender_mismatch" });
+    }
+
+    const body = stripQuotedReply(mail.text);
+    if (!body) return json(200, { ok: false, ignored: "empty" });
+
+    const message = await appendMessage(sb, {
+      enquiryId: thread.enquiry.id,
+      sender: relay.side,
+      body,
+      via: "email",
+    });
+
+    let delivered = true;
+    try {
+      await forwardMessage(thread, relay.side, body);
+    } catch (e) {
+      console.warn("[enquiry-inbound-email] forward failed:", e);
+      delivered = false;
+    }
+
+    return json(200, { ok: true, message_id: message.id, delivered });
+  } catch (e) {
+    console.error("[enquiry-inbound-email] error:", e);
+    // 500 so the provider retries a genuine failure
+    return json(500, { ok: false, error: e?.message || "Server error" });
+  }
+};
@@ -0,0 +1,146 @@
+// netlify/functions/enquiry-thread.js
+// GET  /api/enquiry/thread?enquiry_id=…   business (Bearer token, must own it)
+// GET  /api/enquiry/thread?token=…        customer (customer_token from their email)
+// POST /api/enquiry/thread  { enquiry_id | token, body }
+// Reads / appends to an enquiry conversation; new messages are emailed to
+// the other side through the relay address.
+import { createClient } from "@supabase/supabase-js";
+import {
+  appendMessage,
+  cleanBody,
+  forwardMessage,
+  listMessages,
+  loadThread,
+} from "./_lib/enquiryThread.js";
+
+const corsHeaders = {
+  "content-type": "application/json",
+  "access-control-allow-origin": "*",
+  "access-control-allow-methods": "GET,POST,OPTIONS",
+  "access-control-allow-headers": "content-type,authorization",
+};
+
+const json = (status, body) =>
+  new Response(JSON.stringify(body), { status, headers: corsHeaders });
+
+function getSupabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key =
+    process.env.SUPABASE_SERVICE_ROLE || process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    throw new Error(
+      "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE (service role key) in Netlify env."
+    );
+  }
+
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+function getBearer(req) {
+  const h =
+    req.headers.get("authorization") || req.headers.get("Authorization") || "";
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m ? m[1] : null;
+}
+
+// -> { thread, viewer } or { status, error }
+async function resolveViewer(sb, req, { enquiryId, token }) {
+  if (token) {
+    const thread = await loadThread(sb, { customerToken: token });
+    if (!thread) return { status: 404, error: "Conversation not found" };
+    return { thread, viewer: "customer" };
+  }
+
+  if (!enquiryId) return { status: 400, error: "Missing enquiry_id or token" };
+
+  const jwt = getBearer(req);
+  if (!jwt) return { status: 401, error: "Missing Authorization bearer token" };
+
+  const { data: userData, error: userErr } = await sb.auth.getUser(jwt);
+  if (userErr || !userData?.user) return { status: 401, error: "Invalid session" };
+
+  const thread = await loadThread(sb, { id: enquiryId });
+  if (!thread || thread.cleaner?.user_id !== userData.user.id) {
+    return { status: 404, error: "Conversation not found" };
+  }
+  return { thread, viewer: "business" };
+}
+
+function publicView(thread, viewer, messages) {
+  const { enquiry, cleaner } = thread;
+  return {
+    ok: true,
+    viewer,
+    enquiry: {
+      id: viewer === "business" ? enquiry.id : undefined,
+      business_name: cleaner?.business_name ?? null,
+      customer_name: enquiry.user_name ?? null,
+      created_at: enquiry.created_at,
+    },
+    messages,
+  };
+}
+
+export default async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const sb = getSupabaseAdmin();
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      const who = await resolveViewer(sb, req, {
+        enquiryId: url.searchParams.get("enquiry_id"),
+        token: url.searchParams.get("token"),
+      });
+      if (who.error) return json(who.status, { ok: false, error: who.error });
+
+      const messages = await listMessages(sb, who.thread.enquiry.id);
+      return json(200, publicView(who.thread, who.viewer, messages));
+    }
+
+    if (req.method !== "POST") {
+      return json(405, { ok: false, error: "Method not allowed" });
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return json(400, { ok: false, error: "Invalid JSON" });
+    }
+
+    const text = cleanBody(body.body);
+    if (!text) return json(400, { ok: false, error: "Message is empty" });
+
+    const who = await resolveViewer(sb, req, {
+      enquiryId: body.enquiry_id ?? body.enquiryId,
+      token: body.token,
+    });
+    if (who.error) return json(who.status, { ok: false, error: who.error });
+
+    const message = await appendMessage(sb, {
+      enquiryId: who.thread.enquiry.id,
+      sender: who.viewer,
+      body: text,
+      via: "web",
+    });
+
+    // stored either way; a failed email shouldn't lose the message
+    let delivered = true;
+    try {
+      await forwardMessage(who.thread, who.viewer, text);
+    } catch (e) {
+      console.warn("[enquiry-thread] forward failed:", e);
+      delivered = false;
+    }
+
+    return json(200, { ok: true, message, delivered });
+  } catch (e) {
+    console.error("[enquiry-thread] error:", e);
+    return json(500, { ok: false, error: e?.message || "Server error" });
+  }
+};
@@ -0,0 +1,121 @@
+// netlify/functions/geo-demand.js
+// GET /api/geo/demand?category_id=…&days=30
+// Unmet-demand grid for the dashboard map: `search` events (written by
+// search.js for every lookup) bucketed into the same ~1km cells they were
+// rounded to. `unmet` counts searches that found nobody.
+// Signed-in businesses only – it's how we sell "extend your area" and
+// sponsorships, not public data.
+//
+// The bucketing runs in the database (one jsonb value back, so PostgREST's
+// max-rows cap can't cut the month short). Schema (run in Supabase SQL editor):
+//   create index on public.analytics_events (event, category_id, created_at);
+//
+//   create or replace function public.geo_demand_cells(p_category_id uuid, p_since timestamptz)
+//   returns jsonb language sql stable as $$
+//     with s as (
+//       select round((meta->>'lat')::numeric, 2) as lat,
+//              round((meta->>'lng')::numeric, 2) as lng,
+//              coalesce((meta->>'results_count')::numeric, 0) = 0 as unmet
+//       from public.analytics_events
+//       where event = 'search'
+//         and category_id = p_category_id
+//         and created_at >= p_since
+//         and jsonb_typeof(meta->'lat') = 'number'
+//         and jsonb_typeof(meta->'lng') = 'number'
+//     ), c as (
+//       select lat, lng, count(*) as searches, count(*) filter (where unmet) as unmet
+//       from s group by lat, lng
+//     )
+//     select jsonb_build_object(
+//       'total_searches', (select count(*) from s),
+//       'cells', coalesce((
+//         select jsonb_agg(jsonb_build_object('lat', lat, 'lng', lng, 'searches', searches, 'unmet', unmet)
+//                          order by unmet desc)
+//         from c where unmet > 0
+//       ), '[]'::jsonb)
+//     )
+//   $$;
+//   revoke execute on function public.geo_demand_cells(uuid, timestamptz) from public, anon, authenticated;
+import { createClient } from "@supabase/supabase-js";
+
+const corsHeaders = {
+  "content-type": "application/json",
+  "access-control-allow-origin": "*",
+  "access-control-allow-methods": "GET,OPTIONS",
+  "access-control-allow-headers": "content-type,authorization",
+};
+
+const json = (body, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: corsHeaders });
+
+const MAX_DAYS = 180;
+
+function getSupabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key =
+    process.env.SUPABASE_SERVICE_ROLE || process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    throw new Error(
+      "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE (service role key) in Netlify env."
+    );
+  }
+
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+function getBearer(req) {
+  const h =
+    req.headers.get("authorization") || req.headers.get("Authorization") || "";
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m ? m[1] : null;
+}
+
+export default async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const categoryId = url.searchParams.get("category_id");
+    const days = Math.min(
+      Math.max(Number(url.searchParams.get("days")) || 30, 1),
+      MAX_DAYS
+    );
+    if (!categoryId) return json({ ok: false, error: "Missing category_id" }, 400);
+
+    const jwt = getBearer(req);
+    if (!jwt) return json({ ok: false, error: "Missing Authorization bearer token" }, 401);
+
+    const sb = getSupabaseAdmin();
+    const { data: userData, error: userErr } = await sb.auth.getUser(jwt);
+    if (userErr || !userData?.user) {
+      return json({ ok: false, error: "Invalid session" }, 401);
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    // { total_searches, cells: [{ lat, lng, searches, unmet }] }, unmet cells only, worst first
+    const { data, error } = await sb.rpc("geo_demand_cells", {
+      p_category_id: categoryId,
+      p_since: since,
+    });
+    if (error) throw error;
+
+    return json({
+      ok: true,
+      days,
+      total_searches: Number(data?.total_searches) || 0,
+      cells: (data?.cells || []).map((c) => ({
+        lat: Number(c.lat),
+        lng: Number(c.lng),
+        searches: Number(c.searches),
+        unmet: Number(c.unmet),
+      })),
+    });
+  } catch (e) {
+    console.error("[geo-demand] error:", e);
+    return json({ ok: false, error: e?.message || "Failed to load demand" }, 500);
+  }
+};
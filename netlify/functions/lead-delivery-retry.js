@@ -0,0 +1,34 @@
+// netlify/functions/lead-delivery-retry.js
+// Scheduled (see netlify.toml). Re-attempts lead deliveries (email / SMS /
+// webhook) whose backoff has passed; after MAX_ATTEMPTS a row is marked
+// failed. See _lib/leadDelivery.js.
+import { getSupabaseAdmin } from "./_lib/searchAlerts.js";
+import { attemptDelivery, dueDeliveries } from "./_lib/leadDelivery.js";
+
+// rows per run
+const BATCH = Number(process.env.LEAD_DELIVERY_BATCH || 50);
+
+function json(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+export default async () => {
+  try {
+    const sb = getSupabaseAdmin();
+    const rows = await dueDeliveries(sb, BATCH);
+
+    const counts = { sent: 0, retrying: 0, failed: 0 };
+    for (const row of rows) {
+      const status = await attemptDelivery(sb, row);
+      counts[status] = (counts[status] || 0) + 1;
+    }
+
+    return json({ ok: true, due: rows.length, ...counts });
+  } catch (e) {
+    console.error("[lead-delivery-retry] fatal:", e);
+    return json({ ok: false, error: e?.message || "Server error" }, 500);
+  }
+};
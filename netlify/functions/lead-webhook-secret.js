@@ -0,0 +1,89 @@
+// netlify/functions/lead-webhook-secret.js
+// GET  /api/leads/webhook-secret   -> { ok, has_secret }
+// POST /api/leads/webhook-secret   -> { ok, secret }  (new secret, shown once)
+// The signing secret for a business's lead webhook. It lives in
+// public.lead_webhook_secrets, which only the service role can read, so the
+// browser never loads it back – Settings shows it once, when it's made.
+import { createClient } from "@supabase/supabase-js";
+import { newWebhookSecret } from "./_lib/leadDelivery.js";
+
+const corsHeaders = {
+  "content-type": "application/json",
+  "access-control-allow-origin": "*",
+  "access-control-allow-methods": "GET,POST,OPTIONS",
+  "access-control-allow-headers": "content-type,authorization",
+};
+
+const json = (status, body) =>
+  new Response(JSON.stringify(body), { status, headers: corsHeaders });
+
+function getSupabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key =
+    process.env.SUPABASE_SERVICE_ROLE || process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    throw new Error(
+      "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE (service role key) in Netlify env."
+    );
+  }
+
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+function getBearer(req) {
+  const h =
+    req.headers.get("authorization") || req.headers.get("Authorization") || "";
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m ? m[1] : null;
+}
+
+export default async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "GET" && req.method !== "POST") {
+    return json(405, { ok: false, error: "Method not allowed" });
+  }
+
+  try {
+    const jwt = getBearer(req);
+    if (!jwt) return json(401, { ok: false, error: "Missing Authorization bearer token" });
+
+    const sb = getSupabaseAdmin();
+    const { data: userData, error: userErr } = await sb.auth.getUser(jwt);
+    if (userErr || !userData?.user) return json(401, { ok: false, error: "Invalid session" });
+
+    const { data: cleaner, error: cleanerErr } = await sb
+      .from("cleaners")
+      .select("id")
+      .eq("user_id", userData.user.id)
+      .maybeSingle();
+    if (cleanerErr) throw cleanerErr;
+    if (!cleaner) return json(404, { ok: false, error: "Business not found" });
+
+    if (req.method === "GET") {
+      const { data, error } = await sb
+        .from("lead_webhook_secrets")
+        .select("cleaner_id")
+        .eq("cleaner_id", cleaner.id)
+        .maybeSingle();
+      if (error) throw error;
+      return json(200, { ok: true, has_secret: !!data });
+    }
+
+    const secret = newWebhookSecret();
+    const { error } = await sb
+      .from("lead_webhook_secrets")
+      .upsert(
+        { cleaner_id: cleaner.id, secret, created_at: new Date().toISOString() },
+        { onConflict: "cleaner_id" }
+      );
+    if (error) throw error;
+
+    return json(200, { ok: true, secret });
+  } catch (e) {
+    console.error("[lead-webhook-secret] error:", e);
+    return json(500, { ok: false, error: e?.message || "Server error" });
+  }
+};
@@ -1,6 +1,187 @@
 // netlify/functions/record_event.js
 import { createClient } from "@supabase/supabase-js";
 
+// events accepted per batched POST (a few pages of result cards)
+const MAX_BATCH = 50;
+
+// impressions must belong to a search this recent (search.js stores what
+// each search showed in public.search_results)
+const IMPRESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Each card counts once per search, however often a client re-sends it.
+// Impressions go in through this RPC so the unique index below can skip
+// repeats (PostgREST upserts can't target an expression index):
+//   -- drop existing repeats first:
+//   --   delete from public.analytics_events a using public.analytics_events b
+//   --   where a.event = 'impression' and b.event = 'impression'
+//   --     and a.meta->>'search_id' = b.meta->>'search_id' and a.cleaner_id = b.cleaner_id
+//   --     and a.category_id is not distinct from b.category_id and a.ctid > b.ctid;
+//   create unique index if not exists analytics_events_impression_once
+//     on public.analytics_events ((meta->>'search_id'), cleaner_id, coalesce(category_id::text, ''))
+//     where event = 'impression';
+//
+//   create or replace function public.record_impressions(p_rows jsonb)
+//   returns integer language sql security definer set search_path = public as $$
+//     with ins as (
+//       insert into public.analytics_events (cleaner_id, area_id, category_id, session_id, event, meta)
+//       select cleaner_id, area_id, category_id, session_id, event, meta
+//       from jsonb_populate_recordset(null::public.analytics_events, p_rows)
+//       on conflict ((meta->>'search_id'), cleaner_id, coalesce(category_id::text, ''))
+//         where event = 'impression' do nothing
+//       returning 1
+//     )
+//     select count(*)::integer from ins
+//   $$;
+//   revoke execute on function public.record_impressions(jsonb) from public, anon, authenticated;
+
+const shownKey = (cleanerId, categoryId) => `${cleanerId}|${categoryId ?? ""}`;
+
+/**
+ * What the searches a batch refers to actually showed, in one query:
+ * search_id -> Map(cleaner|category -> { area_id, section, position, is_sponsored }).
+ */
+async function loadShownResults(supabase, items) {
+  const ids = [
+    ...new Set(
+      items.map((i) => i.meta?.search_id).filter((id) => typeof id === "string" && UUID_RE.test(id))
+    ),
+  ];
+  const shown = new Map();
+  if (!ids.length) return shown;
+
+  const since = new Date(Date.now() - IMPRESSION_WINDOW_MS).toISOString();
+  const { data, error } = await supabase
+    .from("search_results")
+    .select("search_id, results")
+    .in("search_id", ids)
+    .gte("created_at", since);
+  if (error) throw error;
+
+  for (const row of data || []) {
+    const byCard = new Map();
+    for (const r of row.results || []) byCard.set(shownKey(r.cleaner_id, r.category_id), r);
+    shown.set(row.search_id, byCard);
+  }
+  return shown;
+}
+
+// A result-card impression, accepted only for a card its search really
+// showed; the area, position and sponsorship come from the search too.
+// Returns { row } or { error }.
+function buildImpressionRow(body, shown) {
+  const cleaner_id = body.cleaner_id ?? body.cleanerId;
+  const category_id = body.category_id ?? body.categoryId ?? null;
+  const meta = body.meta ?? {};
+
+  if (body.event !== "impression") return { error: "Only impressions can be batched" };
+  const byCard = shown.get(meta.search_id);
+  if (!byCard) return { error: "Unknown search" };
+  const key = shownKey(cleaner_id, category_id);
+  if (!cleaner_id || !byCard.has(key)) return { error: "Not in that search's results" };
+
+  const shownAs = byCard.get(key);
+  return {
+    row: {
+      cleaner_id,
+      area_id: shownAs.area_id ?? null,
+      category_id,
+      session_id: body.session_id ?? body.sessionId ?? null,
+      event: "impression",
+      meta: {
+        ...meta,
+        area_id: shownAs.area_id ?? null,
+        section: shownAs.section ?? meta.section ?? null,
+        position: shownAs.position ?? null,
+        is_sponsored: !!shownAs.is_sponsored,
+      },
+    },
+  };
+}
+
+// Validate one event and resolve its area. Returns { row } or { error }.
+async function buildRow(supabase, body) {
+  // ✅ accept both snake_case (frontend) and camelCase (older callers)
+  const cleaner_id = body.cleaner_id ?? body.cleanerId;
+  const category_id = body.category_id ?? body.categoryId ?? null;
+  const session_id = body.session_id ?? body.sessionId ?? null;
+
+  // ⚠️ we will NOT trust this anymore (only fallback)
+  const provided_area_id = body.area_id ?? body.areaId ?? null;
+
+  const ev = body.event;
+  const meta = body.meta ?? {};
+
+  // Accept lat/lng in either naming style
+  const latRaw = body.lat ?? body.latitude ?? body.userLat ?? null;
+  const lngRaw = body.lng ?? body.longitude ?? body.userLng ?? null;
+
+  const lat = latRaw == null ? null : Number(latRaw);
+  const lng = lngRaw == null ? null : Number(lngRaw);
+
+  // IMPORTANT: your DB uses a USER-DEFINED enum "event"
+  const allowed = [
+    "impression",
+    "click_message",
+    "click_phone",
+    "click_website",
+    "search_filter",
+    "profile_view", // public page /b/:slug (see business-profile.js)
+  ];
+
+  // Site-level events aren't about one business, so cleaner_id is null:
+  //   alter type public.event add value if not exists 'search_filter';
+  //   alter table public.analytics_events alter column cleaner_id drop not null;
+  const siteEvents = ["search_filter"];
+
+  if (!ev || (!cleaner_id && !siteEvents.includes(ev))) {
+    return { error: "Missing cleaner_id or event" };
+  }
+
+  if (!allowed.includes(ev)) {
+    return { error: "Invalid event" };
+  }
+
+  // ✅ Resolve correct area_id from polygons (preferred)
+  // Only possible when we have cleaner_id + category_id + lat/lng
+  let area_id = null;
+
+  const hasLatLng = Number.isFinite(lat) && Number.isFinite(lng);
+  const hasCategory = !!category_id;
+
+  if (hasLatLng && hasCategory && cleaner_id) {
+    const { data, error: aErr } = await supabase.rpc("area_for_point", {
+      p_cleaner_id: cleaner_id,
+      p_category_id: category_id,
+      p_lat: lat,
+      p_lng: lng,
+    });
+
+    if (aErr) {
+      console.warn("[record_event] area_for_point failed:", aErr);
+      // fallback to provided area_id (older behaviour)
+      area_id = provided_area_id;
+    } else {
+      area_id = data ?? null; // null means outside all polygons => unattributed
+    }
+  } else {
+    // fallback for old callers that don't send lat/lng (or no category)
+    area_id = provided_area_id;
+  }
+
+  return {
+    row: {
+      cleaner_id: cleaner_id ?? null,
+      area_id,
+      category_id,
+      session_id,
+      event: ev,
+      meta,
+    },
+  };
+}
+
 export const handler = async (event) => {
   try {
     if (event.httpMethod !== "POST") {
@@ -20,69 +201,53 @@ export const handler = async (event) => {
 
     const body = JSON.parse(event.body || "{}");
 
-    // ✅ accept both snake_case (frontend) and camelCase (older callers)
-    const cleaner_id = body.cleaner_id ?? body.cleanerId;
-    const category_id = body.category_id ?? body.categoryId ?? null;
-    const session_id = body.session_id ?? body.sessionId ?? null;
-
-    // ⚠️ we will NOT trust this anymore (only fallback)
-    const provided_area_id = body.area_id ?? body.areaId ?? null;
-
-    const ev = body.event;
-    const meta = body.meta ?? {};
+    // Batched: { events: [ …same shape as a single event… ] }
+    // Search result impressions arrive this way (one POST per flush), and
+    // only this way: each must carry the meta.search_id it was shown under.
+    if (Array.isArray(body.events)) {
+      const items = body.events.slice(0, MAX_BATCH).map((item) => item || {});
+      const shown = await loadShownResults(supabase, items);
+      const rows = [];
+      const seen = new Set();
+      let rejected = 0;
 
-    // Accept lat/lng in either naming style
-    const latRaw = body.lat ?? body.latitude ?? body.userLat ?? null;
-    const lngRaw = body.lng ?? body.longitude ?? body.userLng ?? null;
+      for (const item of items) {
+        const built = buildImpressionRow(item, shown);
+        if (built.error) {
+          rejected++;
+          continue;
+        }
+        const key = `${built.row.meta.search_id}|${shownKey(built.row.cleaner_id, built.row.category_id)}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        rows.push(built.row);
+      }
 
-    const lat = latRaw == null ? null : Number(latRaw);
-    const lng = lngRaw == null ? null : Number(lngRaw);
+      // repeats of cards already recorded for their search are skipped
+      let inserted = 0;
+      if (rows.length) {
+        const { data, error } = await supabase.rpc("record_impressions", { p_rows: rows });
+        if (error) {
+          console.error("record_impressions error:", error);
+          return { statusCode: 500, body: error.message };
+        }
+        inserted = data ?? 0;
+      }
 
-    if (!cleaner_id || !ev) {
-      return { statusCode: 400, body: "Missing cleaner_id or event" };
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ ok: true, inserted, rejected }),
+      };
     }
 
-    // IMPORTANT: your DB uses a USER-DEFINED enum "event"
-    const allowed = ["impression", "click_message", "click_phone", "click_website"];
-    if (!allowed.includes(ev)) {
-      return { statusCode: 400, body: "Invalid event" };
+    if (body.event === "impression") {
+      return { statusCode: 400, body: "Impressions must be batched with their search_id" };
     }
 
-    // ✅ Resolve correct area_id from polygons (preferred)
-    // Only possible when we have cleaner_id + category_id + lat/lng
-    let area_id = null;
-
-    const hasLatLng = Number.isFinite(lat) && Number.isFinite(lng);
-    const hasCategory = !!category_id;
-
-    if (hasLatLng && hasCategory) {
-      const { data, error: aErr } = await supabase.rpc("area_for_point", {
-        p_cleaner_id: cleaner_id,
-        p_category_id: category_id,
-        p_lat: lat,
-        p_lng: lng,
-      });
-
-      if (aErr) {
-        console.warn("[record_event] area_for_point failed:", aErr);
-        // fallback to provided area_id (older behaviour)
-        area_id = provided_area_id;
-      } else {
-        area_id = data ?? null; // null means outside all polygons => unattributed
-      }
-    } else {
-      // fallback for old callers that don't send lat/lng (or no category)
-      area_id = provided_area_id;
-    }
+    const built = await buildRow(supabase, body);
+    if (built.error) return { statusCode: 400, body: built.error };
 
-    const { error } = await supabase.from("analytics_events").insert({
-      cleaner_id,
-      area_id,
-      category_id,
-      session_id,
-      event: ev,
-      meta,
-    });
+    const { error } = await supabase.from("analytics_events").insert(built.row);
 
     if (error) {
       console.error("analytics_events insert error:", error);
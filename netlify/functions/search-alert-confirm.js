@@ -0,0 +1,55 @@
+// netlify/functions/search-alert-confirm.js
+// POST /api/alerts/confirm  { token }
+// Sent by the /alerts/confirm page when the customer presses its button (the
+// double opt-in email links there). Activates every pending alert sharing
+// the token. The page shows the banner for `status`.
+import { getSupabaseAdmin, readToken } from "./_lib/searchAlerts.js";
+
+const corsHeaders = {
+  "content-type": "application/json",
+  "access-control-allow-origin": "*",
+  "access-control-allow-methods": "POST,OPTIONS",
+  "access-control-allow-headers": "content-type",
+};
+
+const json = (status, body) =>
+  new Response(JSON.stringify(body), { status, headers: corsHeaders });
+
+export default async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json(405, { ok: false, error: "Method not allowed" });
+  }
+
+  const token = await readToken(req);
+  if (!token) return json(400, { ok: false, status: "invalid" });
+
+  try {
+    const sb = getSupabaseAdmin();
+
+    const { data, error } = await sb
+      .from("search_alerts")
+      .update({ status: "active", confirmed_at: new Date().toISOString() })
+      .eq("confirm_token", token)
+      .eq("status", "pending")
+      .select("id");
+    if (error) throw error;
+
+    if (!data?.length) {
+      // clicked twice, or already unsubscribed – either way nothing to do
+      const { data: known } = await sb
+        .from("search_alerts")
+        .select("id")
+        .eq("confirm_token", token)
+        .limit(1);
+      return json(200, { ok: true, status: known?.length ? "confirmed" : "invalid" });
+    }
+
+    return json(200, { ok: true, status: "confirmed" });
+  } catch (e) {
+    console.error("[search-alert-confirm] fatal:", e);
+    return json(500, { ok: false, status: "error" });
+  }
+};
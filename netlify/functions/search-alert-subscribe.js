@@ -0,0 +1,173 @@
+// netlify/functions/search-alert-subscribe.js
+// POST /api/alerts/subscribe
+// { email, postcode, lat, lng, serviceSlugs[] }
+// Stores a pending alert per service and emails a confirm link (double
+// opt-in). Nothing is sent to the customer again until they click it.
+// Limited per IP and per email, and a pending confirm email is only re-sent
+// every CONFIRM_RESEND_MS, so the form can't be used to mail-bomb someone.
+import { Resend } from "resend";
+import { clientIp } from "./_lib/enquiryGuard.js";
+import { BRAND } from "./_lib/enquiryService.js";
+import {
+  ALERT_FROM,
+  CONFIRM_RESEND_MS,
+  confirmUrl,
+  escapeHtml,
+  getSupabaseAdmin,
+  isValidEmail,
+  newToken,
+  subscribeLimitReason,
+} from "./_lib/searchAlerts.js";
+
+const corsHeaders = {
+  "content-type": "application/json",
+  "access-control-allow-origin": "*",
+  "access-control-allow-methods": "POST,OPTIONS",
+  "access-control-allow-headers": "content-type",
+};
+
+const json = (status, body) =>
+  new Response(JSON.stringify(body), { status, headers: corsHeaders });
+
+const MAX_SERVICES = 3;
+
+function readSlugs(body) {
+  const list = Array.isArray(body.serviceSlugs)
+    ? body.serviceSlugs
+    : [body.serviceSlug];
+  return [...new Set(list.map((s) => String(s || "").trim()).filter(Boolean))]
+    .slice(0, MAX_SERVICES);
+}
+
+export default async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json(405, { ok: false, error: "Method not allowed" });
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { ok: false, error: "Invalid JSON" });
+  }
+
+  const email = String(body.email || "").trim().toLowerCase();
+  const lat = Number(body.lat);
+  const lng = Number(body.lng);
+  const postcode = String(body.postcode || "").trim().toUpperCase() || null;
+  const slugs = readSlugs(body);
+  const ip = clientIp(Object.fromEntries(req.headers));
+
+  if (!isValidEmail(email)) return json(400, { ok: false, error: "Invalid email" });
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+    return json(400, { ok: false, error: "Missing location" });
+  }
+  if (!slugs.length) return json(400, { ok: false, error: "Missing category" });
+
+  try {
+    const sb = getSupabaseAdmin();
+
+    const { data: cats, error: catErr } = await sb
+      .from("service_categories")
+      .select("id, slug, name")
+      .in("slug", slugs);
+    if (catErr) throw catErr;
+
+    const known = (cats || []).filter((c) => slugs.includes(c.slug));
+    if (!known.length) return json(400, { ok: false, error: "Unknown category" });
+
+    // Same email + point + service already waiting or live: just re-send the
+    // confirm link for the pending ones instead of stacking duplicates.
+    const { data: existing, error: exErr } = await sb
+      .from("search_alerts")
+      .select("id, service_slug, status, confirm_token, confirm_sent_at")
+      .eq("email", email)
+      .eq("lat", lat)
+      .eq("lng", lng)
+      .in("status", ["pending", "active"]);
+    if (exErr) throw exErr;
+
+    const taken = new Set((existing || []).map((a) => a.service_slug));
+    const pending = (existing || []).find((a) => a.status === "pending");
+    const pendingToken = pending?.confirm_token;
+    const confirmToken = pendingToken || newToken();
+    const now = new Date();
+
+    const rows = known
+      .filter((c) => !taken.has(c.slug))
+      .map((c) => ({
+        email,
+        postcode,
+        lat,
+        lng,
+        service_slug: c.slug,
+        category_id: c.id,
+        status: "pending",
+        confirm_token: confirmToken,
+        unsubscribe_token: newToken(),
+        ip,
+        confirm_sent_at: now.toISOString(),
+      }));
+
+    if (rows.length) {
+      const limited = await subscribeLimitReason(sb, { ip, email });
+      if (limited) {
+        return json(429, { ok: false, error: "Too many alerts requested. Please try again later." });
+      }
+      const { error: insErr } = await sb.from("search_alerts").insert(rows);
+      if (insErr) throw insErr;
+    }
+
+    const needsConfirm = rows.length > 0 || !!pendingToken;
+    if (!needsConfirm) {
+      // already confirmed for everything asked for
+      return json(200, { ok: true, status: "active" });
+    }
+
+    const lastSent = pending?.confirm_sent_at ? new Date(pending.confirm_sent_at).getTime() : 0;
+    if (!rows.length && now.getTime() - lastSent < CONFIRM_RESEND_MS) {
+      // the link already went out a moment ago; don't send it again
+      return json(200, { ok: true, status: "pending" });
+    }
+
+    const names = known.map((c) => c.name).join(", ");
+    const where = postcode || "your area";
+    const resend = new Resend(process.env.RESEND_API_KEY);
+    const resp = await resend.emails.send({
+      from: ALERT_FROM,
+      to: email,
+      subject: `Confirm your ${BRAND} alert for ${where}`,
+      html: `
+        <div style="font-family:Arial,sans-serif;line-height:1.5">
+          <p>Hi,</p>
+          <p>You asked us to let you know when a business starts covering <b>${escapeHtml(where)}</b> for <b>${escapeHtml(names)}</b>.</p>
+          <p><a href="${confirmUrl(confirmToken)}">Confirm my alert</a></p>
+          <p>If this wasn't you, ignore this email and you won't hear from us again.</p>
+          <p>Thanks,<br/>${BRAND}</p>
+        </div>
+      `,
+    });
+
+    if (resp?.error) {
+      console.warn("[search-alert-subscribe] resend failed:", resp.error);
+      return json(502, { ok: false, error: "Could not send confirmation email" });
+    }
+
+    if (pendingToken) {
+      const { error: upErr } = await sb
+        .from("search_alerts")
+        .update({ confirm_sent_at: now.toISOString() })
+        .eq("confirm_token", pendingToken)
+        .eq("status", "pending");
+      if (upErr) console.warn("[search-alert-subscribe] confirm_sent_at update failed:", upErr);
+    }
+
+    return json(200, { ok: true, status: "pending" });
+  } catch (e) {
+    console.error("[search-alert-subscribe] fatal:", e);
+    return json(500, { ok: false, error: e?.message || "Server error" });
+  }
+};
@@ -0,0 +1,43 @@
+// netlify/functions/search-alert-unsubscribe.js
+// POST /api/alerts/unsubscribe  { token }
+// Sent by the /alerts/unsubscribe page (linked from every alert email).
+// One token = one alert (one postcode + service).
+import { getSupabaseAdmin, readToken } from "./_lib/searchAlerts.js";
+
+const corsHeaders = {
+  "content-type": "application/json",
+  "access-control-allow-origin": "*",
+  "access-control-allow-methods": "POST,OPTIONS",
+  "access-control-allow-headers": "content-type",
+};
+
+const json = (status, body) =>
+  new Response(JSON.stringify(body), { status, headers: corsHeaders });
+
+export default async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json(405, { ok: false, error: "Method not allowed" });
+  }
+
+  const token = await readToken(req);
+  if (!token) return json(400, { ok: false, status: "invalid" });
+
+  try {
+    const sb = getSupabaseAdmin();
+
+    const { data, error } = await sb
+      .from("search_alerts")
+      .update({ status: "unsubscribed" })
+      .eq("unsubscribe_token", token)
+      .select("id");
+    if (error) throw error;
+
+    return json(200, { ok: true, status: data?.length ? "unsubscribed" : "invalid" });
+  } catch (e) {
+    console.error("[search-alert-unsubscribe] fatal:", e);
+    return json(500, { ok: false, status: "error" });
+  }
+};
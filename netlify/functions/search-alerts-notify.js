@@ -0,0 +1,132 @@
+// netlify/functions/search-alerts-notify.js
+// Scheduled (see netlify.toml). For every confirmed alert, re-run
+// search_cleaners at the saved point: once a new or edited service_areas
+// polygon covers it and a live business comes back, email the customer
+// once and mark the alert notified.
+import { Resend } from "resend";
+import { BRAND } from "./_lib/enquiryService.js";
+import {
+  ALERT_FROM,
+  escapeHtml,
+  getSupabaseAdmin,
+  searchUrl,
+  unsubscribeUrl,
+} from "./_lib/searchAlerts.js";
+
+// alerts per run – search_cleaners is one RPC each
+const BATCH = Number(process.env.SEARCH_ALERTS_BATCH || 200);
+const MAX_LISTED = 5;
+
+function json(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+export default async () => {
+  try {
+    const sb = getSupabaseAdmin();
+    const resend = new Resend(process.env.RESEND_API_KEY);
+
+    // least recently checked first so a big backlog still gets round everyone
+    const { data: alerts, error } = await sb
+      .from("search_alerts")
+      .select("id, email, postcode, lat, lng, service_slug, unsubscribe_token")
+      .eq("status", "active")
+      .order("last_checked_at", { ascending: true, nullsFirst: true })
+      .limit(BATCH);
+
+    if (error) throw error;
+
+    const { data: cats } = await sb.from("service_categories").select("slug, name");
+    const nameBySlug = new Map((cats || []).map((c) => [c.slug, c.name]));
+
+    let sent = 0;
+    let waiting = 0;
+    let failed = 0;
+
+    for (const alert of alerts || []) {
+      const checkedAt = new Date().toISOString();
+
+      const { data: rows, error: rpcErr } = await sb.rpc("search_cleaners", {
+        p_category_slug: alert.service_slug,
+        p_lat: alert.lat,
+        p_lng: alert.lng,
+      });
+
+      if (rpcErr) {
+        console.warn("[search-alerts-notify] search_cleaners failed:", alert.id, rpcErr);
+        failed++;
+        continue;
+      }
+
+      const ids = [...new Set((rows || []).map((r) => r.cleaner_id).filter(Boolean))];
+      let live = [];
+      if (ids.length) {
+        const { data: cleaners, error: cErr } = await sb
+          .from("cleaners")
+          .select("id, business_name, phone, whatsapp, website")
+          .in("id", ids);
+        if (cErr) throw cErr;
+        // same "contactable" rule as the public search
+        live = (cleaners || []).filter((c) => c.phone || c.whatsapp || c.website);
+      }
+
+      if (!live.length) {
+        await sb.from("search_alerts").update({ last_checked_at: checkedAt }).eq("id", alert.id);
+        waiting++;
+        continue;
+      }
+
+      const service = nameBySlug.get(alert.service_slug) || alert.service_slug;
+      const where = alert.postcode || "your area";
+      const listed = live
+        .slice(0, MAX_LISTED)
+        .map((c) => `<li>${escapeHtml(c.business_name || "A local business")}</li>`)
+        .join("");
+      const more = live.length > MAX_LISTED ? `<p>…and ${live.length - MAX_LISTED} more.</p>` : "";
+
+      const resp = await resend.emails.send({
+        from: ALERT_FROM,
+        to: alert.email,
+        subject: `Good news – ${service} now available in ${where}`,
+        html: `
+          <div style="font-family:Arial,sans-serif;line-height:1.5">
+            <p>Hi,</p>
+            <p>You asked us to tell you when someone covers <b>${escapeHtml(where)}</b> for <b>${escapeHtml(service)}</b>. They do now:</p>
+            <ul>${listed}</ul>
+            ${more}
+            <p><a href="${searchUrl(alert.postcode, alert.service_slug)}">See them on ${BRAND}</a></p>
+            <p style="color:#6b7280;font-size:12px">This was a one-off alert. <a href="${unsubscribeUrl(alert.unsubscribe_token)}">Unsubscribe</a></p>
+          </div>
+        `,
+      });
+
+      if (resp?.error) {
+        console.warn("[search-alerts-notify] resend failed:", alert.id, resp.error);
+        // leave it active, try again next run
+        await sb.from("search_alerts").update({ last_checked_at: checkedAt }).eq("id", alert.id);
+        failed++;
+        continue;
+      }
+
+      const { error: upErr } = await sb
+        .from("search_alerts")
+        .update({ status: "notified", notified_at: checkedAt, last_checked_at: checkedAt })
+        .eq("id", alert.id);
+
+      if (upErr) {
+        // worst case they get the same good news twice
+        console.warn("[search-alerts-notify] mark notified failed:", alert.id, upErr);
+      }
+
+      sent++;
+    }
+
+    return json({ ok: true, checked: alerts?.length || 0, sent, waiting, failed });
+  } catch (e) {
+    console.error("[search-alerts-notify] fatal:", e);
+    return json({ ok: false, error: e?.message || "Server error" }, 500);
+  }
+};
@@ -0,0 +1,484 @@
+// netlify/functions/search.js
+// One round trip for the public search:
+//   location + category slug(s) -> geocode -> search_cleaners RPC (per
+//   category) -> hydrate cleaner rows -> order -> record `search` events ->
+//   MatchOut[] (covering every category) + partial matches
+//
+// Location is one of (inputMode):
+//   "postcode"     { postcode }
+//   "address"      { query, lat?, lng? }  lat/lng when Places resolved it
+//   "geolocation"  { lat, lng }           browser "use my location"
+import { createClient } from "@supabase/supabase-js";
+import { randomUUID } from "node:crypto";
+import {
+  geocodePlace,
+  geocodePostcode,
+  normalisePostcode,
+  reverseGeocode,
+} from "./_lib/geocode.js";
+import { areaKeyFor, orderResults } from "./_lib/ranking.js";
+import { haversineMiles, roundMiles } from "./_lib/distance.js";
+import { clientIp } from "./_lib/enquiryGuard.js";
+
+const corsHeaders = {
+  "content-type": "application/json",
+  "access-control-allow-origin": "*",
+  "access-control-allow-methods": "POST,OPTIONS",
+  "access-control-allow-headers": "content-type",
+};
+
+const json = (status, body) =>
+  new Response(JSON.stringify(body), { status, headers: corsHeaders });
+
+const CLEANER_COLUMNS =
+  "id, business_name, logo_url, website, phone, whatsapp, payment_methods, service_types, rating_avg, rating_count, google_rating, google_reviews_count";
+
+// Re-running the same search (e.g. tab switch back) shouldn't double count
+const SEARCH_DEDUPE_MS = 60 * 1000;
+const recentSearches = new Map(); // key -> timestamp
+
+const INPUT_MODES = ["postcode", "address", "geolocation"];
+
+// "bin + window + domestic" is the widest combination we offer
+const MAX_CATEGORIES = 3;
+
+// slug -> service_categories.id (categories hardly ever change)
+const categoryIdCache = new Map();
+
+function getSupabaseAdmin() {
+  const url = process.env.SUPABASE_URL;
+  const key =
+    process.env.SUPABASE_SERVICE_ROLE || process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    throw new Error(
+      "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE (service role key) in Netlify env."
+    );
+  }
+
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+function toArray(v) {
+  if (!v) return [];
+  if (Array.isArray(v)) return v;
+  if (typeof v === "string") {
+    try {
+      const parsed = JSON.parse(v);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {}
+    return v
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
+  }
+  return [];
+}
+
+async function resolveCategoryId(sb, slug) {
+  if (categoryIdCache.has(slug)) return categoryIdCache.get(slug);
+
+  const { data, error } = await sb
+    .from("service_categories")
+    .select("id")
+    .eq("slug", slug)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("[search] service_categories lookup failed:", error);
+    return null;
+  }
+
+  const id = data?.id ?? null;
+  categoryIdCache.set(slug, id);
+  return id;
+}
+
+// accepts serviceSlugs: [...] or the older single serviceSlug / category
+function readServiceSlugs(body) {
+  const raw = Array.isArray(body.serviceSlugs)
+    ? body.serviceSlugs
+    : [body.serviceSlug || body.category];
+  const slugs = raw.map((s) => String(s || "").trim()).filter(Boolean);
+  return [...new Set(slugs)].slice(0, MAX_CATEGORIES);
+}
+
+function readCoords(body) {
+  const lat = body.lat == null ? NaN : Number(body.lat);
+  const lng = body.lng == null ? NaN : Number(body.lng);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+/**
+ * Turn the request into { postcode, precision, lat, lng, town } or an error
+ * code the client maps to a friendly message.
+ */
+async function resolveLocation(inputMode, body) {
+  const coords = readCoords(body);
+
+  if (inputMode === "geolocation" || (inputMode === "address" && coords)) {
+    if (!coords) return { error: "bad_location" };
+    // the label is cosmetic, so a missing dataset mustn't block the search
+    const near = await reverseGeocode(coords.lat, coords.lng).catch(() => null);
+    const label = String(body.locationLabel || "").trim();
+    return {
+      postcode: near?.outcode ?? "",
+      precision: inputMode === "geolocation" ? "device" : "place",
+      town: label || near?.town || "",
+      ...coords,
+    };
+  }
+
+  if (inputMode === "address") {
+    const geo = await geocodePlace(body.query);
+    return geo ?? { error: "bad_location" };
+  }
+
+  const pc = normalisePostcode(body.postcode);
+  const geo = await geocodePostcode(pc);
+  return geo ? { ...geo, postcode: pc } : { error: "bad_postcode" };
+}
+
+// One `search` event per requested category for every lookup – zero-result
+// ones included – so the dashboard can map demand nobody covers yet.
+// Only a rounded point and the outcode are kept (2dp is a ~1km cell).
+// Needs: alter type public.event add value if not exists 'search';
+const DEMAND_GRID_DP = 2;
+
+async function recordSearchEvents(sb, ctx) {
+  const {
+    searchId,
+    sessionId,
+    perCategory,
+    liveCounts,
+    pc,
+    precision,
+    inputMode,
+    town,
+    lat,
+    lng,
+    serviceSlugs,
+  } = ctx;
+  const latR = Number(lat.toFixed(DEMAND_GRID_DP));
+  const lngR = Number(lng.toFixed(DEMAND_GRID_DP));
+
+  const events = perCategory.map(({ slug, categoryId }) => ({
+    cleaner_id: null,
+    area_id: null,
+    category_id: categoryId,
+    session_id: sessionId,
+    event: "search",
+    meta: {
+      search_id: searchId,
+      outcode: pc ? pc.split(" ")[0] : null,
+      postcode_precision: precision,
+      input_mode: inputMode,
+      town,
+      service_slug: slug,
+      service_slugs: serviceSlugs,
+      results_count: liveCounts.get(slug) || 0,
+      lat: latR,
+      lng: lngR,
+    },
+  }));
+
+  const { error } = await sb.from("analytics_events").insert(events);
+  if (error) console.warn("[search] search event insert failed:", error);
+}
+
+// What each search actually showed, so record_event only accepts impressions
+// for cards that were on that results page (and takes their area, position
+// and sponsorship from here rather than from the browser):
+//   create table public.search_results (
+//     search_id  uuid primary key,
+//     created_at timestamptz not null default now(),
+//     results    jsonb not null
+//       -- [{ cleaner_id, category_id, area_id, section, position, is_sponsored }]
+//   );
+//   create index on public.search_results (created_at);
+//   alter table public.search_results enable row level security; -- service role only
+async function storeSearchResults(sb, searchId, sections) {
+  const results = Object.entries(sections).flatMap(([section, rows]) =>
+    rows.flatMap((r, idx) =>
+      r.categories.map((c) => ({
+        cleaner_id: r.cleaner_id,
+        category_id: c.category_id,
+        area_id: c.area_id,
+        section,
+        position: idx + 1,
+        is_sponsored: Boolean(c.is_covering_sponsor),
+      }))
+    )
+  );
+  const { error } = await sb.from("search_results").insert({ search_id: searchId, results });
+  if (error) console.warn("[search] search_results insert failed:", error);
+}
+
+function shouldRecordSearch(key) {
+  const now = Date.now();
+  for (const [k, t] of recentSearches) {
+    if (now - t > SEARCH_DEDUPE_MS) recentSearches.delete(k);
+  }
+  if (recentSearches.has(key)) return false;
+  recentSearches.set(key, now);
+  return true;
+}
+
+export default async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json(405, { ok: false, error: "Method not allowed" });
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return json(400, { ok: false, error: "Invalid JSON" });
+  }
+
+  const inputMode = INPUT_MODES.includes(body.inputMode)
+    ? body.inputMode
+    : "postcode";
+  const serviceSlugs = readServiceSlugs(body);
+  const sessionId = body.sessionId ?? body.session_id ?? null;
+  const ip = clientIp(Object.fromEntries(req.headers));
+
+  if (inputMode === "postcode" && !normalisePostcode(body.postcode)) {
+    return json(400, { ok: false, error: "Missing postcode" });
+  }
+  if (!serviceSlugs.length) return json(400, { ok: false, error: "Missing category" });
+
+  // one key for the whole combination (rotation seed, dedupe)
+  const comboKey = serviceSlugs.join("+");
+
+  try {
+    // 1) Geocode against the local postcode table
+    let geo;
+    try {
+      geo = await resolveLocation(inputMode, body);
+    } catch (e) {
+      console.warn("[search] geocode failed:", e);
+      return json(502, { ok: false, error: "geocode_unavailable" });
+    }
+    if (geo.error) return json(404, { ok: false, error: geo.error });
+
+    const { postcode: pc, lat, lng, town, precision } = geo;
+    const sb = getSupabaseAdmin();
+
+    // 2) Eligible cleaners + sponsor flags + matched area, per category
+    const perCategory = await Promise.all(
+      serviceSlugs.map(async (slug) => {
+        const [{ data, error }, categoryId] = await Promise.all([
+          sb.rpc("search_cleaners", {
+            p_category_slug: slug,
+            p_lat: lat,
+            p_lng: lng,
+          }),
+          resolveCategoryId(sb, slug),
+        ]);
+        if (error) throw error;
+        return { slug, categoryId, rows: data || [] };
+      })
+    );
+
+    // cleaner_id -> { rpc row, categories matched (in the order asked for) }
+    const matchesById = new Map();
+    for (const { slug, categoryId, rows } of perCategory) {
+      for (const r of rows) {
+        if (!r.cleaner_id) continue;
+        const m = matchesById.get(r.cleaner_id) || { rpc: r, categories: [] };
+        m.categories.push({
+          slug,
+          category_id: categoryId,
+          area_id: r.area_id ?? null,
+          area_name: r.area_name ?? null,
+          is_covering_sponsor: Boolean(r.is_covering_sponsor),
+        });
+        matchesById.set(r.cleaner_id, m);
+      }
+    }
+
+    const eligibleIds = [...matchesById.keys()];
+
+    const searchId = randomUUID();
+    const searchCtx = {
+      searchId,
+      sessionId,
+      perCategory,
+      pc,
+      precision,
+      inputMode,
+      town,
+      lat,
+      lng,
+      serviceSlugs,
+    };
+    // 60s de-dupe so a re-render isn't a second lookup; without a session
+    // the caller's IP stands in, so dropping sessionId can't inflate counts
+    const who = sessionId ? `s:${sessionId}` : `ip:${ip ?? "unknown"}`;
+    const searchKey = `search|${who}|${lat.toFixed(5)}|${lng.toFixed(5)}|${comboKey}`;
+    const recordSearch = shouldRecordSearch(searchKey);
+
+    const base = {
+      ok: true,
+      postcode: pc,
+      precision,
+      town,
+      lat,
+      lng,
+      category_id: perCategory[0].categoryId,
+      categories: perCategory.map(({ slug, categoryId }) => ({
+        slug,
+        category_id: categoryId,
+      })),
+    };
+
+    if (eligibleIds.length === 0) {
+      if (recordSearch) {
+        await recordSearchEvents(sb, { ...searchCtx, liveCounts: new Map() });
+      }
+      return json(200, {
+        ...base,
+        search_id: searchId,
+        results: [],
+        partial_results: [],
+      });
+    }
+
+    // 3) Hydrate cleaner details
+    const { data: cleaners, error: cleanersErr } = await sb
+      .from("cleaners")
+      .select(CLEANER_COLUMNS)
+      .in("id", eligibleIds);
+
+    if (cleanersErr) throw cleanersErr;
+
+    // Bin sizes offered (ServicesMenu writes these) for the result filters
+    // and the quote request form
+    const { data: offerings, error: offeringsErr } = await sb
+      .from("service_offerings")
+      .select("cleaner_id, variant, price_cents")
+      .in("cleaner_id", eligibleIds)
+      .eq("service", "bin_cleaning")
+      .eq("is_active", true);
+
+    if (offeringsErr) console.warn("[search] service_offerings lookup failed:", offeringsErr);
+
+    // Business base (set_cleaner_location at onboarding) for "x miles away".
+    //   create or replace function public.cleaner_base_points(p_cleaner_ids uuid[])
+    //   returns table (cleaner_id uuid, lat double precision, lng double precision)
+    //   language sql stable as $$
+    //     select id, st_y(location::geometry), st_x(location::geometry)
+    //     from public.cleaners where id = any(p_cleaner_ids) and location is not null
+    //   $$;
+    const { data: bases, error: basesErr } = await sb.rpc("cleaner_base_points", {
+      p_cleaner_ids: eligibleIds,
+    });
+    if (basesErr) console.warn("[search] cleaner_base_points failed:", basesErr);
+
+    const milesById = new Map();
+    for (const b of bases || []) {
+      if (b.lat == null || b.lng == null) continue;
+      milesById.set(b.cleaner_id, roundMiles(haversineMiles(lat, lng, b.lat, b.lng)));
+    }
+
+    const binSizesById = new Map();
+    const binPricesById = new Map();
+    for (const o of offerings || []) {
+      const list = binSizesById.get(o.cleaner_id) || [];
+      list.push(o.variant);
+      binSizesById.set(o.cleaner_id, list);
+
+      const prices = binPricesById.get(o.cleaner_id) || {};
+      prices[o.variant] = o.price_cents ?? null;
+      binPricesById.set(o.cleaner_id, prices);
+    }
+
+    const normalized = (cleaners || []).map((c) => {
+      const { rpc: r, categories } = matchesById.get(c.id);
+      // first requested category they cover drives the single-value fields
+      const primary = categories[0];
+      return {
+        cleaner_id: c.id,
+        business_name: c.business_name ?? r?.business_name ?? null,
+        logo_url: c.logo_url ?? null,
+        website: c.website ?? null,
+        phone: c.phone ?? null,
+        whatsapp: c.whatsapp ?? null,
+        payment_methods: toArray(c.payment_methods),
+        service_types: toArray(c.service_types),
+        bin_sizes: binSizesById.get(c.id) || [],
+        bin_prices: binPricesById.get(c.id) || {},
+        rating_avg: c.rating_avg ?? null,
+        rating_count: c.rating_count ?? null,
+        google_rating: c.google_rating ?? r?.google_rating ?? null,
+        google_reviews_count:
+          c.google_reviews_count ?? r?.google_reviews_count ?? null,
+        area_id: primary.area_id,
+        area_name: primary.area_name,
+        distance_miles:
+          milesById.get(c.id) ??
+          (r?.distance_meters != null ? roundMiles(r.distance_meters / 1609.344) : null),
+        is_covering_sponsor: categories.some((x) => x.is_covering_sponsor),
+        category_id: primary.category_id,
+        categories,
+      };
+    });
+
+    // live-only
+    const liveOnly = normalized.filter((r) => r.phone || r.whatsapp || r.website);
+
+    // 4) Order: sponsors first, then the daily rotation for this area.
+    // Businesses covering every requested service come first; the rest are
+    // partial matches, most services covered first.
+    const rankOpts = {
+      areaKey: areaKeyFor(pc, lat, lng),
+      serviceSlug: comboKey,
+      strategy: process.env.SEARCH_ROTATION_STRATEGY,
+    };
+
+    const full = orderResults(
+      liveOnly.filter((r) => r.categories.length === serviceSlugs.length),
+      rankOpts
+    );
+    const partial = orderResults(
+      liveOnly.filter((r) => r.categories.length < serviceSlugs.length),
+      { ...rankOpts, coverage: (r) => r.categories.length }
+    );
+
+    const { strategy, seed } = full;
+
+    if (liveOnly.length) {
+      await storeSearchResults(sb, searchId, { full: full.ordered, partial: partial.ordered });
+    }
+
+    if (recordSearch) {
+      const liveCounts = new Map();
+      for (const r of liveOnly) {
+        for (const cat of r.categories) {
+          liveCounts.set(cat.slug, (liveCounts.get(cat.slug) || 0) + 1);
+        }
+      }
+      await recordSearchEvents(sb, { ...searchCtx, liveCounts });
+    }
+
+    // 5) Impressions are logged by the results list as cards scroll into
+    // view (src/lib/impressions.ts), so a long list doesn't count as seen.
+
+    return json(200, {
+      ...base,
+      search_id: searchId,
+      rotation: { strategy, seed },
+      results: full.ordered,
+      partial_results: partial.ordered,
+    });
+  } catch (e) {
+    console.error("[search] error:", e);
+    return json(500, { ok: false, error: e?.message || "Search failed" });
+  }
+};
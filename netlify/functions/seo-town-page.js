@@ -0,0 +1,42 @@
+// netlify/functions/seo-town-page.js
+// GET /cleaners/:service/:town -> server-rendered "Bin cleaners in Bangor"
+// page (see _lib/seoPages.js). Rendered on first request, then served from
+// the CDN cache for a day.
+import { getSupabaseAdmin } from "./_lib/searchAlerts.js";
+import { SEO_SERVICES, cleanersForTown, escapeHtml, findTown, renderTownPage } from "./_lib/seoPages.js";
+
+const htmlHeaders = {
+  "content-type": "text/html; charset=utf-8",
+  "cache-control": "public, max-age=3600",
+  "netlify-cdn-cache-control": "public, s-maxage=86400, stale-while-revalidate=86400",
+};
+
+const notFound = (what) =>
+  new Response(
+    `<!doctype html><html lang="en-GB"><head><meta charset="utf-8"><meta name="robots" content="noindex"><title>Not found | Kleanly</title></head>` +
+      `<body><p>${escapeHtml(what)} not found. <a href="/">Search for a cleaner</a>.</p></body></html>`,
+    { status: 404, headers: { "content-type": "text/html; charset=utf-8" } }
+  );
+
+export default async (req) => {
+  const params = new URL(req.url).searchParams;
+  const service = SEO_SERVICES.find((s) => s.slug === params.get("service"));
+  if (!service) return notFound("Service");
+
+  try {
+    const town = await findTown(String(params.get("town") || "").toLowerCase());
+    if (!town) return notFound("Town");
+
+    const cleaners = await cleanersForTown(getSupabaseAdmin(), service.slug, town);
+    return new Response(await renderTownPage({ service, town, cleaners }), {
+      status: 200,
+      headers: htmlHeaders,
+    });
+  } catch (e) {
+    console.error("[seo-town-page] error:", e);
+    return new Response("Something went wrong", {
+      status: 500,
+      headers: { "content-type": "text/plain; charset=utf-8" },
+    });
+  }
+};
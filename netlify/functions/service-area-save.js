@@ -0,0 +1,106 @@
+// netlify/functions/service-area-save.js
+// POST /api/area/save   (Bearer token, must own the business and the area)
+//   { cleaner_id, category_id, name, gj, postcode_codes?, area_id? }
+//   -> { ok, data }   data = whatever insert_service_area / update_service_area return
+// The only way the editor saves a service area: the shape is checked here
+// with the same rules as the editor (_lib/areaGeometry.js) before the save
+// RPCs run, so a tampered client can't store bow-ties or slivers. The RPCs
+// are revoked from the browser roles (SQL in _lib/areaGeometry.js).
+import { validateAreaGeometry } from "./_lib/areaGeometry.js";
+import { MAX_CODES, normaliseCode } from "./_lib/postcodeBoundaries.js";
+import { getSupabaseAdmin } from "./_lib/searchAlerts.js";
+
+const corsHeaders = {
+  "content-type": "application/json",
+  "access-control-allow-origin": "*",
+  "access-control-allow-methods": "POST,OPTIONS",
+  "access-control-allow-headers": "content-type,authorization",
+};
+
+const json = (body, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: corsHeaders });
+
+function getBearer(req) {
+  const h =
+    req.headers.get("authorization") || req.headers.get("Authorization") || "";
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m ? m[1] : null;
+}
+
+export default async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") return json({ ok: false, error: "Method not allowed" }, 405);
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const cleanerId = String(body.cleaner_id || "");
+    const areaId = body.area_id ? String(body.area_id) : null;
+    const name = String(body.name || "").trim().slice(0, 120) || "Untitled Area";
+    if (!cleanerId) return json({ ok: false, error: "Missing cleaner_id" }, 400);
+
+    // the save RPCs raise invalid_area:<code> for the same problems; the
+    // editor turns either into the same message
+    const issues = validateAreaGeometry(body.gj);
+    if (issues.length) {
+      return json({ ok: false, error: `invalid_area:${issues[0].code}`, issues }, 422);
+    }
+
+    const rawCodes = Array.isArray(body.postcode_codes) ? body.postcode_codes.map(String) : [];
+    if (rawCodes.length > MAX_CODES) {
+      return json({ ok: false, error: `Up to ${MAX_CODES} districts or sectors per area` }, 400);
+    }
+    const codes = [...new Set(rawCodes.map(normaliseCode).filter(Boolean))];
+
+    const jwt = getBearer(req);
+    if (!jwt) return json({ ok: false, error: "Missing Authorization bearer token" }, 401);
+
+    const sb = getSupabaseAdmin();
+    const { data: userData, error: userErr } = await sb.auth.getUser(jwt);
+    if (userErr || !userData?.user) {
+      return json({ ok: false, error: "Invalid session" }, 401);
+    }
+
+    const { data: cleaner, error: cleanerErr } = await sb
+      .from("cleaners")
+      .select("id")
+      .eq("id", cleanerId)
+      .eq("user_id", userData.user.id)
+      .maybeSingle();
+    if (cleanerErr) throw cleanerErr;
+    if (!cleaner) return json({ ok: false, error: "Not your business" }, 403);
+
+    if (areaId) {
+      const { data: area, error: areaErr } = await sb
+        .from("service_areas")
+        .select("id")
+        .eq("id", areaId)
+        .eq("cleaner_id", cleanerId)
+        .maybeSingle();
+      if (areaErr) throw areaErr;
+      if (!area) return json({ ok: false, error: "Not your area" }, 403);
+    }
+
+    // only postcode-built areas send their codes; the RPCs default to null (drawn by hand)
+    const args = {
+      p_gj: body.gj,
+      p_name: name,
+      p_category_id: body.category_id || null,
+      ...(codes.length ? { p_postcode_codes: codes } : {}),
+    };
+    const { data, error } = areaId
+      ? await sb.rpc("update_service_area", { p_area_id: areaId, ...args })
+      : await sb.rpc("insert_service_area", { p_cleaner_id: cleanerId, ...args });
+    if (error) {
+      // invalid_area:<code> from the RPC's own check
+      if (error.code === "22023") return json({ ok: false, error: error.message }, 422);
+      throw error;
+    }
+
+    return json({ ok: true, data });
+  } catch (e) {
+    console.error("[service-area-save] error:", e);
+    return json({ ok: false, error: e?.message || "Server error" }, 500);
+  }
+};
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import handler from "./service-area-save.js";
+
+const save = (body) =>
+  handler(
+    new Request("https://example.test/api/area/save", {
+      method: "POST",
+      headers: { "content-type": "application/json", authorization: "Bearer token" },
+      body: JSON.stringify(body),
+    })
+  );
+
+afterEach(() => vi.unstubAllEnvs());
+
+describe("service-area-save", () => {
+  it("refuses a bow-tie before touching the database", async () => {
+    // no Supabase env: anything past validation would be a 500
+    vi.stubEnv("SUPABASE_URL", "");
+    const bowTie = [
+      [-5.93, 54.6],
+      [-5.91, 54.62],
+      [-5.91, 54.6],
+      [-5.93, 54.62],
+      [-5.93, 54.6],
+    ];
+    const res = await save({ cleaner_id: "c1", name: "Bangor", gj: { type: "Polygon", coordinates: [bowTie] } });
+
+    expect(res.status).toBe(422);
+    expect(await res.json()).toMatchObject({ ok: false, error: "invalid_area:self_intersection" });
+  });
+
+  it("refuses a sliver ring", async () => {
+    const sliver = [
+      [-5.93, 54.6],
+      [-5.9299, 54.6],
+      [-5.9299, 54.6001],
+      [-5.93, 54.6],
+    ];
+    const res = await save({ cleaner_id: "c1", gj: { type: "MultiPolygon", coordinates: [[sliver]] } });
+
+    expect(res.status).toBe(422);
+    expect((await res.json()).error).toBe("invalid_area:tiny_ring");
+  });
+});
@@ -0,0 +1,55 @@
+// netlify/functions/sitemap.js
+// GET /sitemap.xml -> home page, every town × service page with at least one
+// business on it, and each business's public /b/:slug page. Coverage for
+// every town and service comes back from a single town_coverage RPC (see
+// _lib/seoPages.js); the result is cached at the CDN for a day.
+import { listTowns } from "./_lib/geocode.js";
+import { getSupabaseAdmin, siteUrl } from "./_lib/searchAlerts.js";
+import { SEO_SERVICES, coverageKey, pagePath, renderSitemap, townCoverage } from "./_lib/seoPages.js";
+
+export default async () => {
+  try {
+    const sb = getSupabaseAdmin();
+    const base = siteUrl();
+    const towns = await listTowns();
+
+    let coverage = new Map();
+    if (towns.length) {
+      try {
+        coverage = await townCoverage(sb, towns, SEO_SERVICES.map((s) => s.slug));
+      } catch (e) {
+        console.warn("[sitemap] town coverage failed:", e?.message || e);
+      }
+    }
+
+    const townPages = SEO_SERVICES.flatMap((service) =>
+      towns
+        .filter((town) => coverage.has(coverageKey(service.slug, town.town)))
+        .map((town) => `${base}${pagePath(service.slug, town.town)}`)
+    );
+
+    const { data: profiles, error } = await sb
+      .from("cleaners")
+      .select("slug")
+      .not("slug", "is", null);
+    if (error) console.warn("[sitemap] profile slugs lookup failed:", error);
+
+    const urls = [
+      `${base}/`,
+      ...townPages,
+      ...(profiles || []).map((p) => `${base}/b/${encodeURIComponent(p.slug)}`),
+    ];
+
+    return new Response(renderSitemap(urls), {
+      status: 200,
+      headers: {
+        "content-type": "application/xml; charset=utf-8",
+        "cache-control": "public, max-age=3600",
+        "netlify-cdn-cache-control": "public, s-maxage=86400, stale-while-revalidate=86400",
+      },
+    });
+  } catch (e) {
+    console.error("[sitemap] error:", e);
+    return new Response("Sitemap unavailable", { status: 500 });
+  }
+};
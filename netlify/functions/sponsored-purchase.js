@@ -1,5 +1,6 @@
 // netlify/functions/sponsored-purchase.js
 import { createClient } from "@supabase/supabase-js";
+import { validateAreaGeometry } from "./_lib/areaGeometry.js";
 
 /**
  * Simple pricing config (env overrides allowed)
@@ -62,6 +63,8 @@ export default async (req) => {
     // ---------- Validation ----------
     if (!cleanerId) return json({ error: "cleanerId is required" }, 400);
     if (!drawnGeoJSON) return json({ error: "drawnGeoJSON is required" }, 400);
+    const issues = validateAreaGeometry(drawnGeoJSON);
+    if (issues.length) return json({ error: "invalid_area", issues }, 422);
 
     const slotNum = Number(slot);
     if (![1, 2, 3].includes(slotNum)) {
@@ -0,0 +1,74 @@
+// scripts/build-postcode-boundaries.mjs
+// Slims postcode district / sector boundaries down to the file
+// netlify/functions/_lib/postcodeBoundaries.js loads
+// (netlify/functions/data/postcode-boundaries.geojson). Run before
+// deploying, e.g.
+//
+//   node scripts/build-postcode-boundaries.mjs districts.geojson sectors.geojson --areas BT
+//
+// Input: GeoJSON FeatureCollections of Polygon / MultiPolygon features in
+// WGS84 (reproject OSGB exports first, e.g. ogr2ogr -t_srs EPSG:4326), with
+// the district ("BT20") or sector ("BT20 5") under one of the property names
+// postcodeBoundaries.js accepts. Everything else is dropped: other
+// properties, points and lines, and coordinate precision past ~1 m.
+//
+// Until this file is deployed the postcode picker is off and businesses
+// draw their areas by hand.
+//
+// Options:
+//   --areas BT,NI       only keep these postcode areas (keeps the bundle small)
+//   --out <file>        default netlify/functions/data/postcode-boundaries.geojson
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { normaliseCode } from "../netlify/functions/_lib/postcodeBoundaries.js";
+
+const CODE_PROPS = ["code", "name", "postcode", "district", "sector"];
+const DECIMALS = 5;
+
+const argv = process.argv.slice(2);
+const args = { _: [] };
+for (let i = 0; i < argv.length; i++) {
+  if (argv[i].startsWith("--")) args[argv[i].slice(2)] = argv[++i];
+  else args._.push(argv[i]);
+}
+
+const out = args.out || "netlify/functions/data/postcode-boundaries.geojson";
+const areas = args.areas ? args.areas.toUpperCase().split(",").map((a) => a.trim()) : null;
+
+if (!args._.length) {
+  console.error(
+    "Usage: node scripts/build-postcode-boundaries.mjs <boundaries.geojson>... [--areas BT] [--out file]"
+  );
+  process.exit(1);
+}
+
+const round = (coords) =>
+  typeof coords[0] === "number" ? coords.map((n) => Number(n.toFixed(DECIMALS))) : coords.map(round);
+
+const byCode = new Map();
+for (const input of args._) {
+  const fc = JSON.parse(readFileSync(input, "utf8"));
+  for (const f of fc.features || []) {
+    if (!["Polygon", "MultiPolygon"].includes(f?.geometry?.type)) continue;
+    const prop = CODE_PROPS.find((p) => f.properties?.[p]);
+    const code = prop && normaliseCode(f.properties[prop]);
+    if (!code) continue;
+    if (areas && !areas.includes(code.replace(/[0-9].*$/, ""))) continue;
+    if (Math.abs(f.geometry.coordinates.flat(3)[1]) > 90) {
+      console.error(`${input}: ${code} isn't in longitude / latitude (WGS84). Reproject the file first.`);
+      process.exit(1);
+    }
+    byCode.set(code, {
+      type: "Feature",
+      properties: { code },
+      geometry: { type: f.geometry.type, coordinates: round(f.geometry.coordinates) },
+    });
+  }
+}
+
+const features = [...byCode.values()].sort((a, b) =>
+  a.properties.code.localeCompare(b.properties.code, "en", { numeric: true })
+);
+mkdirSync(path.dirname(out), { recursive: true });
+writeFileSync(out, JSON.stringify({ type: "FeatureCollection", features }) + "\n");
+console.log(`Wrote ${features.length} districts and sectors to ${out}`);
@@ -0,0 +1,124 @@
+// scripts/build-postcode-dataset.mjs
+// Slims a full postcode directory down to the table geocode.js loads
+// (netlify/functions/data/postcodes.csv). Run before deploying, e.g.
+//
+//   node scripts/build-postcode-dataset.mjs ONSPD_FEB_2026_UK.csv --areas BT \
+//     --towns "Documents/BUA24 names and codes UK as at 04_24.csv,Documents/LA_UA names and codes UK as at 04_23.csv"
+//
+// Input: any CSV with postcode / latitude / longitude columns (and
+// optionally post_town) under the names netlify/functions/_lib/postcodes.js
+// accepts – the ONS Postcode Directory (ONSPD, free from the ONS Open
+// Geography Portal) has pcds, lat and long. Terminated postcodes (ONSPD
+// `doterm`) and rows without a grid reference are dropped.
+//
+// ONSPD has no post town, only area codes (built-up area, local authority).
+// Pass the code -> name lookups from its Documents folder with --towns and
+// each postcode gets the name of the first --town-columns code that has
+// one: its built-up area ("Bangor"), else its council. Without a town the
+// place search, town pages and sitemap have nothing to work with, so the
+// build stops if the input has neither a town column nor --towns.
+//
+// Options:
+//   --areas BT,NI          only keep these postcode areas (keeps the bundle small)
+//   --towns a.csv,b.csv    code -> name lookups (code column *cd, name column *nm)
+//   --town-columns a,b     input columns to name, in order of preference;
+//                          default bua24cd,bua22cd,bua11cd,lad25cd,lad24cd,lad23cd,oslaua
+//   --out <file>           default netlify/functions/data/postcodes.csv
+import { createReadStream, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import { parsePostcode, splitCsvLine } from "../netlify/functions/_lib/postcodes.js";
+
+const argv = process.argv.slice(2);
+const args = { _: [] };
+for (let i = 0; i < argv.length; i++) {
+  if (argv[i].startsWith("--")) args[argv[i].slice(2)] = argv[++i];
+  else args._.push(argv[i]);
+}
+
+const input = args._[0];
+const out = args.out || "netlify/functions/data/postcodes.csv";
+const areas = args.areas ? args.areas.toUpperCase().split(",").map((a) => a.trim()) : null;
+const townColumns = (args["town-columns"] || "bua24cd,bua22cd,bua11cd,lad25cd,lad24cd,lad23cd,oslaua")
+  .toLowerCase()
+  .split(",")
+  .map((c) => c.trim());
+
+if (!input) {
+  console.error(
+    "Usage: node scripts/build-postcode-dataset.mjs <postcodes.csv> [--areas BT] [--towns names.csv] [--out file]"
+  );
+  process.exit(1);
+}
+
+const pick = (header, names) => header.findIndex((h) => names.includes(h));
+const quote = (s) => (/[",]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s);
+
+// "Bangor (Ards and North Down)" -> "BANGOR", in the style of Royal Mail post towns
+const townName = (name) => name.replace(/\s*\(.*\)\s*$/, "").trim().toUpperCase();
+
+// code -> town name from every --towns file
+const townNames = new Map();
+for (const file of args.towns ? args.towns.split(",").map((f) => f.trim()) : []) {
+  const [head, ...body] = readFileSync(file, "utf8").replace(/^\uFEFF/, "").split(/\r?\n/);
+  const header = splitCsvLine(head).map((h) => h.toLowerCase());
+  const codeCol = Math.max(header.findIndex((h) => h.endsWith("cd")), 0);
+  const nameCol = header.findIndex((h) => h.endsWith("nm"));
+  for (const line of body) {
+    const cells = splitCsvLine(line);
+    const name = cells[nameCol < 0 ? 1 : nameCol];
+    if (cells[codeCol] && name) townNames.set(cells[codeCol], townName(name));
+  }
+}
+
+const lines = readline.createInterface({ input: createReadStream(input), crlfDelay: Infinity });
+const rows = ["postcode,latitude,longitude,post_town"];
+let cols = null;
+let kept = 0;
+let withTown = 0;
+
+for await (const line of lines) {
+  if (!line) continue;
+  const cells = splitCsvLine(line);
+  if (!cols) {
+    const header = cells.map((h) => h.toLowerCase());
+    cols = {
+      pc: pick(header, ["postcode", "pcds", "pcd"]),
+      lat: pick(header, ["latitude", "lat"]),
+      lng: pick(header, ["longitude", "long", "lng"]),
+      town: pick(header, ["post_town", "posttown", "town"]),
+      term: pick(header, ["doterm"]),
+      codes: townColumns.map((c) => header.indexOf(c)).filter((i) => i >= 0),
+    };
+    if (cols.pc < 0 || cols.lat < 0 || cols.lng < 0) {
+      console.error("Input needs postcode, latitude and longitude columns.");
+      process.exit(1);
+    }
+    if (cols.town < 0 && (!townNames.size || !cols.codes.length)) {
+      console.error(
+        "Input has no post_town column. Pass --towns with the ONSPD name lookups (see the top of this script)."
+      );
+      process.exit(1);
+    }
+    continue;
+  }
+
+  if (cols.term >= 0 && cells[cols.term]) continue;
+  const parsed = parsePostcode(cells[cols.pc]);
+  if (!parsed?.postcode) continue;
+  if (areas && !areas.includes(parsed.outcode.replace(/[0-9].*$/, ""))) continue;
+  const lat = Number(cells[cols.lat]);
+  const lng = Number(cells[cols.lng]);
+  // ONSPD marks "no grid reference" with 99.999999
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90) continue;
+
+  const named = cols.codes.map((i) => townNames.get(cells[i])).find(Boolean);
+  const town = (cols.town >= 0 && cells[cols.town]) || named || "";
+  rows.push([parsed.postcode, lat, lng, quote(town)].join(","));
+  kept++;
+  if (town) withTown++;
+}
+
+mkdirSync(path.dirname(out), { recursive: true });
+writeFileSync(out, rows.join("\n") + "\n");
+console.log(`Wrote ${kept} postcodes (${withTown} with a town) to ${out}`);
@@ -0,0 +1,47 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { buildPostcodeIndex, lookupPlace } from "../netlify/functions/_lib/postcodes.js";
+
+const SCRIPT = fileURLToPath(new URL("./build-postcode-dataset.mjs", import.meta.url));
+const fixture = (name) => fileURLToPath(new URL(`../netlify/functions/_lib/fixtures/${name}`, import.meta.url));
+const ONSPD = fixture("onspd.csv");
+const TOWNS = `${fixture("onspd-bua-names.csv")},${fixture("onspd-lad-names.csv")}`;
+
+let dir;
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "postcodes-"));
+});
+afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+const build = (...args) => {
+  const out = path.join(dir, "postcodes.csv");
+  execFileSync(process.execPath, [SCRIPT, ONSPD, "--out", out, ...args], { stdio: "pipe" });
+  return readFileSync(out, "utf8");
+};
+
+describe("build-postcode-dataset with ONSPD", () => {
+  it("names towns from the built-up area, else the council", () => {
+    const index = buildPostcodeIndex(build("--areas", "BT", "--towns", TOWNS));
+
+    expect([...index.towns.keys()].sort()).toEqual(["ARDS AND NORTH DOWN", "BANGOR", "BELFAST", "NEWRY, MOURNE AND DOWN"]);
+    expect(index.postcodes.get("BT20 5NF").town).toBe("BANGOR");
+    expect(index.postcodes.get("BT22 1AA").town).toBe("ARDS AND NORTH DOWN");
+    expect(lookupPlace(index, "12 Main Street, Bangor")).toMatchObject({ precision: "town", post_town: "BANGOR" });
+    expect(index.towns.get("BANGOR").points).toHaveLength(2); // BT20 5 and BT19 1
+  });
+
+  it("drops terminated postcodes, missing grid references and other areas", () => {
+    const index = buildPostcodeIndex(build("--areas", "BT", "--towns", TOWNS));
+    expect(index.postcodes.has("BT20 9ZZ")).toBe(false);
+    expect(index.postcodes.has("BT99 9ZZ")).toBe(false);
+    expect(index.postcodes.has("EC1A 1BB")).toBe(false);
+  });
+
+  it("refuses to build a dataset with no towns", () => {
+    expect(() => build("--areas", "BT")).toThrow(/--towns/);
+  });
+});
@@ -0,0 +1,37 @@
+// scripts/inbound-email.mjs
+// Local stand-in for the inbound-email provider: posts a fake reply to
+// enquiry-inbound-email the way the real webhook would.
+//
+//   INBOUND_EMAIL_SECRET=dev node scripts/inbound-email.mjs \
+//     --to t-<token>-c@reply.klean.ly --from customer@example.com \
+//     --text "Tuesday works for me"
+//
+// Options: --to --from --text [--subject] [--url]
+// --url defaults to the `netlify dev` address.
+const args = {};
+const argv = process.argv.slice(2);
+for (let i = 0; i < argv.length; i++) {
+  if (argv[i].startsWith("--")) args[argv[i].slice(2)] = argv[++i];
+}
+
+const url = args.url || "http://localhost:8888/.netlify/functions/enquiry-inbound-email";
+const secret = process.env.INBOUND_EMAIL_SECRET || "";
+
+if (!args.to || !args.from || !args.text) {
+  console.error("Usage: node scripts/inbound-email.mjs --to <relay> --from <email> --text <body>");
+  process.exit(1);
+}
+
+const res = await fetch(url, {
+  method: "POST",
+  headers: { "content-type": "application/json", "x-inbound-secret": secret },
+  body: JSON.stringify({
+    to: args.to,
+    from: args.from,
+    subject: args.subject || "Re: enquiry",
+    // include a quoted block like a real mail client would
+    text: `${args.text}\n\nOn Mon, 1 Jan 2024 at 09:00, Kleanly wrote:\n> previous message`,
+  }),
+});
+
+console.log(res.status, await res.text());
@@ -19,6 +19,10 @@ import Settings from "./pages/Settings";
 import Onboarding from "./pages/Onboarding";
 import Analytics from "./pages/Analytics";
 import Invoices from "./pages/Invoices";
+import Leads from "./pages/Leads";
+import EnquiryConversation from "./pages/EnquiryConversation";
+import BusinessProfile from "./pages/BusinessProfile";
+import AlertAction from "./pages/AlertAction";
 import LegalModal from "./components/LegalModal";
 
 const TERMS_VERSION = "2025-09-29";
@@ -167,6 +171,9 @@ export default function App() {
           <Route path="/" element={<Landing />} />
           <Route path="/login" element={<Login />} />
           <Route path="/onboarding" element={<Onboarding />} />
+          <Route path="/enquiry/:token" element={<EnquiryConversation />} />
+          <Route path="/b/:slug" element={<BusinessProfile />} />
+          <Route path="/alerts/:action" element={<AlertAction />} />
 
           <Route
             path="/dashboard"
@@ -212,6 +219,17 @@ export default function App() {
             }
           />
 
+          <Route
+            path="/leads"
+            element={
+              <ProtectedRoute user={user} loading={loading}>
+                <TermsGate>
+                  <Leads />
+                </TermsGate>
+              </ProtectedRoute>
+            }
+          />
+
           <Route
             path="/_debug"
             element={
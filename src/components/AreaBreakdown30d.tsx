@@ -7,6 +7,7 @@ type Totals = {
   clicks_message: number;
   clicks_website: number;
   clicks_phone: number;
+  leads: number;
 };
 
 type AreaAgg = {
@@ -16,6 +17,7 @@ type AreaAgg = {
   clicks_message: number;
   clicks_website: number;
   clicks_phone: number;
+  leads: number;
 };
 
 type Props = {
@@ -23,7 +25,15 @@ type Props = {
   categoryId?: string | null;
 };
 
-const EVENTS = ["impression", "click_message", "click_website", "click_phone"] as const;
+// enquiries actually sent (recorded by sendEnquiry)
+const LEAD_EVENTS = ["enquiry_sent_email", "enquiry_sent_whatsapp"] as const;
+const EVENTS = [
+  "impression",
+  "click_message",
+  "click_website",
+  "click_phone",
+  ...LEAD_EVENTS,
+] as const;
 type EventName = (typeof EVENTS)[number];
 
 export default function AreaBreakdown30d({ cleanerId, categoryId }: Props) {
@@ -33,6 +43,7 @@ export default function AreaBreakdown30d({ cleanerId, categoryId }: Props) {
     clicks_message: 0,
     clicks_website: 0,
     clicks_phone: 0,
+    leads: 0,
   });
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
@@ -82,18 +93,19 @@ export default function AreaBreakdown30d({ cleanerId, categoryId }: Props) {
             clicks_message: 0,
             clicks_website: 0,
             clicks_phone: 0,
+            leads: 0,
           });
         });
 
         /* ---------------------------------------------------------
          * 2) Load overview totals (for this category)
          * ------------------------------------------------------- */
-        async function countEvent(event: EventName) {
+        async function countEvent(event: EventName | readonly EventName[]) {
           let q = supabase
             .from("analytics_events")
             .select("id", { count: "exact", head: true })
             .eq("cleaner_id", cleanerId)
-            .eq("event", event)
+            .in("event", typeof event === "string" ? [event] : [...event])
             .gte("created_at", sinceIso);
 
           if (categoryFilter) q = q.eq("category_id", categoryFilter);
@@ -103,12 +115,13 @@ export default function AreaBreakdown30d({ cleanerId, categoryId }: Props) {
           return count ?? 0;
         }
 
-        const [impressions, clicks_message, clicks_website, clicks_phone] =
+        const [impressions, clicks_message, clicks_website, clicks_phone, leads] =
           await Promise.all([
             countEvent("impression"),
             countEvent("click_message"),
             countEvent("click_website"),
             countEvent("click_phone"),
+            countEvent(LEAD_EVENTS),
           ]);
 
         const overviewTotals: Totals = {
@@ -116,6 +129,7 @@ export default function AreaBreakdown30d({ cleanerId, categoryId }: Props) {
           clicks_message,
           clicks_website,
           clicks_phone,
+          leads,
         };
 
         /* ---------------------------------------------------------
@@ -144,18 +158,19 @@ export default function AreaBreakdown30d({ cleanerId, categoryId }: Props) {
           if (ev === "click_message") agg.clicks_message++;
           if (ev === "click_website") agg.clicks_website++;
           if (ev === "click_phone") agg.clicks_phone++;
+          if ((LEAD_EVENTS as readonly string[]).includes(ev)) agg.leads++;
         }
 
         /* ---------------------------------------------------------
          * 4) Compute "Unattributed / Outside areas" DIRECTLY (area_id IS NULL)
          *    ✅ avoids fake unattributed caused by category mismatches
          * ------------------------------------------------------- */
-        async function countUnattributed(event: EventName) {
+        async function countUnattributed(event: EventName | readonly EventName[]) {
           let q = supabase
             .from("analytics_events")
             .select("id", { count: "exact", head: true })
             .eq("cleaner_id", cleanerId)
-            .eq("event", event)
+            .in("event", typeof event === "string" ? [event] : [...event])
             .gte("created_at", sinceIso)
             .is("area_id", null);
 
@@ -166,11 +181,12 @@ export default function AreaBreakdown30d({ cleanerId, categoryId }: Props) {
           return count ?? 0;
         }
 
-        const [uImp, uMsg, uWeb, uPhone] = await Promise.all([
+        const [uImp, uMsg, uWeb, uPhone, uLeads] = await Promise.all([
           countUnattributed("impression"),
           countUnattributed("click_message"),
           countUnattributed("click_website"),
           countUnattributed("click_phone"),
+          countUnattributed(LEAD_EVENTS),
         ]);
 
         const unattributed: AreaAgg = {
@@ -180,13 +196,15 @@ export default function AreaBreakdown30d({ cleanerId, categoryId }: Props) {
           clicks_message: uMsg,
           clicks_website: uWeb,
           clicks_phone: uPhone,
+          leads: uLeads,
         };
 
         const hasUnattributed =
           unattributed.impressions +
             unattributed.clicks_message +
             unattributed.clicks_website +
-            unattributed.clicks_phone >
+            unattributed.clicks_phone +
+            unattributed.leads >
           0;
 
         const finalRows = Array.from(areaMap.values()).sort((a, b) =>
@@ -220,9 +238,10 @@ export default function AreaBreakdown30d({ cleanerId, categoryId }: Props) {
         acc.msg += r.clicks_message;
         acc.web += r.clicks_website;
         acc.phone += r.clicks_phone;
+        acc.leads += r.leads;
         return acc;
       },
-      { impressions: 0, msg: 0, web: 0, phone: 0 }
+      { impressions: 0, msg: 0, web: 0, phone: 0, leads: 0 }
     );
   }, [rows]);
 
@@ -248,6 +267,7 @@ export default function AreaBreakdown30d({ cleanerId, categoryId }: Props) {
                 <th className="py-2 px-3">Clicks (Phone)</th>
                 <th className="py-2 px-3">Total Clicks</th>
                 <th className="py-2 px-3">CTR</th>
+                <th className="py-2 px-3">Leads</th>
               </tr>
             </thead>
 
@@ -289,6 +309,7 @@ export default function AreaBreakdown30d({ cleanerId, categoryId }: Props) {
                     <td className="py-2 px-3">{r.clicks_phone}</td>
                     <td className="py-2 px-3">{total}</td>
                     <td className="py-2 px-3">{ctr}</td>
+                    <td className="py-2 px-3">{r.leads}</td>
                   </tr>
                 );
               })}
@@ -307,6 +328,7 @@ export default function AreaBreakdown30d({ cleanerId, categoryId }: Props) {
                     ? `${(((totals.msg + totals.web + totals.phone) / totals.impressions) * 100).toFixed(1)}%`
                     : "—"}
                 </td>
+                <td className="py-2 px-3">{totals.leads}</td>
               </tr>
             </tfoot>
           </table>
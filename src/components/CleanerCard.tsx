@@ -3,6 +3,17 @@ import React, { useMemo, useRef, useState } from "react";
 import { Autocomplete } from "@react-google-maps/api";
 import { getOrCreateSessionId, recordEventFetch } from "../lib/analytics";
 import { PAYMENT_METHODS } from "../constants/paymentMethods";
+import { SERVICE_LABEL, type ServiceSlug } from "../constants/services";
+import { BIN_SIZES, type BinSizeKey } from "../constants/binSizes";
+import {
+  MAX_BIN_QTY,
+  QUOTE_FREQUENCIES,
+  formatPence,
+  indicativeTotalCents,
+  quoteSummary,
+  type QuoteFrequency,
+  type QuoteLine,
+} from "../constants/quoteRequest";
 
 type Cleaner = {
   cleaner_id?: string;
@@ -16,12 +27,25 @@ type Cleaner = {
 
   payment_methods?: string[] | null;
 
+  // bin_cleaning offerings (ServicesMenu) for the quote request
+  bin_sizes?: string[] | null;
+  bin_prices?: Record<string, number | null> | null;
+
   area_id?: string | null;
   area_name?: string | null;
   category_id?: string | null;
+  distance_miles?: number | null;
 
   is_covering_sponsor?: boolean;
 
+  // set on multi-category searches: which of the requested services they cover
+  categories?: {
+    slug: ServiceSlug;
+    category_id: string | null;
+    area_id: string | null;
+    is_covering_sponsor: boolean;
+  }[];
+
   google_rating?: number | null;
   google_reviews_count?: number | null;
   google_place_id?: string | null; // ✅ add this
@@ -42,8 +66,14 @@ type Props = {
 
   originLat?: number | null;
   originLng?: number | null;
+
+  // where the card is shown, added to click event meta (e.g. "profile")
+  source?: string;
 };
 
+// keep in step with MIN_FILL_MS in netlify/functions/_lib/enquiryGuard.js
+const MIN_FILL_MS = 3000;
+
 function normalizeUrl(u: string) {
   const trimmed = u.trim();
   if (!trimmed) return "";
@@ -89,9 +119,11 @@ export default function CleanerCard({
   cleaner,
   areaId,
   categoryId,
+  postcodeHint,
   position,
   featured,
   showPayments = true,
+  source,
 }: Props) {
   const sessionId = useMemo(() => getOrCreateSessionId(), []);
 
@@ -133,11 +165,18 @@ export default function CleanerCard({
   const [enqEmail, setEnqEmail] = useState("");
   const [enqMessage, setEnqMessage] = useState("");
 
+  // quote request: quantity per bin size + how often
+  const [quoteQty, setQuoteQty] = useState<Partial<Record<BinSizeKey, number>>>({});
+  const [quoteFrequency, setQuoteFrequency] = useState<QuoteFrequency>("one_off");
+
   const [enqError, setEnqError] = useState<string | null>(null);
   const [enqSending, setEnqSending] = useState(false);
   const [enqSent, setEnqSent] = useState(false);
 
   const [enqAccepted, setEnqAccepted] = useState(false);
+  // spam checks: bots fill the hidden field and submit instantly
+  const [enqHoneypot, setEnqHoneypot] = useState("");
+  const enqOpenedAt = useRef(0);
   const [lastChannel, setLastChannel] = useState<"email" | "whatsapp" | null>(
     null
   );
@@ -162,6 +201,22 @@ export default function CleanerCard({
     try {
       if (isPreview) return;
 
+      // multi-category result: attribute the click to every matched
+      // category, same as its impressions
+      if (cleaner.categories && cleaner.categories.length > 1) {
+        cleaner.categories.forEach((cat) => {
+          void recordEventFetch({
+            event,
+            cleanerId,
+            areaId: cat.area_id,
+            categoryId: cat.category_id,
+            sessionId,
+            meta: { position: position ?? null, service_slug: cat.slug, source },
+          });
+        });
+        return;
+      }
+
       const resolvedAreaId = cleaner.area_id ?? areaId ?? null;
       const resolvedCategoryId = cleaner.category_id ?? categoryId ?? null;
 
@@ -171,19 +226,39 @@ export default function CleanerCard({
         areaId: resolvedAreaId,
         categoryId: resolvedCategoryId,
         sessionId,
-        meta: { position: position ?? null },
+        meta: { position: position ?? null, source },
       });
     } catch (e) {
       console.warn("record click failed", e);
     }
   }
 
+  const offeredSizes = useMemo(() => {
+    const offered = new Set(cleaner.bin_sizes ?? []);
+    return BIN_SIZES.filter((b) => offered.has(b.key));
+  }, [cleaner.bin_sizes]);
+
+  const quoteLines: QuoteLine[] = useMemo(
+    () =>
+      offeredSizes
+        .map((b) => ({ size: b.key, qty: quoteQty[b.key] ?? 0 }))
+        .filter((l) => l.qty > 0),
+    [offeredSizes, quoteQty]
+  );
+
+  const quoteTotal = indicativeTotalCents(quoteLines, cleaner.bin_prices ?? {});
+
+  function setQty(size: BinSizeKey, qty: number) {
+    setQuoteQty((prev) => ({ ...prev, [size]: Math.max(0, Math.min(MAX_BIN_QTY, qty)) }));
+    setEnqSent(false);
+  }
+
   const canSend =
     enqName.trim().length > 0 &&
     enqAddress.trim().length > 0 &&
     enqPhone.trim().length > 0 &&
     isValidEmail(enqEmail) &&
-    enqMessage.trim().length > 0 &&
+    (enqMessage.trim().length > 0 || quoteLines.length > 0) &&
     enqAccepted &&
     !enqSending;
 
@@ -194,9 +269,12 @@ export default function CleanerCard({
       `Address: ${enqAddress || "-"}\n` +
       `Phone: ${enqPhone || "-"}\n` +
       `Email: ${enqEmail || "-"}\n\n` +
+      (quoteLines.length
+        ? `Quote: ${quoteSummary(quoteLines, quoteFrequency)}\n\n`
+        : "") +
       `${enqMessage || ""}`;
     return text;
-  }, [name, enqName, enqAddress, enqPhone, enqEmail, enqMessage]);
+  }, [name, enqName, enqAddress, enqPhone, enqEmail, enqMessage, quoteLines, quoteFrequency]);
 
   function validateOrSetError(): boolean {
     if (!enqName.trim()) return setEnqError("Please enter your name."), false;
@@ -206,7 +284,7 @@ export default function CleanerCard({
       return setEnqError("Please enter your phone number."), false;
     if (!isValidEmail(enqEmail))
       return setEnqError("Please enter a valid email address."), false;
-    if (!enqMessage.trim())
+    if (!enqMessage.trim() && !quoteLines.length)
       return setEnqError("Please enter your message."), false;
     if (!enqAccepted)
       return (
@@ -215,6 +293,11 @@ export default function CleanerCard({
         ),
         false
       );
+    if (Date.now() - enqOpenedAt.current < MIN_FILL_MS)
+      return (
+        setEnqError("That was quick! Please check your details and try again."),
+        false
+      );
     setEnqError(null);
     return true;
   }
@@ -230,8 +313,18 @@ export default function CleanerCard({
       phone: enqPhone,
       email: enqEmail,
       message: enqMessage,
+      quote: quoteLines.length
+        ? { frequency: quoteFrequency, lines: quoteLines }
+        : null,
       acknowledged: enqAccepted,
       channel,
+      // search context, stored with the enquiry
+      areaId: cleaner.area_id ?? areaId ?? null,
+      categoryId: cleaner.category_id ?? categoryId ?? null,
+      postcode: postcodeHint ?? null,
+      sessionId,
+      website: enqHoneypot,
+      elapsedMs: Date.now() - enqOpenedAt.current,
     };
 
     const res = await fetch("/.netlify/functions/sendEnquiry", {
@@ -301,17 +394,21 @@ export default function CleanerCard({
     setEnqSent(false);
     setEnqAccepted(false);
     setLastChannel(null);
+    setEnqHoneypot("");
 
     setEnqName("");
     setEnqAddress("");
     setEnqPhone("");
     setEnqEmail("");
     setEnqMessage("");
+    setQuoteQty({});
+    setQuoteFrequency("one_off");
   }
 
   function openEnquiry() {
     if (isPreview) return;
     setShowEnquiry(true);
+    enqOpenedAt.current = Date.now();
     setEnqError(null);
     setEnqSent(false);
     setEnqAccepted(false);
@@ -394,6 +491,38 @@ export default function CleanerCard({
 )}
 
 
+              {(typeof cleaner.distance_miles === "number" || cleaner.area_name) && (
+                <div className="text-xs text-gray-500 mt-1 truncate">
+                  📍{" "}
+                  {typeof cleaner.distance_miles === "number"
+                    ? `${cleaner.distance_miles < 0.1 ? "<0.1" : cleaner.distance_miles.toFixed(1)} mi away`
+                    : ""}
+                  {typeof cleaner.distance_miles === "number" && cleaner.area_name
+                    ? " • "
+                    : ""}
+                  {cleaner.area_name ? `Covers ${cleaner.area_name}` : ""}
+                </div>
+              )}
+
+              {cleaner.categories && cleaner.categories.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1.5">
+                  {cleaner.categories.map((cat) => (
+                    <span
+                      key={cat.slug}
+                      className={[
+                        "inline-flex items-center rounded-full px-2 py-0.5 text-[11px] font-semibold",
+                        cat.is_covering_sponsor
+                          ? "bg-emerald-600 text-white"
+                          : "bg-emerald-50 text-emerald-800 border border-emerald-100",
+                      ].join(" ")}
+                    >
+                      {SERVICE_LABEL[cat.slug] ?? cat.slug}
+                      {cat.is_covering_sponsor ? " • Sponsored" : ""}
+                    </span>
+                  ))}
+                </div>
+              )}
+
               {/* ✅ Payments: DESKTOP ONLY (hide on mobile) */}
               {showPayments && methods.length > 0 && (
                 <div className="hidden sm:flex mt-3 items-center gap-2 flex-wrap">
@@ -647,7 +776,107 @@ export default function CleanerCard({
                   ) : null}
                 </Field>
 
-                <Field label="Your Message *">
+                {/* honeypot: off-screen, skipped by keyboard and screen readers */}
+                <div
+                  aria-hidden="true"
+                  className="absolute -left-[9999px] h-px w-px overflow-hidden"
+                >
+                  <label>
+                    Website
+                    <input
+                      tabIndex={-1}
+                      autoComplete="off"
+                      value={enqHoneypot}
+                      onChange={(e) => setEnqHoneypot(e.target.value)}
+                    />
+                  </label>
+                </div>
+
+                {offeredSizes.length > 0 && (
+                  <Field label="Bins to clean">
+                    <div className="rounded-xl border border-black/10 divide-y divide-black/5">
+                      {offeredSizes.map((b) => {
+                        const qty = quoteQty[b.key] ?? 0;
+                        const price = cleaner.bin_prices?.[b.key];
+                        return (
+                          <div
+                            key={b.key}
+                            className="flex items-center justify-between gap-3 px-3 py-2"
+                          >
+                            <div className="text-sm">
+                              <span className="font-medium">{b.label}</span>
+                              {b.commercial ? (
+                                <span className="text-xs text-gray-500"> • commercial</span>
+                              ) : null}
+                              {typeof price === "number" ? (
+                                <span className="text-xs text-gray-500">
+                                  {" "}
+                                  • {formatPence(price)} each
+                                </span>
+                              ) : null}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <button
+                                type="button"
+                                className="h-8 w-8 rounded-full border border-black/10 text-sm font-semibold disabled:opacity-40"
+                                onClick={() => setQty(b.key, qty - 1)}
+                                disabled={qty === 0}
+                                aria-label={`Fewer ${b.label} bins`}
+                              >
+                                −
+                              </button>
+                              <span className="w-6 text-center text-sm tabular-nums">{qty}</span>
+                              <button
+                                type="button"
+                                className="h-8 w-8 rounded-full border border-black/10 text-sm font-semibold disabled:opacity-40"
+                                onClick={() => setQty(b.key, qty + 1)}
+                                disabled={qty >= MAX_BIN_QTY}
+                                aria-label={`More ${b.label} bins`}
+                              >
+                                +
+                              </button>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      {QUOTE_FREQUENCIES.map((f) => (
+                        <button
+                          key={f.key}
+                          type="button"
+                          onClick={() => {
+                            setQuoteFrequency(f.key);
+                            setEnqSent(false);
+                          }}
+                          className={[
+                            "rounded-full border px-3 py-1 text-xs font-semibold transition",
+                            quoteFrequency === f.key
+                              ? "bg-blue-600 text-white border-blue-600"
+                              : "bg-white text-gray-700 border-black/10 hover:border-black/20",
+                          ].join(" ")}
+                        >
+                          {f.label}
+                        </button>
+                      ))}
+                    </div>
+
+                    {quoteLines.length > 0 && (
+                      <p className="text-xs text-gray-600">
+                        {quoteTotal != null
+                          ? `Indicative price: ${formatPence(quoteTotal)} per clean. The business will confirm.`
+                          : "The business will reply with a price."}
+                      </p>
+                    )}
+                  </Field>
+                )}
+
+                <Field
+                  label={
+                    quoteLines.length ? "Anything else?" : "Your Message *"
+                  }
+                >
                   <textarea
                     className="min-h-[120px] w-full rounded-xl border border-black/10 px-3 py-2 outline-none focus:ring-2 focus:ring-blue-500/25"
                     value={enqMessage}
@@ -656,7 +885,7 @@ export default function CleanerCard({
                       setEnqSent(false);
                     }}
                     placeholder="What do you need? Any notes…"
-                    required
+                    required={!quoteLines.length}
                   />
                 </Field>
 
@@ -3,12 +3,13 @@ import { useMemo, useRef, useState } from "react";
 import { supabase } from "../lib/supabase";
 import {
   GoogleMap,
-  useLoadScript,
   DrawingManager,
   Polygon as GPolygon,
   StandaloneSearchBox,
 } from "@react-google-maps/api";
-import type { Libraries } from "@react-google-maps/api";
+import { useGoogleMaps } from "../lib/googleMaps";
+import { areaErrorMessage } from "../lib/areaGeometry";
+import { saveServiceArea } from "../lib/serviceAreas";
 
 export type Cleaner = {
   id: string;
@@ -77,12 +78,7 @@ export default function CleanerOnboard({ userId, cleaner, onSaved }: Props) {
   const addressTrimmed = (address ?? "").trim();
   const canSave = Boolean(addressTrimmed) && !saving;
 
-  // Memoize libraries with correct type to avoid warnings & TS errors
-  const libraries = useMemo<Libraries>(() => ["drawing", "places"], []);
-  const { isLoaded, loadError } = useLoadScript({
-    googleMapsApiKey: import.meta.env.VITE_GOOGLE_MAPS_KEY as string,
-    libraries,
-  });
+  const { isLoaded, loadError } = useGoogleMaps();
 
   const center = useMemo(() => ({ lat: 54.6079, lng: -5.9264 }), []);
   const searchBoxRef = useRef<google.maps.places.SearchBox | null>(null);
@@ -186,13 +182,19 @@ export default function CleanerOnboard({ userId, cleaner, onSaved }: Props) {
 
       if (ring && ring.length >= 4) {
         const coords = ring.map(({ lng, lat }) => [lng, lat]) as [number, number][];
-        const geojson = { type: "MultiPolygon", coordinates: [[coords]] };
-        const { error: areaErr } = await supabase.rpc("insert_service_area", {
-          cleaner_id: cleaner.id,
-          gj: geojson,
-          name: "Primary Area",
-        });
-        if (areaErr) throw areaErr;
+        try {
+          await saveServiceArea({
+            areaId: null,
+            cleanerId: cleaner.id,
+            categoryId: null,
+            name: "Primary Area",
+            gj: { type: "MultiPolygon", coordinates: [[coords]] },
+            postcodeCodes: null,
+          });
+        } catch (areaErr: unknown) {
+          const message = areaErr instanceof Error ? areaErr.message : "";
+          throw new Error(areaErrorMessage(message) || message || "Failed to save the area.");
+        }
       }
 
       setMsg("Saved! You can now start receiving leads.");
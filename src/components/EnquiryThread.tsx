@@ -0,0 +1,166 @@
+// src/components/EnquiryThread.tsx
+// Conversation for one enquiry, used by the business (Leads) and the
+// customer (/enquiry/:token). Messages sent here are also emailed to the
+// other side through the relay address.
+import { useCallback, useEffect, useState } from "react";
+import {
+  fetchThread,
+  postThreadMessage,
+  type ThreadMessage,
+  type ThreadRef,
+  type ThreadView,
+} from "../lib/enquiryThread";
+import { renderReplyTemplate, type ReplySnippet } from "../lib/replyTemplates";
+
+type Props = {
+  threadRef: ThreadRef;
+  onLoaded?: (view: ThreadView) => void;
+  // business side: canned replies (Settings → Reply snippets)
+  snippets?: ReplySnippet[];
+  areaName?: string | null;
+};
+
+function fmtDateTime(iso: string) {
+  return new Date(iso).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function EnquiryThread({ threadRef, onLoaded, snippets, areaName }: Props) {
+  const [view, setView] = useState<ThreadView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const refKey = "token" in threadRef ? `t:${threadRef.token}` : `e:${threadRef.enquiryId}`;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const v = await fetchThread(threadRef);
+      setView(v);
+      onLoaded?.(v);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to load conversation.");
+    } finally {
+      setLoading(false);
+    }
+    // threadRef is a fresh object each render; refKey identifies it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refKey]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function send() {
+    const text = draft.trim();
+    if (!text) return;
+    setSending(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const { message, delivered } = await postThreadMessage(threadRef, text);
+      setView((prev) =>
+        prev ? { ...prev, messages: [...prev.messages, message as ThreadMessage] } : prev
+      );
+      setDraft("");
+      if (!delivered) setNotice("Saved, but the email notification couldn’t be sent.");
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to send message.");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  function insertSnippet(id: string) {
+    const snippet = snippets?.find((s) => s.id === id);
+    if (!snippet || !view) return;
+    const text = renderReplyTemplate(snippet.body, {
+      customer_name: view.enquiry.customer_name,
+      business_name: view.enquiry.business_name,
+      area: areaName ?? null,
+    });
+    setDraft((d) => (d.trim() ? `${d.trimEnd()}\n\n${text}` : text));
+  }
+
+  const me = view?.viewer;
+  const otherName =
+    me === "business" ? view?.enquiry.customer_name || "Customer" : view?.enquiry.business_name || "Business";
+
+  return (
+    <div className="space-y-3">
+      {loading && !view ? <div className="muted text-sm">Loading conversation…</div> : null}
+      {error ? <div className="text-sm text-red-600">{error}</div> : null}
+
+      {view && (
+        <ul className="space-y-2">
+          {view.messages.map((m) => {
+            const mine = m.sender === me;
+            return (
+              <li key={m.id} className={mine ? "flex justify-end" : "flex justify-start"}>
+                <div
+                  className={[
+                    "max-w-[85%] rounded-2xl px-3 py-2 text-sm whitespace-pre-line",
+                    mine ? "bg-emerald-600 text-white" : "bg-ink-50 text-gray-900",
+                  ].join(" ")}
+                >
+                  <div className={mine ? "text-[11px] text-emerald-100" : "text-[11px] text-gray-500"}>
+                    {mine ? "You" : otherName} • {fmtDateTime(m.created_at)}
+                    {m.via === "email" ? " • by email" : ""}
+                  </div>
+                  {m.body}
+                </div>
+              </li>
+            );
+          })}
+          {!view.messages.length && <li className="muted text-sm">No messages yet.</li>}
+        </ul>
+      )}
+
+      {view && (
+        <div>
+          <textarea
+            className="input w-full min-h-[80px]"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={`Reply to ${otherName}…`}
+            disabled={sending}
+          />
+          <div className="mt-2 flex items-center justify-between gap-2">
+            <span className="text-xs text-gray-500">
+              {notice ?? "Your email address isn’t shared."}
+            </span>
+            <span className="flex items-center gap-2">
+              {me === "business" && snippets && snippets.length > 0 && (
+                <select
+                  className="input text-sm"
+                  value=""
+                  onChange={(e) => insertSnippet(e.target.value)}
+                  disabled={sending}
+                  aria-label="Insert a saved reply"
+                >
+                  <option value="">Insert snippet…</option>
+                  {snippets.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.title}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button className="btn btn-primary" onClick={send} disabled={sending || !draft.trim()}>
+                {sending ? "Sending…" : "Send"}
+              </button>
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,367 +1,444 @@
-// src/components/FindCleaners.tsx
-import { useEffect, useRef, useState } from "react";
-import { supabase } from "../lib/supabase";
-import { getOrCreateSessionId, recordEventFetch } from "../lib/analytics";
-
-export type ServiceSlug = "bin-cleaner" | "window-cleaner" | "cleaner";
-
-export type FindCleanersProps = {
-  serviceSlug: ServiceSlug;
-  onSearchStart?: () => void;
-  onSearchComplete?: (
-    results: MatchOut[],
-    postcode: string,
-    locality?: string,
-    lat?: number,
-    lng?: number
-  ) => void;
-};
-
-type RpcRow = {
-  cleaner_id: string;
-  business_name: string | null;
-  area_id: string | null;
-  area_name: string | null;
-  is_covering_sponsor: boolean | null;
-
-  // (optional) if RPC returns these, fine; if not, we still pull from cleaners table
-  google_rating?: number | null;
-  google_reviews_count?: number | null;
-};
-
-export type MatchOut = {
-  cleaner_id: string;
-  business_name: string | null;
-  logo_url: string | null;
-  website: string | null;
-  phone: string | null;
-  whatsapp: string | null;
-  payment_methods: string[];
-  service_types: string[];
-  rating_avg: number | null;
-  rating_count: number | null;
-
-  // ✅ NEW: google rating fields
-  google_rating?: number | null;
-  google_reviews_count?: number | null;
-
-  area_id: string | null;
-  area_name?: string | null;
-  is_covering_sponsor?: boolean;
-  category_id?: string | null; // used by cards + analytics
-};
-
-function toArray(v: unknown): string[] {
-  if (!v) return [];
-  if (Array.isArray(v)) return v as string[];
-  if (typeof v === "string") {
-    try {
-      const parsed = JSON.parse(v);
-      if (Array.isArray(parsed)) return parsed as string[];
-    } catch {}
-    return v
-      .split(",")
-      .map((s) => s.trim())
-      .filter(Boolean);
-  }
-  return [];
-}
-
-function shuffle<T>(arr: T[]): T[] {
-  // Fisher–Yates shuffle (non-mutating)
-  const a = [...arr];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
-  }
-  return a;
-}
-
-const FRIENDLY_BAD_POSTCODE =
-  "Hmm… we couldn’t recognise that postcode.\nDouble-check it or try a nearby postcode.";
-
-export default function FindCleaners({
-  onSearchComplete,
-  onSearchStart,
-  serviceSlug,
-}: FindCleanersProps) {
-  const [postcode, setPostcode] = useState("");
-  const [loading, setLoading] = useState(false);
-  const [results, setResults] = useState<MatchOut[]>([]);
-  const [error, setError] = useState<string | null>(null);
-
-  // stop duplicate impressions for the exact same search+result count
-  const lastImpressionKey = useRef<string>("");
-
-  // service_categories.id lookup (so analytics filters work)
-  const categoryIdRef = useRef<string | null>(null);
-
-  // ✅ remember last successful search so tab switching can re-run it
-  const hasSearchedOnceRef = useRef(false);
-  const lastSearchedPostcodeRef = useRef<string>("");
-
-  // ✅ hard guard: prevents infinite auto-search loops
-  const lastAutoSearchKeyRef = useRef<string>("");
-
-  useEffect(() => {
-    let cancelled = false;
-
-    async function loadCategoryId() {
-      const { data, error } = await supabase
-        .from("service_categories")
-        .select("id")
-        .eq("slug", serviceSlug)
-        .maybeSingle();
-
-      if (!cancelled) categoryIdRef.current = error ? null : data?.id ?? null;
-    }
-
-    categoryIdRef.current = null;
-    void loadCategoryId();
-
-    return () => {
-      cancelled = true;
-    };
-  }, [serviceSlug]);
-
-  async function lookup(ev?: React.FormEvent, postcodeOverride?: string) {
-    ev?.preventDefault();
-    setError(null);
-
-    onSearchStart?.();
-    if (!onSearchComplete) setResults([]);
-
-    const pc = (postcodeOverride ?? postcode)
-      .trim()
-      .toUpperCase()
-      .replace(/\s+/g, " ");
-    if (!pc) {
-      setError("Please enter a postcode.");
-      return;
-    }
-
-    // ✅ store last searched postcode so switching tabs can re-run it
-    hasSearchedOnceRef.current = true;
-    lastSearchedPostcodeRef.current = pc;
-
-    try {
-      setLoading(true);
-
-      // 1) Geocode
-      const res = await fetch(
-        `https://api.postcodes.io/postcodes/${encodeURIComponent(pc)}`
-      );
-
-      if (!res.ok) {
-        if (res.status === 404 || res.status === 400) {
-          setError(FRIENDLY_BAD_POSTCODE);
-          return;
-        }
-        setError("Couldn’t look up that postcode. Please try again.");
-        return;
-      }
-
-      const geo = await res.json();
-      if (geo.status !== 200 || !geo.result) {
-        setError(FRIENDLY_BAD_POSTCODE);
-        return;
-      }
-
-      const lat: number = Number(geo.result.latitude);
-      const lng: number = Number(geo.result.longitude);
-      const town: string =
-        geo.result.post_town ||
-        geo.result.admin_district ||
-        geo.result.parliamentary_constituency ||
-        geo.result.region ||
-        "";
-
-      // 2) RPC returns eligible cleaners + sponsor flags + matched area
-      const { data: rpcRows, error: rpcErr } = await supabase.rpc(
-        "search_cleaners",
-        {
-          p_category_slug: serviceSlug,
-          p_lat: lat,
-          p_lng: lng,
-        }
-      );
-
-      if (rpcErr) {
-        setError(rpcErr.message);
-        return;
-      }
-
-      const rows: RpcRow[] = (rpcRows || []) as any;
-
-      const eligibleIds = rows.map((r) => r.cleaner_id).filter(Boolean);
-      if (eligibleIds.length === 0) {
-        const none: MatchOut[] = [];
-        if (!onSearchComplete) setResults(none);
-        onSearchComplete?.(none, pc, town, lat, lng);
-        return;
-      }
-
-      // 3) Fetch full cleaner details for eligible IDs
-      // ✅ IMPORTANT: include google fields here
-      const { data: cleaners, error: cleanersErr } = await supabase
-        .from("cleaners")
-        .select(
-          "id, business_name, logo_url, website, phone, whatsapp, payment_methods, service_types, rating_avg, rating_count, google_rating, google_reviews_count"
-        )
-        .in("id", eligibleIds);
-
-      if (cleanersErr) {
-        setError(cleanersErr.message);
-        return;
-      }
-
-      // map rpc by cleaner_id so we keep sponsor + area fields
-      const rpcById = new Map<string, RpcRow>();
-      rows.forEach((r) => rpcById.set(r.cleaner_id, r));
-
-      const categoryId = categoryIdRef.current;
-
-      const normalized: MatchOut[] = (cleaners || []).map((c: any) => {
-        const r = rpcById.get(c.id);
-        return {
-          cleaner_id: c.id,
-          business_name: c.business_name ?? r?.business_name ?? null,
-          logo_url: c.logo_url ?? null,
-          website: c.website ?? null,
-          phone: c.phone ?? null,
-          whatsapp: c.whatsapp ?? null,
-          payment_methods: toArray(c.payment_methods),
-          service_types: toArray(c.service_types),
-          rating_avg: c.rating_avg ?? null,
-          rating_count: c.rating_count ?? null,
-
-          // ✅ PASS THROUGH google rating fields
-          google_rating: c.google_rating ?? r?.google_rating ?? null,
-          google_reviews_count:
-            c.google_reviews_count ?? r?.google_reviews_count ?? null,
-
-          area_id: r?.area_id ?? null,
-          area_name: r?.area_name ?? null,
-          is_covering_sponsor: Boolean(r?.is_covering_sponsor),
-          category_id: categoryId,
-        };
-      });
-
-      // live-only
-      const liveOnly = normalized.filter(
-        (r) => r.phone || r.whatsapp || r.website
-      );
-
-      // 4) Order: sponsored first (stable), then shuffle the rest randomly
-      const sponsored = liveOnly.filter((x) => x.is_covering_sponsor);
-      const nonSponsored = liveOnly.filter((x) => !x.is_covering_sponsor);
-      const ordered = [...sponsored, ...shuffle(nonSponsored)];
-
-      // 5) Record impressions
-      try {
-        const sessionId = getOrCreateSessionId();
-        const searchId = crypto.randomUUID();
-        const sponsoredCount = sponsored.length;
-
-        const impressionKey = `${pc}|${serviceSlug}|${lat.toFixed(
-          5
-        )}|${lng.toFixed(5)}|${ordered.length}`;
-
-        if (lastImpressionKey.current !== impressionKey) {
-          lastImpressionKey.current = impressionKey;
-
-          await Promise.all(
-            ordered.map((r, idx) =>
-              recordEventFetch({
-                event: "impression",
-                cleanerId: r.cleaner_id,
-                areaId: r.area_id ?? null,
-                categoryId: r.category_id ?? null,
-                sessionId,
-                meta: {
-                  search_id: searchId,
-                  postcode: pc,
-                  town,
-                  locality: town,
-                  service_slug: serviceSlug,
-                  area_id: r.area_id ?? null,
-                  area_name: r.area_name ?? null,
-                  position: idx + 1,
-                  is_sponsored: Boolean(r.is_covering_sponsor),
-                  results_count: ordered.length,
-                  sponsored_count: sponsoredCount,
-                  lat,
-                  lng,
-                },
-              })
-            )
-          );
-        }
-      } catch (e) {
-        console.warn("impression logging failed", e);
-      }
-
-      // 6) Update UI
-      if (!onSearchComplete) setResults(ordered);
-      onSearchComplete?.(ordered, pc, town, lat, lng);
-    } catch (e: any) {
-      console.error("FindCleaners lookup error:", e);
-      setError("Something went wrong. Please try again.");
-    } finally {
-      setLoading(false);
-    }
-  }
-
-  // ✅ when user switches service tab, re-run last searched postcode automatically (ONCE)
-  useEffect(() => {
-    if (!hasSearchedOnceRef.current) return;
-    if (loading) return;
-
-    const pc = lastSearchedPostcodeRef.current;
-    if (!pc) return;
-
-    const key = `${serviceSlug}|${pc}`;
-    if (lastAutoSearchKeyRef.current === key) return; // ✅ prevents loops
-    lastAutoSearchKeyRef.current = key;
-
-    setPostcode(pc); // keep input synced
-    void lookup(undefined, pc);
-    // intentionally only depends on serviceSlug
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [serviceSlug]);
-
-  return (
-    <div className="space-y-3">
-      <form onSubmit={lookup} className="flex gap-2">
-        <input
-          className="h-11 w-full rounded-xl border border-black/10 bg-white px-4 text-sm outline-none focus:ring-2 focus:ring-emerald-500/40"
-          placeholder="Enter postcode (e.g., BT20 5NF)"
-          value={postcode}
-          onChange={(e) => setPostcode(e.target.value)}
-        />
-        <button
-          type="submit"
-          className="h-11 shrink-0 rounded-xl bg-emerald-700 px-5 text-sm font-semibold text-white hover:bg-emerald-800 disabled:opacity-60"
-          disabled={loading}
-        >
-          {loading ? "Searching…" : "Search"}
-        </button>
-      </form>
-
-      {error && (
-        <div className="mt-1 flex items-start gap-3 rounded-xl border border-emerald-100 bg-emerald-50 px-4 py-3 text-sm text-emerald-900">
-          <span className="text-lg leading-none">📍</span>
-          <span className="whitespace-pre-line">{error}</span>
-        </div>
-      )}
-
-      {!onSearchComplete && results.length > 0 && (
-        <div className="text-sm text-gray-600">
-          Found {results.length} cleaners.
-        </div>
-      )}
-    </div>
-  );
-}
-
-
+// src/components/FindCleaners.tsx
+import { useEffect, useRef, useState } from "react";
+import { Autocomplete } from "@react-google-maps/api";
+import { getOrCreateSessionId } from "../lib/analytics";
+import { useGoogleMaps } from "../lib/googleMaps";
+import type { ServiceSlug } from "../constants/services";
+
+export type { ServiceSlug };
+
+// how the customer told us where they are (recorded in impression meta)
+export type SearchInputMode = "postcode" | "address" | "geolocation";
+
+type SearchQuery =
+  | { inputMode: "postcode"; postcode: string }
+  | {
+      inputMode: "address";
+      query: string;
+      lat?: number;
+      lng?: number;
+      locationLabel?: string;
+    }
+  | { inputMode: "geolocation"; lat: number; lng: number };
+
+export type FindCleanersProps = {
+  // one or more categories; results must cover all of them
+  serviceSlugs: ServiceSlug[];
+  initialPostcode?: string; // e.g. from a shared results link; searched on mount
+  onSearchStart?: () => void;
+  onSearchComplete?: (
+    results: MatchOut[],
+    postcode: string,
+    locality?: string,
+    lat?: number,
+    lng?: number,
+    partialResults?: MatchOut[], // cover some but not all of serviceSlugs
+    search?: SearchContext
+  ) => void;
+};
+
+// what the results list needs to log impressions for this search
+export type SearchContext = {
+  searchId: string;
+  inputMode: SearchInputMode;
+  postcode: string;
+  precision: SearchResponse["precision"] | null;
+  town: string;
+  lat: number;
+  lng: number;
+  rotation: { strategy: string; seed: string } | null;
+};
+
+// per-category match details for multi-category searches
+export type MatchCategory = {
+  slug: ServiceSlug;
+  category_id: string | null;
+  area_id: string | null;
+  area_name: string | null;
+  is_covering_sponsor: boolean;
+};
+
+export type MatchOut = {
+  cleaner_id: string;
+  business_name: string | null;
+  logo_url: string | null;
+  website: string | null;
+  phone: string | null;
+  whatsapp: string | null;
+  payment_methods: string[];
+  service_types: string[];
+  bin_sizes?: string[]; // active bin_cleaning variants from service_offerings
+  bin_prices?: Record<string, number | null>; // variant -> price_cents (per bin per clean)
+  rating_avg: number | null;
+  rating_count: number | null;
+
+  // ✅ NEW: google rating fields
+  google_rating?: number | null;
+  google_reviews_count?: number | null;
+
+  area_id: string | null;
+  area_name?: string | null;
+  distance_miles?: number | null; // searched point -> business base
+  is_covering_sponsor?: boolean;
+  category_id?: string | null; // used by cards + analytics
+  categories?: MatchCategory[]; // every requested category this business covers
+};
+
+type SearchResponse = {
+  ok: boolean;
+  error?: string;
+  postcode?: string;
+  precision?: "postcode" | "sector" | "outcode" | "town" | "place" | "device";
+  town?: string;
+  lat?: number;
+  lng?: number;
+  search_id?: string | null;
+  rotation?: { strategy: string; seed: string };
+  results?: MatchOut[];
+  partial_results?: MatchOut[];
+};
+
+const PRIMARY_ENDPOINT = "/api/search";
+const FALLBACK_ENDPOINT = "/.netlify/functions/search";
+
+async function postSearch(body: Record<string, unknown>) {
+  const init: RequestInit = {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  };
+
+  // the /api redirect can fall through to the SPA's index.html; only trust JSON
+  let res = await fetch(PRIMARY_ENDPOINT, init).catch(() => null);
+  if (!res || !res.headers.get("content-type")?.includes("application/json")) {
+    res = await fetch(FALLBACK_ENDPOINT, init);
+  }
+
+  return (await res.json().catch(() => ({}))) as SearchResponse;
+}
+
+const FRIENDLY_BAD_POSTCODE =
+  "Hmm… we couldn’t recognise that postcode.\nDouble-check it or try a nearby postcode.";
+
+const FRIENDLY_BAD_LOCATION =
+  "Hmm… we couldn’t find that place.\nTry a town name, pick a suggestion, or search by postcode.";
+
+function searchKey(q: SearchQuery) {
+  if (q.inputMode === "postcode") return `pc|${q.postcode}`;
+  return `${q.inputMode}|${q.lat ?? ""}|${q.lng ?? ""}|${
+    q.inputMode === "address" ? q.query : ""
+  }`;
+}
+
+function getCurrentPosition(): Promise<GeolocationPosition> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Geolocation is not supported by this browser."));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, reject, {
+      enableHighAccuracy: false,
+      timeout: 10000,
+      maximumAge: 5 * 60 * 1000,
+    });
+  });
+}
+
+export default function FindCleaners({
+  onSearchComplete,
+  onSearchStart,
+  serviceSlugs,
+  initialPostcode,
+}: FindCleanersProps) {
+  const [mode, setMode] = useState<"postcode" | "address">("postcode");
+  const [postcode, setPostcode] = useState(initialPostcode ?? "");
+  const [addressText, setAddressText] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [results, setResults] = useState<MatchOut[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Places pick for the address input (cleared as soon as the user edits it)
+  const pickedPlaceRef = useRef<{ lat: number; lng: number; label: string } | null>(
+    null
+  );
+  const acRef = useRef<google.maps.places.Autocomplete | null>(null);
+
+  // Places suggestions once the Maps script is in; a plain text box until
+  // then (or if it fails to load)
+  const { isLoaded: hasPlaces } = useGoogleMaps();
+
+  // ✅ remember last successful search so tab switching can re-run it
+  const lastSearchRef = useRef<SearchQuery | null>(null);
+
+  // ✅ hard guard: prevents infinite auto-search loops
+  const lastAutoSearchKeyRef = useRef<string>("");
+
+  function queryFromInputs(): SearchQuery | string {
+    if (mode === "postcode") {
+      const pc = postcode.trim().toUpperCase().replace(/\s+/g, " ");
+      if (!pc) return "Please enter a postcode.";
+      return { inputMode: "postcode", postcode: pc };
+    }
+
+    const text = addressText.trim();
+    if (!text) return "Please enter a town or street.";
+    const picked = pickedPlaceRef.current;
+    return picked
+      ? {
+          inputMode: "address",
+          query: text,
+          lat: picked.lat,
+          lng: picked.lng,
+          locationLabel: picked.label,
+        }
+      : { inputMode: "address", query: text };
+  }
+
+  async function lookup(ev?: React.FormEvent, queryOverride?: SearchQuery) {
+    ev?.preventDefault();
+    setError(null);
+
+    onSearchStart?.();
+    if (!onSearchComplete) setResults([]);
+
+    const query = queryOverride ?? queryFromInputs();
+    if (typeof query === "string") {
+      setError(query);
+      return;
+    }
+
+    // ✅ store last search so switching tabs can re-run it
+    lastSearchRef.current = query;
+
+    try {
+      setLoading(true);
+
+      // Geocode, match and order happen server-side; impressions are logged
+      // by the results list as cards scroll into view (src/lib/impressions.ts)
+      const data = await postSearch({
+        ...query,
+        serviceSlugs,
+        sessionId: getOrCreateSessionId(),
+      });
+
+      if (!data?.ok) {
+        if (data?.error === "bad_postcode") {
+          setError(FRIENDLY_BAD_POSTCODE);
+          return;
+        }
+        if (data?.error === "bad_location") {
+          setError(FRIENDLY_BAD_LOCATION);
+          return;
+        }
+        if (data?.error === "geocode_unavailable") {
+          setError("Couldn’t look up that location. Please try again.");
+          return;
+        }
+        setError(data?.error || "Something went wrong. Please try again.");
+        return;
+      }
+
+      const ordered = data.results ?? [];
+      const town = data.town ?? "";
+      const searchedPc =
+        data.postcode || (query.inputMode === "postcode" ? query.postcode : "");
+
+      if (!onSearchComplete) setResults(ordered);
+      onSearchComplete?.(
+        ordered,
+        searchedPc,
+        town,
+        data.lat,
+        data.lng,
+        data.partial_results ?? [],
+        data.search_id && typeof data.lat === "number" && typeof data.lng === "number"
+          ? {
+              searchId: data.search_id,
+              inputMode: query.inputMode,
+              postcode: searchedPc,
+              precision: data.precision ?? null,
+              town,
+              lat: data.lat,
+              lng: data.lng,
+              rotation: data.rotation ?? null,
+            }
+          : undefined
+      );
+    } catch (e: any) {
+      console.error("FindCleaners lookup error:", e);
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function searchFromDeviceLocation() {
+    setError(null);
+    setLocating(true);
+    try {
+      const pos = await getCurrentPosition();
+      await lookup(undefined, {
+        inputMode: "geolocation",
+        lat: pos.coords.latitude,
+        lng: pos.coords.longitude,
+      });
+    } catch (e) {
+      // GeolocationPositionError.PERMISSION_DENIED === 1
+      setError(
+        (e as GeolocationPositionError)?.code === 1
+          ? "Location access was blocked. Allow it in your browser or enter a postcode."
+          : "Couldn’t get your location. Please enter a postcode instead."
+      );
+    } finally {
+      setLocating(false);
+    }
+  }
+
+  // shared link: run the search it describes once on mount
+  useEffect(() => {
+    const pc = (initialPostcode ?? "").trim();
+    if (!pc || lastSearchRef.current) return;
+    void lookup(undefined, { inputMode: "postcode", postcode: pc.toUpperCase() });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // ✅ when the selected services change, re-run last search automatically (ONCE)
+  const servicesKey = serviceSlugs.join("+");
+  useEffect(() => {
+    if (loading) return;
+
+    const last = lastSearchRef.current;
+    if (!last) return;
+
+    const key = `${servicesKey}|${searchKey(last)}`;
+    if (lastAutoSearchKeyRef.current === key) return; // ✅ prevents loops
+    lastAutoSearchKeyRef.current = key;
+
+    void lookup(undefined, last);
+    // intentionally only depends on the selected services
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [servicesKey]);
+
+  const inputClass =
+    "h-11 w-full rounded-xl border border-black/10 bg-white px-4 text-sm outline-none focus:ring-2 focus:ring-emerald-500/40";
+
+  const modeBtn = (active: boolean) =>
+    [
+      "px-3 py-1 rounded-full text-xs font-semibold transition",
+      active
+        ? "bg-emerald-700 text-white"
+        : "bg-white text-gray-700 border border-gray-200 hover:border-gray-300",
+    ].join(" ");
+
+  const addressInput = (
+    <input
+      className={inputClass}
+      placeholder="Town or street (e.g., Main Street, Bangor)"
+      value={addressText}
+      onChange={(e) => {
+        setAddressText(e.target.value);
+        pickedPlaceRef.current = null;
+      }}
+      autoComplete="street-address"
+    />
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          className={modeBtn(mode === "postcode")}
+          onClick={() => setMode("postcode")}
+        >
+          Postcode
+        </button>
+        <button
+          type="button"
+          className={modeBtn(mode === "address")}
+          onClick={() => setMode("address")}
+        >
+          Town or street
+        </button>
+        <button
+          type="button"
+          className="ml-auto text-xs font-semibold text-emerald-800 hover:underline disabled:opacity-60"
+          onClick={() => void searchFromDeviceLocation()}
+          disabled={loading || locating}
+        >
+          {locating ? "Finding you…" : "📍 Use my location"}
+        </button>
+      </div>
+
+      <form onSubmit={lookup} className="flex gap-2">
+        {mode === "postcode" ? (
+          <input
+            className={inputClass}
+            placeholder="Enter postcode (e.g., BT20 5NF)"
+            value={postcode}
+            onChange={(e) => setPostcode(e.target.value)}
+          />
+        ) : hasPlaces ? (
+          <div className="w-full">
+            <Autocomplete
+              onLoad={(inst) => {
+                acRef.current = inst;
+              }}
+              options={{
+                componentRestrictions: { country: "gb" },
+                fields: ["geometry", "formatted_address", "name", "address_components"],
+              }}
+              onPlaceChanged={() => {
+                const place = acRef.current?.getPlace();
+                const loc = place?.geometry?.location;
+                if (!place || !loc) return;
+
+                const town =
+                  place.address_components?.find((c) =>
+                    c.types.includes("postal_town")
+                  )?.long_name ||
+                  place.address_components?.find((c) =>
+                    c.types.includes("locality")
+                  )?.long_name ||
+                  place.name ||
+                  "";
+
+                setAddressText(place.formatted_address || place.name || "");
+                pickedPlaceRef.current = {
+                  lat: loc.lat(),
+                  lng: loc.lng(),
+                  label: town,
+                };
+              }}
+            >
+              {addressInput}
+            </Autocomplete>
+          </div>
+        ) : (
+          addressInput
+        )}
+        <button
+          type="submit"
+          className="h-11 shrink-0 rounded-xl bg-emerald-700 px-5 text-sm font-semibold text-white hover:bg-emerald-800 disabled:opacity-60"
+          disabled={loading}
+        >
+          {loading ? "Searching…" : "Search"}
+        </button>
+      </form>
+
+      {error && (
+        <div className="mt-1 flex items-start gap-3 rounded-xl border border-emerald-100 bg-emerald-50 px-4 py-3 text-sm text-emerald-900">
+          <span className="text-lg leading-none">📍</span>
+          <span className="whitespace-pre-line">{error}</span>
+        </div>
+      )}
+
+      {!onSearchComplete && results.length > 0 && (
+        <div className="text-sm text-gray-600">
+          Found {results.length} cleaners.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 // src/components/GoogleAreaDrawer.tsx
-import { useEffect, useMemo, useRef, useState } from "react";
-import { GoogleMap, DrawingManager, Polygon, useJsApiLoader } from "@react-google-maps/api";
+import { useEffect, useRef, useState } from "react";
+import { GoogleMap, DrawingManager, Polygon } from "@react-google-maps/api";
+import { useGoogleMaps } from "../lib/googleMaps";
 
 type Props = {
   initialGeoJSON?: GeoJSON.Polygon | GeoJSON.MultiPolygon | null;
@@ -91,11 +92,7 @@ export default function GoogleAreaDrawer({
   center = DEFAULT_CENTER,
   zoom = DEFAULT_ZOOM,
 }: Props) {
-  const libraries = useMemo(() => ["drawing"] as ("drawing")[], []);
-  const { isLoaded, loadError } = useJsApiLoader({
-    googleMapsApiKey: import.meta.env.VITE_GOOGLE_MAPS_KEY as string,
-    libraries,
-  });
+  const { isLoaded, loadError } = useGoogleMaps();
 
   const mapRef = useRef<google.maps.Map | null>(null);
   const drawingRef = useRef<google.maps.drawing.DrawingManager | null>(null);
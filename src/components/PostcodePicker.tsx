@@ -0,0 +1,112 @@
+// src/components/PostcodePicker.tsx
+// Districts / sectors chosen for a postcode-built service area
+// (ServiceAreaEditorSafe). Type them, or click the map while this is open.
+import { useEffect, useState } from "react";
+import { parseCodeList, suggestCodes, type PostcodeLevel } from "../lib/postcodeAreas";
+
+type Props = {
+  codes: string[];
+  missing: string[];
+  level: PostcodeLevel;
+  busy: boolean;
+  onLevelChange: (level: PostcodeLevel) => void;
+  onChange: (codes: string[]) => void;
+};
+
+export default function PostcodePicker({ codes, missing, level, busy, onLevelChange, onChange }: Props) {
+  const [input, setInput] = useState("");
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+
+  useEffect(() => {
+    const q = input.split(/[,;]/).pop()?.trim() || "";
+    if (q.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    const t = window.setTimeout(() => {
+      suggestCodes(q).then((list) => {
+        if (!cancelled) setSuggestions(list);
+      });
+    }, 250);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(t);
+    };
+  }, [input]);
+
+  function add() {
+    const next = parseCodeList(input);
+    if (!next.length) return;
+    onChange([...codes, ...next.filter((c) => !codes.includes(c))]);
+    setInput("");
+  }
+
+  return (
+    <div className="space-y-2 mb-2">
+      <div className="flex gap-2">
+        <input
+          className="input flex-1"
+          list="postcode-suggestions"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              add();
+            }
+          }}
+          placeholder="BT19, BT20, BT23 4"
+          disabled={busy}
+        />
+        <datalist id="postcode-suggestions">
+          {suggestions.map((s) => (
+            <option key={s} value={s} />
+          ))}
+        </datalist>
+        <button className="btn" onClick={add} disabled={busy || !input.trim()}>
+          Add
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3 text-xs text-gray-600">
+        <span>Map click picks a</span>
+        {(["district", "sector"] as const).map((l) => (
+          <label key={l} className="flex items-center gap-1">
+            <input type="radio" checked={level === l} onChange={() => onLevelChange(l)} />
+            {l}
+          </label>
+        ))}
+      </div>
+
+      {codes.length > 0 ? (
+        <div className="flex flex-wrap gap-1">
+          {codes.map((c) => (
+            <span
+              key={c}
+              className="inline-flex items-center gap-1 rounded-full border bg-white px-2 py-0.5 text-xs"
+            >
+              {c}
+              <button
+                type="button"
+                aria-label={`Remove ${c}`}
+                onClick={() => onChange(codes.filter((x) => x !== c))}
+                disabled={busy}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500">No postcodes yet.</div>
+      )}
+
+      {missing.length > 0 && (
+        <div className="text-xs text-red-600">
+          No boundary found for {missing.join(", ")}, so left out.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+// src/components/ResultsFilters.tsx
+import { PAYMENT_METHODS } from "../constants/paymentMethods";
+import { BIN_SIZES } from "../constants/binSizes";
+import {
+  EMPTY_FILTERS,
+  RATING_OPTIONS,
+  hasActiveFilters,
+  type ResultFilters,
+  type ResultSort,
+} from "../lib/resultFilters";
+
+type Props = {
+  filters: ResultFilters;
+  onChange: (next: ResultFilters) => void;
+  shown: number;
+  total: number;
+  showBinSizes?: boolean; // only meaningful for bin cleaning searches
+};
+
+function toggle(list: string[], key: string) {
+  return list.includes(key) ? list.filter((k) => k !== key) : [...list, key];
+}
+
+const chipBase =
+  "inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs font-semibold transition";
+
+function chipClass(active: boolean) {
+  return [
+    chipBase,
+    active
+      ? "bg-emerald-700 text-white border-emerald-700"
+      : "bg-white text-gray-700 border-gray-200 hover:border-gray-300",
+  ].join(" ");
+}
+
+export default function ResultsFilters({
+  filters,
+  onChange,
+  shown,
+  total,
+  showBinSizes = true,
+}: Props) {
+  const active = hasActiveFilters(filters);
+
+  return (
+    <div className="rounded-2xl border border-black/5 bg-white p-3 sm:p-4 shadow-sm space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-xs text-gray-500">
+          {active ? `Showing ${shown} of ${total}` : `${total} results`}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-gray-500" htmlFor="results-sort">
+            Sort
+          </label>
+          <select
+            id="results-sort"
+            className="h-8 rounded-lg border border-gray-200 bg-white px-2 text-xs"
+            value={filters.sort}
+            onChange={(e) =>
+              onChange({ ...filters, sort: e.target.value as ResultSort })
+            }
+          >
+            <option value="relevance">Recommended</option>
+            <option value="rating">Highest rated</option>
+            <option value="reviews">Most reviews</option>
+            <option value="nearest">Nearest</option>
+          </select>
+
+          {active && (
+            <button
+              type="button"
+              className="text-xs font-semibold text-emerald-800 hover:underline"
+              onClick={() => onChange({ ...EMPTY_FILTERS, sort: filters.sort })}
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {RATING_OPTIONS.map((r) => (
+          <button
+            key={r}
+            type="button"
+            className={chipClass(filters.minRating === r)}
+            onClick={() =>
+              onChange({
+                ...filters,
+                minRating: filters.minRating === r ? null : r,
+              })
+            }
+          >
+            ⭐ {r}+
+          </button>
+        ))}
+
+        <button
+          type="button"
+          className={chipClass(filters.whatsapp)}
+          onClick={() => onChange({ ...filters, whatsapp: !filters.whatsapp })}
+        >
+          WhatsApp
+        </button>
+
+        {PAYMENT_METHODS.map((pm) => (
+          <button
+            key={pm.key}
+            type="button"
+            className={chipClass(filters.payments.includes(pm.key))}
+            onClick={() =>
+              onChange({ ...filters, payments: toggle(filters.payments, pm.key) })
+            }
+          >
+            <img src={pm.iconUrl} alt="" className="h-3.5 w-3.5" />
+            {pm.label}
+          </button>
+        ))}
+      </div>
+
+      {showBinSizes && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-500">Bin sizes</span>
+          {BIN_SIZES.map((b) => (
+            <button
+              key={b.key}
+              type="button"
+              className={chipClass(filters.binSizes.includes(b.key))}
+              onClick={() =>
+                onChange({ ...filters, binSizes: toggle(filters.binSizes, b.key) })
+              }
+              title={b.commercial ? "Commercial bin" : undefined}
+            >
+              {b.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,26 @@
 // src/components/ResultsList.tsx
-import { useMemo } from "react";
+import { useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { useSearchParams } from "react-router-dom";
 import CleanerCard from "./CleanerCard";
+import ResultsFilters from "./ResultsFilters";
+import type { MatchCategory, SearchContext } from "./FindCleaners";
+import {
+  getOrCreateSessionId,
+  recordEventFetch,
+  type RecordEventPayload,
+} from "../lib/analytics";
+import {
+  RESULTS_PAGE_SIZE,
+  queueImpressions,
+  useSeenOnce,
+} from "../lib/impressions";
+import {
+  applyFilters,
+  filtersFromParams,
+  filtersToParams,
+  hasActiveFilters,
+  type ResultFilters,
+} from "../lib/resultFilters";
 
 type Props = {
   cleaners: any[];
@@ -10,8 +30,19 @@ type Props = {
   // pass current search context down so clicks/impressions are attributed correctly
   areaId?: string | null;
   categoryId?: string | null;
+  serviceSlugs?: string[];
+
+  showFilters?: boolean; // the partial-matches list reuses the main list's filters
+  emptyText?: string;
+
+  // impressions are only logged when the search context is known
+  search?: SearchContext | null;
+  section?: "full" | "partial";
 };
 
+// wait for the customer to stop clicking chips before logging
+const FILTER_LOG_DELAY_MS = 1200;
+
 function truthy(v: any) {
   return (
     v === true ||
@@ -52,22 +83,25 @@ function toArr(v: unknown): string[] {
   return [];
 }
 
-function hashString(str: string) {
-  let h = 2166136261;
-  for (let i = 0; i < str.length; i++) {
-    h ^= str.charCodeAt(i);
-    h = Math.imul(h, 16777619);
-  }
-  return h >>> 0;
-}
-
-function mulberry32(a: number) {
-  return function () {
-    let t = (a += 0x6d2b79f5);
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
+// Logs the card's impression the first time it's actually on screen
+function SeenOnce({
+  onSeen,
+  resetKey,
+  className,
+  children,
+}: {
+  onSeen: () => void;
+  resetKey: string;
+  className?: string;
+  children: ReactNode;
+}) {
+  const ref = useRef<HTMLDivElement | null>(null);
+  useSeenOnce(ref, onSeen, resetKey);
+  return (
+    <div ref={ref} className={className}>
+      {children}
+    </div>
+  );
 }
 
 export default function ResultsList({
@@ -76,97 +110,271 @@ export default function ResultsList({
   locality,
   areaId,
   categoryId,
+  serviceSlugs = [],
+  showFilters = true,
+  emptyText,
+  search = null,
+  section = "full",
 }: Props) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => filtersFromParams(searchParams), [searchParams]);
+  const filterLogTimer = useRef<number | null>(null);
+
+  useEffect(
+    () => () => {
+      if (filterLogTimer.current) window.clearTimeout(filterLogTimer.current);
+    },
+    []
+  );
+
+  const ordered = useMemo(() => {
+    // Organic order comes from /api/search (impression positions are logged
+    // there), so only make sure sponsors lead without reshuffling the rest.
+    const sponsored = (cleaners ?? []).filter(isSponsored);
+    const organic = (cleaners ?? []).filter((c) => !isSponsored(c));
+
+    return [...sponsored, ...organic];
+  }, [cleaners]);
+
+  // normalise the fields the filters look at (rows can come from older callers)
+  const filterable = useMemo(
+    () =>
+      ordered.map((c) => ({
+        ...c,
+        is_covering_sponsor: isSponsored(c),
+        payment_methods: toArr(c.payment_methods),
+        bin_sizes: toArr(c.bin_sizes),
+      })),
+    [ordered]
+  );
+
+  const visible = useMemo(
+    () => applyFilters(filterable, filters),
+    [filterable, filters]
+  );
+
+  // "Show more" paging; back to page 1 for a new search or filter change
+  const [pageCount, setPageCount] = useState(1);
+  useEffect(() => {
+    setPageCount(1);
+  }, [cleaners, filters]);
+
+  const shownCards = visible.slice(0, pageCount * RESULTS_PAGE_SIZE);
+  const remaining = visible.length - shownCards.length;
+
+  function logImpression(c: (typeof visible)[number], idx: number) {
+    if (!search) return;
+    const cleanerId = c.cleaner_id ?? c.id;
+    if (!cleanerId) return;
+
+    const sessionId = getOrCreateSessionId();
+    const sponsoredCount = visible.filter(isSponsored).length;
+
+    // one row per category the card matched, so each category's stats count it
+    const cats: MatchCategory[] = c.categories?.length
+      ? c.categories
+      : [
+          {
+            slug: serviceSlugs[0] ?? null,
+            category_id: c.category_id ?? categoryId ?? null,
+            area_id: c.area_id ?? areaId ?? null,
+            area_name: c.area_name ?? null,
+            is_covering_sponsor: isSponsored(c),
+          },
+        ];
+
+    const rows: RecordEventPayload[] = cats.map((cat) => ({
+      event: "impression",
+      cleanerId: String(cleanerId),
+      categoryId: cat.category_id ?? null,
+      areaId: cat.area_id ?? null,
+      sessionId,
+      meta: {
+        search_id: search.searchId,
+        postcode: search.postcode || null,
+        postcode_precision: search.precision,
+        input_mode: search.inputMode,
+        town: search.town || null,
+        locality: search.town || null,
+        service_slug: cat.slug,
+        service_slugs: serviceSlugs,
+        section,
+        area_id: cat.area_id ?? null,
+        area_name: cat.area_name ?? null,
+        position: idx + 1,
+        page: Math.floor(idx / RESULTS_PAGE_SIZE) + 1,
+        is_sponsored: !!cat.is_covering_sponsor,
+        results_count: visible.length,
+        sponsored_count: sponsoredCount,
+        filtered: hasActiveFilters(filters),
+        sort: filters.sort,
+        rotation_strategy: search.rotation?.strategy ?? null,
+        rotation_seed: search.rotation?.seed ?? null,
+        lat: search.lat,
+        lng: search.lng,
+      },
+    }));
+
+    queueImpressions(
+      `${search.lat.toFixed(5)}|${search.lng.toFixed(5)}|${serviceSlugs.join("+")}|${section}|${cleanerId}`,
+      rows
+    );
+  }
+
+  function changeFilters(next: ResultFilters) {
+    setSearchParams(filtersToParams(searchParams, next), { replace: true });
+
+    if (filterLogTimer.current) window.clearTimeout(filterLogTimer.current);
+    filterLogTimer.current = window.setTimeout(() => {
+      const shown = applyFilters(filterable, next).length;
+
+      void recordEventFetch({
+        event: "search_filter",
+        cleanerId: null,
+        categoryId: categoryId ?? null,
+        sessionId: getOrCreateSessionId(),
+        meta: {
+          postcode: postcode || null,
+          service_slug: serviceSlugs[0] ?? null,
+          service_slugs: serviceSlugs,
+          payments: next.payments,
+          bin_sizes: next.binSizes,
+          min_rating: next.minRating,
+          whatsapp: next.whatsapp,
+          sort: next.sort,
+          results_count: ordered.length,
+          shown_count: shown,
+        },
+      }).catch((e) => console.warn("filter logging failed", e));
+    }, FILTER_LOG_DELAY_MS);
+  }
+
   if (!cleaners?.length) {
     const pc = postcode?.toUpperCase?.() || "your area";
     return (
       <p className="text-center text-gray-600 mt-6">
-        No cleaners found near {pc}
-        {locality ? `, in ${locality}` : ""}.
+        {emptyText ?? (
+          <>
+            No cleaners found near {pc}
+            {locality ? `, in ${locality}` : ""}.
+          </>
+        )}
       </p>
     );
   }
 
-  const ordered = useMemo(() => {
-    const sponsored = (cleaners ?? []).filter(isSponsored);
-    const organic = (cleaners ?? []).filter((c) => !isSponsored(c));
+  const firstSponsoredIndex = visible.findIndex(isSponsored);
 
-    // Shuffle organic (stable per postcode/day)
-    const seedStr = `${(postcode || "").toUpperCase()}|${new Date()
-      .toISOString()
-      .slice(0, 10)}`;
-    const rng = mulberry32(hashString(seedStr));
+  return (
+    <div className="mt-4 space-y-4">
+      {showFilters && (
+        <ResultsFilters
+          filters={filters}
+          onChange={changeFilters}
+          shown={visible.length}
+          total={ordered.length}
+          showBinSizes={
+            !serviceSlugs.length || serviceSlugs.includes("bin-cleaner")
+          }
+        />
+      )}
 
-    const shuffled = [...organic];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(rng() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
+      {visible.length === 0 && hasActiveFilters(filters) && (
+        <p className="text-center text-gray-600">
+          No businesses match these filters. Try removing one.
+        </p>
+      )}
 
-    return [...sponsored, ...shuffled];
-  }, [cleaners, postcode]);
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {shownCards.map((c: any, idx: number) => {
+          const cleanerId = c.cleaner_id ?? c.id;
 
-  const firstSponsoredIndex = ordered.findIndex(isSponsored);
+          const cleaner = {
+            cleaner_id: cleanerId,
+            id: cleanerId,
+            business_name: c.business_name ?? "Cleaner",
+            logo_url: c.logo_url ?? null,
+            distance_m: c.distance_meters ?? c.distance_m ?? null,
+            website: c.website ?? null,
+            phone: c.phone ?? null,
+            whatsapp: c.whatsapp ?? null,
+            rating_avg: c.rating_avg ?? null,
+            rating_count: c.rating_count ?? null,
+
+            // ✅ include google fields so CleanerCard can show them
+            google_rating: c.google_rating ?? null,
+            google_reviews_count: c.google_reviews_count ?? null,
+
+            payment_methods: toArr(c.payment_methods),
+            service_types: toArr(c.service_types),
+            bin_sizes: toArr(c.bin_sizes),
+            bin_prices: c.bin_prices ?? {},
+
+            area_id: c.area_id ?? null,
+            area_name: c.area_name ?? null,
+            distance_miles: c.distance_miles ?? null,
+            category_id: c.category_id ?? null,
+
+            // multi-category searches: per-category coverage + sponsorship
+            categories: serviceSlugs.length > 1 ? c.categories ?? [] : [],
+          };
+
+          const isFirstSponsored = idx === firstSponsoredIndex && isSponsored(c);
+
+          const card = (
+            <CleanerCard
+    key={`${cleanerId}:${categoryId ?? "all"}:${areaId ?? "na"}:${idx}`}
+    cleaner={cleaner as any}
+    postcodeHint={postcode}
+    showPayments
+    position={idx + 1}
+  areaId={c.area_id ?? null}
+  categoryId={c.category_id ?? categoryId ?? null}
+    featured={isFirstSponsored}
+  />
+          );
+
+          const seenKey = `${search?.searchId ?? "none"}:${idx}`;
+
+          if (isFirstSponsored) {
+            return (
+              <SeenOnce
+                key={cleanerId}
+                onSeen={() => logImpression(c, idx)}
+                resetKey={seenKey}
+                className="sm:col-span-2 relative rounded-2xl border border-emerald-200 bg-emerald-50/60 p-2 shadow-sm ring-2 ring-emerald-300"
+              >
+                <div className="absolute -top-3 left-4 z-10 rounded-full bg-emerald-600 px-3 py-1 text-xs font-semibold text-white shadow">
+                  Sponsored • Featured #1
+                </div>
+                {card}
+              </SeenOnce>
+            );
+          }
 
-  return (
-    <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
-      {ordered.map((c: any, idx: number) => {
-        const cleanerId = c.cleaner_id ?? c.id;
-
-        const cleaner = {
-          cleaner_id: cleanerId,
-          id: cleanerId,
-          business_name: c.business_name ?? "Cleaner",
-          logo_url: c.logo_url ?? null,
-          distance_m: c.distance_meters ?? c.distance_m ?? null,
-          website: c.website ?? null,
-          phone: c.phone ?? null,
-          whatsapp: c.whatsapp ?? null,
-          rating_avg: c.rating_avg ?? null,
-          rating_count: c.rating_count ?? null,
-
-          // ✅ include google fields so CleanerCard can show them
-          google_rating: c.google_rating ?? null,
-          google_reviews_count: c.google_reviews_count ?? null,
-
-          payment_methods: toArr(c.payment_methods),
-          service_types: toArr(c.service_types),
-
-          area_id: c.area_id ?? null,
-          category_id: c.category_id ?? null,
-        };
-
-        const isFirstSponsored = idx === firstSponsoredIndex && isSponsored(c);
-
-        const card = (
-          <CleanerCard
-  key={`${cleanerId}:${categoryId ?? "all"}:${areaId ?? "na"}:${idx}`}
-  cleaner={cleaner as any}
-  postcodeHint={postcode}
-  showPayments
-  position={idx + 1}
-areaId={c.area_id ?? null}
-categoryId={c.category_id ?? categoryId ?? null}
-  featured={isFirstSponsored}
-/>
-        );
-
-        if (isFirstSponsored) {
           return (
-            <div
+            <SeenOnce
               key={cleanerId}
-              className="sm:col-span-2 relative rounded-2xl border border-emerald-200 bg-emerald-50/60 p-2 shadow-sm ring-2 ring-emerald-300"
+              onSeen={() => logImpression(c, idx)}
+              resetKey={seenKey}
             >
-              <div className="absolute -top-3 left-4 z-10 rounded-full bg-emerald-600 px-3 py-1 text-xs font-semibold text-white shadow">
-                Sponsored • Featured #1
-              </div>
               {card}
-            </div>
+            </SeenOnce>
           );
-        }
+        })}
+      </div>
 
-        return <div key={cleanerId}>{card}</div>;
-      })}
+      {remaining > 0 && (
+        <div className="flex justify-center">
+          <button
+            type="button"
+            className="rounded-full border border-gray-200 bg-white px-5 py-2 text-sm font-semibold text-gray-800 shadow-sm hover:border-gray-300"
+            onClick={() => setPageCount((n) => n + 1)}
+          >
+            Show more ({remaining} more)
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,110 @@
+// src/components/SearchAlertForm.tsx
+// Empty-state opt-in: "email me when someone covers my postcode".
+// The server sends a confirm link first (double opt-in).
+import { useState, type FormEvent } from "react";
+import type { ServiceSlug } from "../constants/services";
+
+type Props = {
+  postcode: string;
+  lat: number;
+  lng: number;
+  serviceSlugs: ServiceSlug[];
+};
+
+const PRIMARY_ENDPOINT = "/api/alerts/subscribe";
+const FALLBACK_ENDPOINT = "/.netlify/functions/search-alert-subscribe";
+
+function isValidEmail(v: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test((v || "").trim());
+}
+
+export default function SearchAlertForm({
+  postcode,
+  lat,
+  lng,
+  serviceSlugs,
+}: Props) {
+  const [email, setEmail] = useState("");
+  const [sending, setSending] = useState(false);
+  const [done, setDone] = useState<"pending" | "active" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    if (!isValidEmail(email)) {
+      setError("Please enter a valid email address.");
+      return;
+    }
+
+    setSending(true);
+    setError(null);
+    try {
+      const init: RequestInit = {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ email, postcode, lat, lng, serviceSlugs }),
+      };
+
+      let res = await fetch(PRIMARY_ENDPOINT, init).catch(() => null);
+      if (!res || !res.headers.get("content-type")?.includes("application/json")) {
+        res = await fetch(FALLBACK_ENDPOINT, init);
+      }
+      const data = await res.json().catch(() => ({}));
+
+      if (!data?.ok) {
+        setError(data?.error || "Couldn’t save your alert. Please try again.");
+        return;
+      }
+      setDone(data.status === "active" ? "active" : "pending");
+    } catch (err) {
+      console.warn("alert subscribe failed", err);
+      setError("Couldn’t save your alert. Please try again.");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  if (done) {
+    return (
+      <div className="mt-4 rounded-2xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-900 text-center">
+        {done === "active"
+          ? "You’re already on the list – we’ll email you as soon as someone covers your area."
+          : "Nearly there! Check your inbox and click the link to confirm your alert."}
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={submit}
+      className="mt-4 rounded-2xl border border-black/5 bg-white p-4 sm:p-5 shadow-sm"
+    >
+      <div className="text-sm font-semibold text-gray-900">
+        Get notified when someone covers {postcode ? postcode.toUpperCase() : "your area"}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        One email when a business starts serving you. Unsubscribe any time.
+      </p>
+
+      <div className="mt-3 flex flex-col sm:flex-row gap-2">
+        <input
+          type="email"
+          className="flex-1 h-10 rounded-xl border border-gray-200 px-3 text-sm"
+          placeholder="you@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          autoComplete="email"
+        />
+        <button
+          type="submit"
+          disabled={sending}
+          className="h-10 rounded-xl bg-emerald-700 px-4 text-sm font-semibold text-white disabled:opacity-60"
+        >
+          {sending ? "Saving…" : "Notify me"}
+        </button>
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </form>
+  );
+}
@@ -1,12 +1,36 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { GoogleMap, Polygon, Polyline, useJsApiLoader } from "@react-google-maps/api";
+import { GoogleMap, MarkerF, Polygon, Polyline, Rectangle } from "@react-google-maps/api";
+import { booleanIntersects, booleanPointInPolygon, booleanWithin, polygon } from "@turf/turf";
+import type { MultiPolygon } from "geojson";
 import { supabase } from "../lib/supabase";
+import { useGoogleMaps } from "../lib/googleMaps";
+import { DEMAND_CELL_DEG, fetchDemandCells, type DemandCell } from "../lib/demand";
+import {
+  ISOCHRONE_MINUTES,
+  NO_BASE_MESSAGE,
+  RADIUS_MILES,
+  fetchBaseLocation,
+  fetchIsochrone,
+  isochroneAvailable,
+  radiusArea,
+} from "../lib/areaShapes";
+import {
+  fetchCodeAt,
+  fetchPostcodeArea,
+  postcodeAreasAvailable,
+  type PostcodeLevel,
+} from "../lib/postcodeAreas";
+import { AREA_FILE_ACCEPT, downloadArea, readAreaFile, type AreaFileFormat } from "../lib/areaFiles";
+import { saveServiceArea } from "../lib/serviceAreas";
+import { AREA_ISSUE_MESSAGES, areaErrorMessage, fixArea, validateArea, type AreaFix } from "../lib/areaGeometry";
 import AreaSponsorModal from "./AreaSponsorModal";
+import PostcodePicker from "./PostcodePicker";
 import AreaManageModal from "./AreaManageModal";
 import DeleteAreaModal from "./DeleteAreaModal";
 
 type LatLng = google.maps.LatLngLiteral;
-type Libraries = ["geometry"];
+// one part of a service area: outer ring first, then any holes
+type DraftPoly = LatLng[][];
 
 type ServiceAreaRow = {
   id: string;
@@ -14,6 +38,7 @@ type ServiceAreaRow = {
   category_id: string | null;
   name: string;
   gj: any;
+  postcode_codes?: string[] | null;
   created_at: string;
   km2?: number | null;
   is_sponsored_locked?: boolean;
@@ -28,9 +53,16 @@ type Props = {
   onSlotAction?: (area: { id: string; name?: string }, slot: 1) => void | Promise<void>;
 };
 
+const FIXES: { fix: AreaFix; label: string; hint: string }[] = [
+  { fix: "unkink", label: "Untangle", hint: "Split the outline where it crosses itself, keeping every piece" },
+  { fix: "simplify", label: "Simplify", hint: "Drop near-duplicate points, then untangle" },
+  { fix: "buffer0", label: "Rebuild outline", hint: "Redraw the outline cleanly (buffer 0); a crossed shape keeps its larger half" },
+];
+
 const MAP_CONTAINER = { width: "100%", height: "600px" } as const;
 const DEFAULT_CENTER = { lat: 54.607868, lng: -5.926437 };
 const DEFAULT_ZOOM = 10;
+const DEMAND_DAYS = 30;
 
 const basePolyOptions: google.maps.PolygonOptions = {
   strokeWeight: 2,
@@ -104,8 +136,42 @@ function geoToPaths(geoInput: any): { paths: LatLng[][] }[] {
   return [];
 }
 
-function firstPolygonRing(geoInput: any): LatLng[] {
-  return geoToPaths(geoInput)[0]?.paths?.[0]?.filter(Boolean) ?? [];
+function samePoint(a: LatLng | undefined, b: LatLng) {
+  return !!a && Math.abs(a.lat - b.lat) < 0.0000001 && Math.abs(a.lng - b.lng) < 0.0000001;
+}
+
+// GeoJSON rings repeat the first point at the end; the map editor doesn't
+function openRing(ring: LatLng[]) {
+  return ring.length > 1 && samePoint(ring[0], ring[ring.length - 1]) ? ring.slice(0, -1) : ring;
+}
+
+// shoelace on lng/lat; positive = anticlockwise
+function ringSignedArea(ring: LatLng[]) {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    sum += a.lng * b.lat - b.lng * a.lat;
+  }
+  return sum / 2;
+}
+
+function orientRing(ring: LatLng[], anticlockwise: boolean) {
+  return ringSignedArea(ring) > 0 === anticlockwise ? ring : [...ring].reverse();
+}
+
+// Outer ring anticlockwise, holes clockwise: GeoJSON's right-hand rule, and
+// Google Maps only cuts a hole out when it winds against the outer ring.
+function normalizePoly([outer, ...holes]: DraftPoly): DraftPoly {
+  return [orientRing(outer, true), ...holes.map((h) => orientRing(h, false))];
+}
+
+/** Every part (with its holes) of a saved area, ready to edit. */
+function areaToDraft(geoInput: any): DraftPoly[] {
+  return geoToPaths(geoInput)
+    .map(({ paths }) => paths.map(openRing).filter((ring) => ring.length >= 3))
+    .filter((poly) => poly.length > 0)
+    .map(normalizePoly);
 }
 
 function ringToGeoJson(ring: LatLng[]): number[][] {
@@ -116,26 +182,69 @@ function ringToGeoJson(ring: LatLng[]): number[][] {
   return out;
 }
 
-function draftToMultiPolygon(polys: LatLng[][]) {
-  const ring = polys[0] ?? [];
+function draftToMultiPolygon(polys: DraftPoly[]): MultiPolygon {
   return {
     type: "MultiPolygon",
-    coordinates: [[ringToGeoJson(ring)]],
+    coordinates: polys.map((poly) => normalizePoly(poly).map(ringToGeoJson)),
   };
 }
 
+const toTurf = (rings: LatLng[][]) => polygon(rings.map(ringToGeoJson));
+const codesKey = (codes: string[]) => codes.join("|");
+
+/** Why the draft can't be saved as a valid MultiPolygon, or null. */
+function draftProblem(polys: DraftPoly[]): string | null {
+  if (!polys.length) return "Draw at least one polygon before saving.";
+
+  for (let i = 0; i < polys.length; i++) {
+    const [outer, ...holes] = polys[i];
+    if (outer.length < 3) return `Part ${i + 1} needs at least 3 points.`;
+    for (let h = 0; h < holes.length; h++) {
+      if (!booleanWithin(toTurf([holes[h]]), toTurf([outer]))) {
+        return `Hole ${h + 1} in part ${i + 1} must sit completely inside it.`;
+      }
+      for (let k = h + 1; k < holes.length; k++) {
+        if (booleanIntersects(toTurf([holes[h]]), toTurf([holes[k]]))) {
+          return `Holes ${h + 1} and ${k + 1} in part ${i + 1} overlap. Merge them into one hole.`;
+        }
+      }
+    }
+  }
+
+  for (let i = 0; i < polys.length; i++) {
+    for (let j = i + 1; j < polys.length; j++) {
+      if (booleanIntersects(toTurf([polys[i][0]]), toTurf([polys[j][0]]))) {
+        return `Parts ${i + 1} and ${j + 1} overlap. Redraw them as one part, or keep them apart.`;
+      }
+    }
+  }
+
+  return null;
+}
+
 function areaMetersForRing(ring: LatLng[]) {
   if (ring.length < 3 || !window.google?.maps?.geometry?.spherical) return 0;
   return google.maps.geometry.spherical.computeArea(ring.map((p) => new google.maps.LatLng(p.lat, p.lng)));
 }
 
-function formatArea(polys: LatLng[][]) {
-  const m2 = areaMetersForRing(polys[0] ?? []);
+function formatArea(polys: DraftPoly[]) {
+  const m2 = polys.reduce(
+    (sum, [outer, ...holes]) =>
+      sum + areaMetersForRing(outer) - holes.reduce((h, ring) => h + areaMetersForRing(ring), 0),
+    0
+  );
   return `${(m2 / 1_000_000).toFixed(2)} km² (${(m2 / 10_000).toFixed(1)} ha)`;
 }
 
-function samePoint(a: LatLng | undefined, b: LatLng) {
-  return !!a && Math.abs(a.lat - b.lat) < 0.0000001 && Math.abs(a.lng - b.lng) < 0.0000001;
+function clamp(n: number, range: { min: number; max: number; default: number }) {
+  return Number.isFinite(n) && n > 0 ? Math.min(range.max, Math.max(range.min, n)) : range.default;
+}
+
+function pathsFromPolygon(poly: google.maps.Polygon): DraftPoly {
+  return poly
+    .getPaths()
+    .getArray()
+    .map((path) => path.getArray().map((ll) => ({ lat: ll.lat(), lng: ll.lng() })));
 }
 
 export default function ServiceAreaEditorSafe({
@@ -149,11 +258,7 @@ export default function ServiceAreaEditorSafe({
   const mapRef = useRef<google.maps.Map | null>(null);
   const mapWrapRef = useRef<HTMLDivElement | null>(null);
 
-  const libraries = useMemo<Libraries>(() => ["geometry"], []);
-  const { isLoaded, loadError } = useJsApiLoader({
-    googleMapsApiKey: import.meta.env.VITE_GOOGLE_MAPS_KEY as string,
-    libraries,
-  });
+  const { isLoaded, loadError } = useGoogleMaps();
 
   const [serviceAreas, setServiceAreas] = useState<ServiceAreaRow[]>([]);
   const [loading, setLoading] = useState(false);
@@ -162,9 +267,32 @@ export default function ServiceAreaEditorSafe({
   const [creating, setCreating] = useState(false);
   const [activeAreaId, setActiveAreaId] = useState<string | null>(null);
   const [draftName, setDraftName] = useState("");
-  const [draftPolys, setDraftPolys] = useState<LatLng[][]>([]);
+  const [draftPolys, setDraftPolys] = useState<DraftPoly[]>([]);
   const [drawingPoints, setDrawingPoints] = useState<LatLng[]>([]);
   const [isDrawing, setIsDrawing] = useState(false);
+  // part the current drawing is a hole in; null = drawing a new part
+  const [holeFor, setHoleFor] = useState<number | null>(null);
+  const [selectedPart, setSelectedPart] = useState<number | null>(null);
+  const draftRefs = useRef<(google.maps.Polygon | null)[]>([]);
+
+  // quick-start shapes around the business base
+  const [radiusMiles, setRadiusMiles] = useState(RADIUS_MILES.default);
+  const [driveMinutes, setDriveMinutes] = useState(ISOCHRONE_MINUTES.default);
+  // hidden until the site says drive times / postcode boundaries are set up
+  const [driveTimeOn, setDriveTimeOn] = useState(false);
+  const [postcodesOn, setPostcodesOn] = useState(false);
+
+  // postcode-built draft: the chosen codes, or null when drawn by hand
+  const [postcodeCodes, setPostcodeCodes] = useState<string[] | null>(null);
+  const [missingCodes, setMissingCodes] = useState<string[]>([]);
+  const [postcodeLevel, setPostcodeLevel] = useState<PostcodeLevel>("district");
+  // the code list draftPolys were last dissolved from, and the latest dissolve request
+  const dissolvedKey = useRef<string | null>(null);
+  const dissolveSeq = useRef(0);
+
+  // what readAreaFile changed in an imported draft; non-null = previewing an import
+  const [importNotes, setImportNotes] = useState<string[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   const [sponsorOpen, setSponsorOpen] = useState(false);
   const [sponsorAreaId, setSponsorAreaId] = useState<string | null>(null);
@@ -177,6 +305,59 @@ export default function ServiceAreaEditorSafe({
 
   const previewPolys = useMemo(() => geoToPaths(previewGeo), [previewGeo]);
 
+  // checked again on save and by the save RPCs
+  const draftIssues = useMemo(
+    () => (isDrawing || !draftPolys.length ? [] : validateArea(draftToMultiPolygon(draftPolys))),
+    [draftPolys, isDrawing]
+  );
+  const issueParts = useMemo(() => new Set(draftIssues.map((i) => i.part)), [draftIssues]);
+
+  const [showDemand, setShowDemand] = useState(false);
+  const [demandCells, setDemandCells] = useState<DemandCell[]>([]);
+  const [demandError, setDemandError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!showDemand || !categoryId) {
+      setDemandCells([]);
+      return;
+    }
+    let cancelled = false;
+    setDemandError(null);
+    fetchDemandCells(categoryId, DEMAND_DAYS)
+      .then((cells) => {
+        if (!cancelled) setDemandCells(cells);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) {
+          setDemandError(e instanceof Error ? e.message : "Failed to load demand.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showDemand, categoryId]);
+
+  const demandMax = useMemo(
+    () => demandCells.reduce((m, c) => Math.max(m, c.unmet), 0),
+    [demandCells]
+  );
+  const demandTotal = useMemo(
+    () => demandCells.reduce((n, c) => n + c.unmet, 0),
+    [demandCells]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    void Promise.all([isochroneAvailable(), postcodeAreasAvailable()]).then(([driveTime, postcodes]) => {
+      if (cancelled) return;
+      setDriveTimeOn(driveTime);
+      setPostcodesOn(postcodes);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   const fetchAreas = useCallback(async () => {
     if (!myBusinessId) return;
     setLoading(true);
@@ -207,6 +388,11 @@ export default function ServiceAreaEditorSafe({
     setDraftPolys([]);
     setDrawingPoints([]);
     setIsDrawing(false);
+    setHoleFor(null);
+    setSelectedPart(null);
+    setPostcodeCodes(null);
+    setMissingCodes([]);
+    setImportNotes(null);
     setPreviewGeo(null);
   }, [categoryId]);
 
@@ -217,6 +403,11 @@ export default function ServiceAreaEditorSafe({
     setDraftPolys([]);
     setDrawingPoints([]);
     setIsDrawing(false);
+    setHoleFor(null);
+    setSelectedPart(null);
+    setPostcodeCodes(null);
+    setMissingCodes([]);
+    setImportNotes(null);
     setError(null);
   }, []);
 
@@ -226,9 +417,8 @@ export default function ServiceAreaEditorSafe({
 
   const zoomToArea = useCallback((area: ServiceAreaRow) => {
     if (!mapRef.current) return;
-    const ring = firstPolygonRing(area.gj);
     const bounds = new google.maps.LatLngBounds();
-    ring.forEach((p) => bounds.extend(p));
+    areaToDraft(area.gj).forEach(([outer]) => outer.forEach((p) => bounds.extend(p)));
     if (!bounds.isEmpty()) mapRef.current.fitBounds(bounds, 60);
   }, []);
 
@@ -249,38 +439,250 @@ export default function ServiceAreaEditorSafe({
       setCreating(true);
       setActiveAreaId(area.id);
       setDraftName(area.name || "Service Area");
-      const ring = firstPolygonRing(area.gj);
-      setDraftPolys(ring.length >= 3 ? [ring] : []);
+      setDraftPolys(areaToDraft(area.gj));
+      if (area.postcode_codes?.length) {
+        // the saved shape already matches the list
+        dissolvedKey.current = codesKey(area.postcode_codes);
+        setPostcodeCodes(area.postcode_codes);
+      }
       zoomToArea(area);
     },
     [resetDraft, zoomToArea]
   );
 
+  // start a new area from a generated shape; it's an ordinary editable draft from here
+  const startFromShape = useCallback(
+    (name: string, geo: unknown) => {
+      const polys = areaToDraft(geo);
+      if (!polys.length) {
+        setError("That shape came back empty.");
+        return;
+      }
+      resetDraft();
+      setCreating(true);
+      setDraftName(name);
+      setDraftPolys(polys);
+      setSelectedPart(0);
+      if (mapRef.current) {
+        const bounds = new google.maps.LatLngBounds();
+        polys.forEach(([outer]) => outer.forEach((p) => bounds.extend(p)));
+        mapRef.current.fitBounds(bounds, 60);
+      }
+    },
+    [resetDraft]
+  );
+
+  const createFromRadius = useCallback(async () => {
+    if (!myBusinessId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const miles = clamp(radiusMiles, RADIUS_MILES);
+      const base = await fetchBaseLocation(myBusinessId);
+      if (!base) throw new Error(NO_BASE_MESSAGE);
+      startFromShape(`Within ${miles} miles`, radiusArea(base, miles));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Could not build the circle.");
+    } finally {
+      setLoading(false);
+    }
+  }, [myBusinessId, radiusMiles, startFromShape]);
+
+  const createFromDriveTime = useCallback(async () => {
+    if (!myBusinessId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const minutes = clamp(driveMinutes, ISOCHRONE_MINUTES);
+      const geo = await fetchIsochrone(myBusinessId, minutes);
+      startFromShape(`${minutes} min drive`, geo);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Drive-time lookup failed.");
+    } finally {
+      setLoading(false);
+    }
+  }, [driveMinutes, myBusinessId, startFromShape]);
+
+  const importFile = useCallback(
+    async (file: File) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const imported = await readAreaFile(file);
+        startFromShape(imported.name || file.name.replace(/\.[^.]+$/, ""), imported.geometry);
+        setImportNotes(imported.notes);
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : "Could not read that file.");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [startFromShape]
+  );
+
+  const downloadAreaFile = useCallback((area: ServiceAreaRow, format: AreaFileFormat) => {
+    setError(null);
+    try {
+      downloadArea({ ...area, gj: maybeParseGeo(area.gj) }, format);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Could not download that area.");
+    }
+  }, []);
+
+  const startFromPostcodes = useCallback(() => {
+    resetDraft();
+    setCreating(true);
+    setDraftName("Postcode area");
+    setPostcodeCodes([]);
+  }, [resetDraft]);
+
+  // re-dissolve the boundaries whenever the code list changes
+  const applyCodes = useCallback(async (codes: string[]) => {
+    const seq = ++dissolveSeq.current;
+    setError(null);
+    if (!codes.length) {
+      dissolvedKey.current = "";
+      setPostcodeCodes([]);
+      setMissingCodes([]);
+      setDraftPolys([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    try {
+      const result = await fetchPostcodeArea(codes);
+      // a newer list went out while this one was loading
+      if (seq !== dissolveSeq.current) return;
+      dissolvedKey.current = codesKey(result.codes);
+      setPostcodeCodes(result.codes);
+      setMissingCodes(result.missing);
+      setDraftPolys(areaToDraft(result.geojson));
+    } catch (e: unknown) {
+      if (seq === dissolveSeq.current) setError(e instanceof Error ? e.message : "Postcode lookup failed.");
+    } finally {
+      if (seq === dissolveSeq.current) setLoading(false);
+    }
+  }, []);
+
+  // map clicks only change the list (below); this catches up the shape
+  useEffect(() => {
+    if (postcodeCodes && codesKey(postcodeCodes) !== dissolvedKey.current) void applyCodes(postcodeCodes);
+  }, [applyCodes, postcodeCodes]);
+
+  const toggleCodeAt = useCallback(
+    async (lat: number, lng: number) => {
+      try {
+        const code = await fetchCodeAt(lat, lng, postcodeLevel);
+        if (!code) {
+          setError("No postcode boundary there.");
+          return;
+        }
+        // functional, so quick clicks each toggle against the latest list
+        setPostcodeCodes((prev) =>
+          prev && (prev.includes(code) ? prev.filter((c) => c !== code) : [...prev, code])
+        );
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : "Postcode lookup failed.");
+      }
+    },
+    [postcodeLevel]
+  );
+
   const onMapClick = useCallback(
     (ev: google.maps.MapMouseEvent) => {
-      if (!isDrawing || !ev.latLng) return;
-      if (draftPolys.length >= 1) {
-        setError("Only one polygon is allowed per service area. Clear the current polygon to redraw it.");
+      if (postcodeCodes && !isDrawing && ev.latLng) {
+        void toggleCodeAt(ev.latLng.lat(), ev.latLng.lng());
         return;
       }
+      if (!isDrawing || !ev.latLng) return;
       const next = { lat: ev.latLng.lat(), lng: ev.latLng.lng() };
+      const outer = holeFor != null ? draftPolys[holeFor]?.[0] : null;
+      if (outer && !booleanPointInPolygon([next.lng, next.lat], toTurf([outer]))) {
+        setError(`Hole points must be inside part ${holeFor! + 1}.`);
+        return;
+      }
       setDrawingPoints((prev) => (samePoint(prev[prev.length - 1], next) ? prev : [...prev, next]));
       setError(null);
     },
-    [draftPolys.length, isDrawing]
+    [draftPolys, holeFor, isDrawing, postcodeCodes, toggleCodeAt]
   );
 
+  const startDrawing = useCallback((part: number | null) => {
+    setHoleFor(part);
+    setDrawingPoints([]);
+    setIsDrawing(true);
+    setError(null);
+  }, []);
+
   const finishPolygon = useCallback(() => {
     if (drawingPoints.length < 3) {
       setError("Click at least 3 points on the map before finishing the polygon.");
       return;
     }
 
-    setDraftPolys([drawingPoints]);
+    if (holeFor == null) {
+      setDraftPolys((prev) => [...prev, normalizePoly([drawingPoints])]);
+      setSelectedPart(draftPolys.length);
+    } else {
+      setDraftPolys((prev) =>
+        prev.map((poly, i) => (i === holeFor ? normalizePoly([...poly, drawingPoints]) : poly))
+      );
+    }
     setDrawingPoints([]);
     setIsDrawing(false);
+    setHoleFor(null);
     setError(null);
-  }, [drawingPoints]);
+  }, [draftPolys.length, drawingPoints, holeFor]);
+
+  // vertex drags / inserts on an editable draft part
+  const syncDraftPart = useCallback((index: number) => {
+    const poly = draftRefs.current[index];
+    if (!poly) return;
+    const rings = pathsFromPolygon(poly);
+    if (!rings[0] || rings[0].length < 3) return;
+    setDraftPolys((prev) => prev.map((p, i) => (i === index ? normalizePoly(rings) : p)));
+  }, []);
+
+  // right-click a vertex to delete it (rings keep at least 3 points)
+  const removeVertex = useCallback((index: number, ev: google.maps.PolyMouseEvent) => {
+    if (ev.vertex == null) return;
+    const ringIndex = ev.path ?? 0;
+    setDraftPolys((prev) =>
+      prev.map((poly, i) => {
+        if (i !== index || (poly[ringIndex]?.length ?? 0) <= 3) return poly;
+        return poly.map((ring, r) => (r === ringIndex ? ring.filter((_, v) => v !== ev.vertex) : ring));
+      })
+    );
+  }, []);
+
+  const removePart = useCallback((index: number) => {
+    setDraftPolys((prev) => prev.filter((_, i) => i !== index));
+    setSelectedPart(null);
+  }, []);
+
+  const removeHole = useCallback((index: number, hole: number) => {
+    setDraftPolys((prev) =>
+      prev.map((poly, i) => (i === index ? poly.filter((_, r) => r !== hole + 1) : poly))
+    );
+  }, []);
+
+  const applyFix = useCallback(
+    (fix: AreaFix) => {
+      try {
+        const fixed = fixArea(draftToMultiPolygon(draftPolys), fix);
+        if (!fixed) {
+          setError("Nothing would be left of the area after that fix.");
+          return;
+        }
+        setDraftPolys(areaToDraft(fixed));
+        setSelectedPart(null);
+        setError(null);
+      } catch {
+        setError("That fix didn't work on this shape. Try another, or redraw the marked part.");
+      }
+    },
+    [draftPolys]
+  );
 
   const onMapDblClick = useCallback(
     (ev: google.maps.MapMouseEvent) => {
@@ -302,13 +704,13 @@ export default function ServiceAreaEditorSafe({
       return;
     }
 
-    if (draftPolys.length !== 1) {
-      setError("Each service area must have exactly one polygon.");
+    const problem = draftProblem(draftPolys);
+    if (problem) {
+      setError(problem);
       return;
     }
-
-    if (draftPolys[0].length < 3) {
-      setError("Draw at least 3 points before saving.");
+    if (validateArea(draftToMultiPolygon(draftPolys)).length) {
+      setError("Fix the problems marked on the map before saving.");
       return;
     }
 
@@ -316,33 +718,23 @@ export default function ServiceAreaEditorSafe({
     setError(null);
 
     try {
-      const payload = draftToMultiPolygon(draftPolys);
-      if (activeAreaId) {
-        const { error } = await supabase.rpc("update_service_area", {
-          p_area_id: activeAreaId,
-          p_gj: payload,
-          p_name: draftName || "Untitled Area",
-          p_category_id: categoryId,
-        });
-        if (error) throw error;
-      } else {
-        const { error } = await supabase.rpc("insert_service_area", {
-          p_cleaner_id: myBusinessId,
-          p_gj: payload,
-          p_name: draftName || "Untitled Area",
-          p_category_id: categoryId,
-        });
-        if (error) throw error;
-      }
+      await saveServiceArea({
+        areaId: activeAreaId,
+        cleanerId: myBusinessId,
+        categoryId: categoryId ?? null,
+        name: draftName || "Untitled Area",
+        gj: draftToMultiPolygon(draftPolys),
+        postcodeCodes: postcodeCodes?.length ? postcodeCodes : null,
+      });
 
       resetDraft();
       await fetchAreas();
     } catch (e: any) {
-      setError(e?.message || "Failed to save area.");
+      setError(areaErrorMessage(e?.message || "") || e?.message || "Failed to save area.");
     } finally {
       setLoading(false);
     }
-  }, [activeAreaId, categoryId, draftName, draftPolys, fetchAreas, isDrawing, myBusinessId, resetDraft]);
+  }, [activeAreaId, categoryId, draftName, draftPolys, fetchAreas, isDrawing, myBusinessId, postcodeCodes, resetDraft]);
 
   const deleteArea = useCallback((area: ServiceAreaRow) => {
     setDeleteAreaId(area.id);
@@ -366,6 +758,71 @@ export default function ServiceAreaEditorSafe({
               </button>
             </div>
 
+            {!creating && (
+              <div className="border rounded-lg p-3 mb-3 space-y-2 text-sm">
+                <div className="font-medium">Or start from your base</div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    className="input w-20"
+                    min={RADIUS_MILES.min}
+                    max={RADIUS_MILES.max}
+                    value={radiusMiles}
+                    onChange={(e) => setRadiusMiles(Number(e.target.value))}
+                  />
+                  <span className="text-gray-600">miles</span>
+                  <button className="btn ml-auto" onClick={createFromRadius} disabled={!isLoaded || loading}>
+                    Radius
+                  </button>
+                </div>
+                {driveTimeOn && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      className="input w-20"
+                      min={ISOCHRONE_MINUTES.min}
+                      max={ISOCHRONE_MINUTES.max}
+                      step={5}
+                      value={driveMinutes}
+                      onChange={(e) => setDriveMinutes(Number(e.target.value))}
+                    />
+                    <span className="text-gray-600">min drive</span>
+                    <button className="btn ml-auto" onClick={createFromDriveTime} disabled={!isLoaded || loading}>
+                      Drive time
+                    </button>
+                  </div>
+                )}
+                {postcodesOn && (
+                  <button className="btn w-full" onClick={startFromPostcodes} disabled={!isLoaded || loading}>
+                    Pick postcode districts
+                  </button>
+                )}
+                <div className="text-xs text-gray-500">
+                  You can drag the points to adjust it before saving.
+                </div>
+                <div className="border-t pt-2">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={AREA_FILE_ACCEPT}
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = "";
+                      if (file) void importFile(file);
+                    }}
+                  />
+                  <button
+                    className="btn w-full"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={!isLoaded || loading}
+                  >
+                    Import GeoJSON / KML file
+                  </button>
+                </div>
+              </div>
+            )}
+
             {loading && <div className="text-sm text-gray-500 mb-2">Working...</div>}
 
             {error && (
@@ -385,18 +842,137 @@ export default function ServiceAreaEditorSafe({
 
                 {isDrawing && (
                   <div className="text-xs text-gray-600 mb-2">
-                    Drawing mode is ON - click points on the map, then press Finish Polygon.
+                    {holeFor == null
+                      ? "Drawing mode is ON - click points on the map, then press Finish Polygon."
+                      : `Drawing a hole in part ${holeFor + 1} - click points inside it, then press Finish Hole.`}
                   </div>
                 )}
 
                 <div className="text-sm text-gray-600 mb-2">
-                  Polygon: {draftPolys.length === 1 ? "ready" : "not drawn"} | Points: {drawingPoints.length} | Coverage: {formatArea(draftPolys)}
+                  Parts: {draftPolys.length} | Points: {drawingPoints.length} | Coverage: {formatArea(draftPolys)}
                 </div>
 
+                {importNotes && (
+                  <div className="mb-2 text-xs rounded border border-amber-200 bg-amber-50 p-2 text-amber-900">
+                    <div className="font-medium">Imported from file. Check the shape, then save.</div>
+                    {importNotes.length > 0 && (
+                      <ul className="list-disc pl-4 mt-1">
+                        {importNotes.map((note) => (
+                          <li key={note}>{note}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {draftIssues.length > 0 && (
+                  <div className="mb-2 text-xs rounded border border-red-200 bg-red-50 p-2 text-red-800">
+                    <ul className="list-disc pl-4">
+                      {[...new Set(draftIssues.map((i) => i.code))].map((code) => (
+                        <li key={code}>{AREA_ISSUE_MESSAGES[code]}</li>
+                      ))}
+                    </ul>
+                    {draftIssues.some((i) => i.code !== "too_large") && (
+                      <div className="mt-1">The problem spots are marked on the map.</div>
+                    )}
+                    {postcodeCodes && draftIssues.some((i) => i.code === "tiny_ring") && (
+                      <div className="mt-1">
+                        Postcode boundaries can leave slivers where they meet. A fix cleans up the shape and keeps
+                        your postcode list.
+                      </div>
+                    )}
+                    {draftIssues.some((i) => i.code !== "too_large") && (
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {FIXES.map(({ fix, label, hint }) => (
+                          <button key={fix} className="btn" title={hint} onClick={() => applyFix(fix)} disabled={loading}>
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {postcodeCodes && (
+                  <>
+                    <PostcodePicker
+                      codes={postcodeCodes}
+                      missing={missingCodes}
+                      level={postcodeLevel}
+                      busy={loading}
+                      onLevelChange={setPostcodeLevel}
+                      onChange={applyCodes}
+                    />
+                    <button
+                      type="button"
+                      className="text-xs underline mb-2"
+                      onClick={() => {
+                        setPostcodeCodes(null);
+                        setMissingCodes([]);
+                      }}
+                      disabled={loading}
+                    >
+                      Adjust the shape by hand instead (drops the postcode list)
+                    </button>
+                  </>
+                )}
+
+                {!postcodeCodes && draftPolys.length > 0 && (
+                  <ul className="mb-2 space-y-1 text-sm">
+                    {draftPolys.map((poly, index) => (
+                      <li
+                        key={index}
+                        className={`rounded border p-2 ${selectedPart === index ? "border-blue-500 bg-blue-50" : ""}`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <button
+                            type="button"
+                            className="font-medium hover:underline"
+                            onClick={() => setSelectedPart(index)}
+                          >
+                            Part {index + 1}
+                          </button>
+                          <span className="flex gap-2">
+                            <button
+                              type="button"
+                              className="text-xs underline"
+                              onClick={() => startDrawing(index)}
+                              disabled={loading || isDrawing}
+                            >
+                              Add hole
+                            </button>
+                            <button
+                              type="button"
+                              className="text-xs underline text-red-700"
+                              onClick={() => removePart(index)}
+                              disabled={loading || isDrawing}
+                            >
+                              Delete
+                            </button>
+                          </span>
+                        </div>
+                        {poly.slice(1).map((_, hole) => (
+                          <div key={hole} className="flex items-center justify-between text-xs text-gray-600 pl-3">
+                            <span>Hole {hole + 1}</span>
+                            <button
+                              type="button"
+                              className="underline"
+                              onClick={() => removeHole(index, hole)}
+                              disabled={loading || isDrawing}
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ))}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
                 <div className="flex flex-wrap gap-2">
                   {isDrawing && (
                     <button className="btn" onClick={finishPolygon} disabled={drawingPoints.length < 3 || loading}>
-                      Finish Polygon
+                      {holeFor == null ? "Finish Polygon" : "Finish Hole"}
                     </button>
                   )}
                   {isDrawing && (
@@ -408,9 +984,9 @@ export default function ServiceAreaEditorSafe({
                       Undo Point
                     </button>
                   )}
-                  {creating && !isDrawing && draftPolys.length === 0 && (
-                    <button className="btn" onClick={() => setIsDrawing(true)} disabled={loading}>
-                      Draw Polygon
+                  {creating && !isDrawing && !postcodeCodes && (
+                    <button className="btn" onClick={() => startDrawing(null)} disabled={loading}>
+                      {draftPolys.length ? "Add Polygon" : "Draw Polygon"}
                     </button>
                   )}
                   <button className="btn" onClick={saveDraft} disabled={loading || isDrawing}>
@@ -425,6 +1001,11 @@ export default function ServiceAreaEditorSafe({
                       setDraftPolys([]);
                       setDrawingPoints([]);
                       setIsDrawing(false);
+                      setHoleFor(null);
+                      setSelectedPart(null);
+                      setPostcodeCodes((prev) => (prev ? [] : null));
+                      setMissingCodes([]);
+                      setImportNotes(null);
                     }}
                     disabled={loading || (!draftPolys.length && !drawingPoints.length)}
                   >
@@ -439,6 +1020,9 @@ export default function ServiceAreaEditorSafe({
                 <li key={area.id} className="border rounded-lg p-3 bg-white">
                   <button type="button" className="text-left w-full group" onClick={() => zoomToArea(area)}>
                     <div className="font-medium truncate group-hover:underline">{area.name}</div>
+                    {area.postcode_codes?.length ? (
+                      <div className="text-xs text-gray-600 truncate">{area.postcode_codes.join(", ")}</div>
+                    ) : null}
                     <div className="text-xs text-gray-500 mt-1">
                       {new Date(area.created_at).toLocaleString()}
                     </div>
@@ -479,6 +1063,25 @@ export default function ServiceAreaEditorSafe({
                       Manage
                     </button>
                   </div>
+
+                  <div className="mt-2 text-xs text-gray-600">
+                    Download as{" "}
+                    <button
+                      type="button"
+                      className="underline"
+                      onClick={() => downloadAreaFile(area, "geojson")}
+                    >
+                      GeoJSON
+                    </button>{" "}
+                    or{" "}
+                    <button
+                      type="button"
+                      className="underline"
+                      onClick={() => downloadAreaFile(area, "kml")}
+                    >
+                      KML
+                    </button>
+                  </div>
                 </li>
               ))}
 
@@ -488,13 +1091,44 @@ export default function ServiceAreaEditorSafe({
             </ul>
           </div>
 
+          <div className="card card-pad text-sm text-gray-600">
+            <label className="flex items-center gap-2 font-semibold text-gray-900">
+              <input
+                type="checkbox"
+                checked={showDemand}
+                onChange={(e) => setShowDemand(e.target.checked)}
+                disabled={!categoryId}
+              />
+              Show unmet demand
+            </label>
+            <div className="text-xs mt-1">
+              Searches in the last {DEMAND_DAYS} days that found no business. Darker squares = more
+              people looking. Worth extending your area (or sponsoring) there.
+            </div>
+            {showDemand && !demandError && (
+              <div className="text-xs mt-2">
+                {demandTotal
+                  ? `${demandTotal} unanswered searches in ${demandCells.length} spots`
+                  : "No unanswered searches yet."}
+              </div>
+            )}
+            {demandError && <div className="text-xs mt-2 text-red-600">{demandError}</div>}
+          </div>
+
           <div className="card card-pad text-sm text-gray-600">
             <div className="font-semibold mb-1">How to use the map</div>
             <ul className="list-disc pl-5 space-y-1 text-xs">
-              <li>Click New Area.</li>
+              <li>Click New Area, or start from a radius{driveTimeOn ? " or drive time" : ""} around your base.</li>
               <li>Click around the map to add points.</li>
               <li>Press Finish Polygon, then Save Area.</li>
-              <li>Each service area can contain one polygon only.</li>
+              <li>Add Polygon covers another, separate patch in the same area.</li>
+              <li>Add hole cuts out a patch you don't cover, e.g. an estate.</li>
+              <li>Drag a point to move it; right-click a point to delete it.</li>
+              {postcodesOn && (
+                <li>Pick postcode districts to build the area from BT19, BT20… and click the map to add or remove one.</li>
+              )}
+              <li>Import a GeoJSON or KML file (e.g. from Google My Maps), or download an area to use elsewhere.</li>
+              <li>A red outline and ! pins mark a problem (e.g. the outline crossing itself); use the fix buttons or move the points.</li>
             </ul>
           </div>
         </div>
@@ -515,38 +1149,65 @@ export default function ServiceAreaEditorSafe({
               onClick={onMapClick}
               onDblClick={onMapDblClick}
             >
-              {serviceAreas.map((area) => {
-                const ring = firstPolygonRing(area.gj);
-                if (ring.length < 3) return null;
-                return (
-                  <Polygon
-                    key={`area-${area.id}`}
-                    paths={ring}
-                    options={{
-                      ...basePolyOptions,
-                      strokeColor: "#111827",
-                      fillColor: "#111827",
-                      fillOpacity: activeAreaId ? 0.05 : 0.08,
-                      zIndex: 100,
-                    }}
-                  />
-                );
-              })}
+              {serviceAreas.map((area) =>
+                // the area being edited is shown by its draft instead
+                area.id === activeAreaId
+                  ? null
+                  : areaToDraft(area.gj).map((poly, index) => (
+                      <Polygon
+                        key={`area-${area.id}-${index}`}
+                        paths={poly}
+                        options={{
+                          ...basePolyOptions,
+                          strokeColor: "#111827",
+                          fillColor: "#111827",
+                          fillOpacity: activeAreaId ? 0.05 : 0.08,
+                          zIndex: 100,
+                        }}
+                      />
+                    ))
+              )}
 
-              {draftPolys.map((ring, index) => (
+              {draftPolys.map((poly, index) => (
                 <Polygon
                   key={`draft-${index}`}
-                  paths={ring}
+                  paths={poly}
+                  onLoad={(p) => {
+                    draftRefs.current[index] = p;
+                  }}
+                  onUnmount={() => {
+                    draftRefs.current[index] = null;
+                  }}
+                  onMouseUp={() => syncDraftPart(index)}
+                  onRightClick={(ev) => removeVertex(index, ev)}
+                  onClick={() => setSelectedPart(index)}
                   options={{
                     ...basePolyOptions,
-                    strokeColor: "#2563eb",
+                    strokeColor: issueParts.has(index) ? "#dc2626" : "#2563eb",
+                    strokeWeight: selectedPart === index ? 3 : 2,
                     fillColor: "#2563eb",
                     fillOpacity: 0.2,
+                    // clicks must reach the map while drawing (holes are drawn on top)
+                    // and when picking postcodes (click again to remove one)
+                    clickable: !isDrawing && !postcodeCodes,
+                    editable: !isDrawing && !postcodeCodes,
                     zIndex: 300,
                   }}
                 />
               ))}
 
+              {draftIssues.map((issue, index) =>
+                issue.at ? (
+                  <MarkerF
+                    key={`issue-${index}`}
+                    position={{ lat: issue.at[1], lng: issue.at[0] }}
+                    title={AREA_ISSUE_MESSAGES[issue.code]}
+                    label="!"
+                    zIndex={600}
+                  />
+                ) : null
+              )}
+
               {drawingPoints.length > 0 && (
                 <Polyline
                   path={drawingPoints}
@@ -567,6 +1228,29 @@ export default function ServiceAreaEditorSafe({
                 />
               )}
 
+              {showDemand &&
+                demandCells.map((cell) => {
+                  const half = DEMAND_CELL_DEG / 2;
+                  return (
+                    <Rectangle
+                      key={`demand-${cell.lat},${cell.lng}`}
+                      bounds={{
+                        north: cell.lat + half,
+                        south: cell.lat - half,
+                        east: cell.lng + half,
+                        west: cell.lng - half,
+                      }}
+                      options={{
+                        strokeWeight: 0,
+                        fillColor: "#dc2626",
+                        fillOpacity: 0.15 + 0.5 * (cell.unmet / (demandMax || 1)),
+                        clickable: false,
+                        zIndex: 50,
+                      }}
+                    />
+                  );
+                })}
+
               {previewPolys.map((poly, index) => (
                 <Polygon
                   key={`preview-${index}`}
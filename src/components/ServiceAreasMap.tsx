@@ -0,0 +1,70 @@
+// src/components/ServiceAreasMap.tsx
+// Read-only map of a business's service areas (public profile page).
+import { useCallback, useMemo } from "react";
+import { GoogleMap, Polygon } from "@react-google-maps/api";
+import type { MultiPolygon, Polygon as GeoPolygon, Position } from "geojson";
+import { useGoogleMaps } from "../lib/googleMaps";
+
+type LatLng = google.maps.LatLngLiteral;
+
+type Area = { id: string; name: string; gj: GeoPolygon | MultiPolygon };
+
+type Props = {
+  areas: Area[];
+  height?: number;
+};
+
+const DEFAULT_CENTER = { lat: 54.607868, lng: -5.926437 };
+
+const polyOptions: google.maps.PolygonOptions = {
+  strokeColor: "#047857",
+  strokeWeight: 2,
+  strokeOpacity: 0.9,
+  fillColor: "#10b981",
+  fillOpacity: 0.2,
+  clickable: false,
+};
+
+// GeoJSON Polygon / MultiPolygon -> one paths array (outer ring + holes) per polygon
+function toPolygons(gj: GeoPolygon | MultiPolygon): LatLng[][][] {
+  const ring = (r: Position[]) => r.map(([lng, lat]) => ({ lat, lng }));
+  if (gj?.type === "Polygon") return [gj.coordinates.map(ring)];
+  if (gj?.type === "MultiPolygon") return gj.coordinates.map((poly) => poly.map(ring));
+  return [];
+}
+
+export default function ServiceAreasMap({ areas, height = 360 }: Props) {
+  const { isLoaded, loadError } = useGoogleMaps();
+
+  const polygons = useMemo(
+    () => areas.flatMap((a) => toPolygons(a.gj).map((paths, i) => ({ key: `${a.id}-${i}`, paths }))),
+    [areas]
+  );
+
+  const fit = useCallback(
+    (map: google.maps.Map) => {
+      if (!polygons.length) return;
+      const bounds = new google.maps.LatLngBounds();
+      polygons.forEach((p) => p.paths[0]?.forEach((pt) => bounds.extend(pt)));
+      map.fitBounds(bounds, 24);
+    },
+    [polygons]
+  );
+
+  if (loadError) return <div className="muted text-sm">Map failed to load.</div>;
+  if (!isLoaded) return <div className="muted text-sm">Loading map…</div>;
+
+  return (
+    <GoogleMap
+      mapContainerStyle={{ width: "100%", height: `${height}px` }}
+      center={DEFAULT_CENTER}
+      zoom={9}
+      onLoad={fit}
+      options={{ streetViewControl: false, mapTypeControl: false, fullscreenControl: false }}
+    >
+      {polygons.map((p) => (
+        <Polygon key={p.key} paths={p.paths} options={polyOptions} />
+      ))}
+    </GoogleMap>
+  );
+}
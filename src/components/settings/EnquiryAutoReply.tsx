@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import {
+  MAX_TEMPLATE_LENGTH,
+  REPLY_PLACEHOLDERS,
+  SAMPLE_VARS,
+  placeholderToken,
+  renderReplyTemplate,
+} from "../../lib/replyTemplates";
+
+type Props = {
+  cleanerId: string;
+  businessName?: string | null;
+};
+
+const DEFAULT_TEMPLATE =
+  "Hi {{customer_name}},\n\nThanks for getting in touch with {{business_name}}. " +
+  "We've got your enquiry and will come back to you shortly with a price and the next " +
+  "available date in {{area}}.\n\nThanks!";
+
+// Auto-reply sent to customers by sendEnquiry instead of the generic copy.
+export default function EnquiryAutoReply({ cleanerId, businessName }: Props) {
+  const [enabled, setEnabled] = useState(false);
+  const [template, setTemplate] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const textRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("cleaners")
+        .select("auto_reply_enabled, auto_reply_template")
+        .eq("id", cleanerId)
+        .maybeSingle();
+      if (!alive) return;
+      if (error) setErr(error.message);
+      setEnabled(!!data?.auto_reply_enabled);
+      setTemplate(data?.auto_reply_template || DEFAULT_TEMPLATE);
+      setLoading(false);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [cleanerId]);
+
+  function insertPlaceholder(key: string) {
+    const token = placeholderToken(key);
+    const el = textRef.current;
+    const start = el?.selectionStart ?? template.length;
+    const end = el?.selectionEnd ?? template.length;
+    setTemplate((t) => t.slice(0, start) + token + t.slice(end));
+    setMsg(null);
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  }
+
+  async function save() {
+    setSaving(true);
+    setMsg(null);
+    setErr(null);
+    const { error } = await supabase
+      .from("cleaners")
+      .update({
+        auto_reply_enabled: enabled,
+        auto_reply_template: template.trim() || null,
+      })
+      .eq("id", cleanerId);
+    setSaving(false);
+    if (error) setErr(error.message);
+    else setMsg("Auto-reply saved.");
+  }
+
+  if (loading) return <div className="text-sm text-gray-500">Loading auto-reply…</div>;
+
+  // customer_name as sendEnquiry fills it in the auto-reply
+  const preview = renderReplyTemplate(template, {
+    ...SAMPLE_VARS,
+    customer_name: "there",
+    business_name: businessName || SAMPLE_VARS.business_name,
+  });
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => {
+            setEnabled(e.target.checked);
+            setMsg(null);
+          }}
+        />
+        Send my own reply to customers when they enquire
+      </label>
+
+      <textarea
+        ref={textRef}
+        className="w-full border rounded px-3 py-2"
+        rows={6}
+        maxLength={MAX_TEMPLATE_LENGTH}
+        value={template}
+        onChange={(e) => {
+          setTemplate(e.target.value);
+          setMsg(null);
+        }}
+        disabled={!enabled}
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-gray-500">Insert:</span>
+        {REPLY_PLACEHOLDERS.map((p) => (
+          <button
+            key={p.key}
+            type="button"
+            className="rounded-full border px-2 py-0.5 text-xs hover:bg-gray-50 disabled:opacity-50"
+            onClick={() => insertPlaceholder(p.key)}
+            disabled={!enabled}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      {enabled && (
+        <div className="rounded-xl bg-gray-50 border p-3 text-sm whitespace-pre-line">
+          <div className="text-xs text-gray-500 mb-1">Preview</div>
+          {preview}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Add your prices or a booking link. Customer name always reads “there” (the address isn’t
+        confirmed yet), and their enquiry is on the conversation page linked underneath.
+      </p>
+
+      {msg && <div className="text-green-700 text-sm">{msg}</div>}
+      {err && <div className="text-red-700 text-sm">{err}</div>}
+
+      <button
+        className="bg-black text-white px-4 py-2 rounded disabled:opacity-60"
+        onClick={save}
+        disabled={saving || (enabled && !template.trim())}
+      >
+        {saving ? "Saving…" : "Save auto-reply"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import {
+  LEAD_CHANNELS,
+  hasWebhookSecret,
+  rotateWebhookSecret,
+  type LeadChannel,
+} from "../../lib/leadDelivery";
+
+type Props = {
+  cleanerId: string;
+};
+
+// Which channels new leads are delivered on: email, SMS, webhook.
+export default function LeadDeliverySettings({ cleanerId }: Props) {
+  const [channels, setChannels] = useState<LeadChannel[]>(["email"]);
+  const [smsTo, setSmsTo] = useState("");
+  const [webhookUrl, setWebhookUrl] = useState("");
+  // the secret itself is only seen right after it's made
+  const [hasSecret, setHasSecret] = useState(false);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [rotating, setRotating] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      setLoading(true);
+      const [{ data, error }, { data: targets, error: targetsErr }, secretSet] = await Promise.all([
+        supabase.from("cleaners").select("lead_channels").eq("id", cleanerId).maybeSingle(),
+        // only this business can read its own number and hook URL
+        supabase
+          .from("lead_delivery_targets")
+          .select("sms_to, webhook_url")
+          .eq("cleaner_id", cleanerId)
+          .maybeSingle(),
+        hasWebhookSecret().catch((e: unknown) => {
+          console.warn("webhook secret check failed", e);
+          return false;
+        }),
+      ]);
+      if (!alive) return;
+      if (error || targetsErr) setErr((error || targetsErr)!.message);
+      const saved = (data?.lead_channels as LeadChannel[] | null) ?? [];
+      setChannels(saved.length ? saved : ["email"]);
+      setSmsTo(targets?.sms_to || "");
+      setWebhookUrl(targets?.webhook_url || "");
+      setHasSecret(secretSet);
+      setLoading(false);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [cleanerId]);
+
+  function toggle(ch: LeadChannel) {
+    setChannels((prev) => (prev.includes(ch) ? prev.filter((c) => c !== ch) : [...prev, ch]));
+    setMsg(null);
+  }
+
+  async function rotateSecret() {
+    setRotating(true);
+    setErr(null);
+    try {
+      setNewSecret(await rotateWebhookSecret());
+      setHasSecret(true);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Couldn’t create a secret.");
+    } finally {
+      setRotating(false);
+    }
+  }
+
+  const wantsSms = channels.includes("sms");
+  const wantsWebhook = channels.includes("webhook");
+  const smsOk = !wantsSms || /^(\+44|0)7\d{9}$/.test(smsTo.replace(/\s+/g, ""));
+  const webhookOk = !wantsWebhook || /^https:\/\/\S+$/i.test(webhookUrl.trim());
+  const canSave = channels.length > 0 && smsOk && webhookOk && !saving;
+
+  async function save() {
+    setSaving(true);
+    setMsg(null);
+    setErr(null);
+    const [{ error: channelsErr }, { error: targetsErr }] = await Promise.all([
+      supabase.from("cleaners").update({ lead_channels: channels }).eq("id", cleanerId),
+      supabase.from("lead_delivery_targets").upsert(
+        {
+          cleaner_id: cleanerId,
+          sms_to: smsTo.trim() || null,
+          webhook_url: webhookUrl.trim() || null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "cleaner_id" }
+      ),
+    ]);
+    const error = channelsErr || targetsErr;
+    setSaving(false);
+    if (error) {
+      setErr(error.message);
+      return;
+    }
+    setMsg("Lead delivery saved.");
+    // webhooks aren't sent unsigned, so the first save makes a secret
+    if (wantsWebhook && !hasSecret) await rotateSecret();
+  }
+
+  if (loading) return <div className="text-sm text-gray-500">Loading lead delivery…</div>;
+
+  return (
+    <div className="space-y-3">
+      {LEAD_CHANNELS.map((c) => (
+        <label key={c.key} className="flex items-start gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="mt-1"
+            checked={channels.includes(c.key)}
+            onChange={() => toggle(c.key)}
+          />
+          <span>
+            <span className="font-medium">{c.label}</span>
+            <span className="block text-xs text-gray-500">{c.hint}</span>
+          </span>
+        </label>
+      ))}
+
+      {wantsSms && (
+        <label className="block">
+          <span className="text-sm">Mobile number for texts</span>
+          <input
+            className="w-full border rounded px-3 py-2"
+            value={smsTo}
+            onChange={(e) => {
+              setSmsTo(e.target.value);
+              setMsg(null);
+            }}
+            placeholder="07…"
+          />
+          {!smsOk && (
+            <span className="text-xs text-red-700">Enter a UK mobile number.</span>
+          )}
+        </label>
+      )}
+
+      {wantsWebhook && (
+        <div className="space-y-2">
+          <label className="block">
+            <span className="text-sm">Webhook URL</span>
+            <input
+              className="w-full border rounded px-3 py-2"
+              value={webhookUrl}
+              onChange={(e) => {
+                setWebhookUrl(e.target.value);
+                setMsg(null);
+              }}
+              placeholder="https://your-crm.example.com/hooks/kleanly"
+            />
+            {!webhookOk && (
+              <span className="text-xs text-red-700">Must be an https:// URL.</span>
+            )}
+          </label>
+
+          <div className="text-sm">
+            <span>Signing secret</span>
+            <div className="flex items-center gap-2 mt-1">
+              <code className="flex-1 truncate rounded bg-gray-50 border px-2 py-1 text-xs">
+                {newSecret ?? (hasSecret ? "•••••••• (set)" : "Created when you save")}
+              </code>
+              {hasSecret && (
+                <button
+                  type="button"
+                  className="text-xs underline disabled:opacity-60"
+                  onClick={() => void rotateSecret()}
+                  disabled={rotating}
+                >
+                  {rotating ? "Regenerating…" : "Regenerate"}
+                </button>
+              )}
+            </div>
+            {newSecret && (
+              <p className="text-xs text-amber-800 mt-1">
+                Copy this into your CRM now – it won’t be shown again.
+              </p>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              Each request has <code>X-Kleanly-Timestamp</code> and{" "}
+              <code>X-Kleanly-Signature: sha256=…</code>, an HMAC-SHA256 of{" "}
+              <code>timestamp.body</code> with this secret.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {channels.length === 0 && (
+        <p className="text-xs text-red-700">Pick at least one way to receive leads.</p>
+      )}
+      {msg && <div className="text-green-700 text-sm">{msg}</div>}
+      {err && <div className="text-red-700 text-sm">{err}</div>}
+
+      <button
+        className="bg-black text-white px-4 py-2 rounded disabled:opacity-60"
+        onClick={save}
+        disabled={!canSave}
+      >
+        {saving ? "Saving…" : "Save lead delivery"}
+      </button>
+    </div>
+  );
+}
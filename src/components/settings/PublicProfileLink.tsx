@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "../../lib/supabase";
+import { isValidSlug, profileUrl, slugify } from "../../lib/publicProfile";
+
+type Props = {
+  cleanerId: string;
+  businessName: string | null;
+};
+
+// The address of the public /b/:slug page, to put on vans and socials.
+export default function PublicProfileLink({ cleanerId, businessName }: Props) {
+  const [slug, setSlug] = useState("");
+  const [savedSlug, setSavedSlug] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("cleaners")
+        .select("slug")
+        .eq("id", cleanerId)
+        .maybeSingle();
+      if (!alive) return;
+      if (error) setErr(error.message);
+      setSavedSlug(data?.slug ?? null);
+      setSlug(data?.slug || slugify(businessName || ""));
+      setLoading(false);
+    })();
+    return () => {
+      alive = false;
+    };
+    // suggest from the name only on first load
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cleanerId]);
+
+  const valid = isValidSlug(slug);
+
+  async function save() {
+    setSaving(true);
+    setMsg(null);
+    setErr(null);
+    const { error } = await supabase.from("cleaners").update({ slug }).eq("id", cleanerId);
+    setSaving(false);
+    if (error) {
+      setErr(error.code === "23505" ? "That address is already taken." : error.message);
+      return;
+    }
+    setSavedSlug(slug);
+    setMsg("Public page address saved.");
+  }
+
+  async function copy() {
+    if (!savedSlug) return;
+    try {
+      await navigator.clipboard.writeText(profileUrl(savedSlug));
+      setMsg("Link copied.");
+    } catch {
+      setErr("Could not copy – select the link and copy it instead.");
+    }
+  }
+
+  if (loading) return <div className="text-sm text-gray-500">Loading public page…</div>;
+
+  return (
+    <div className="space-y-3">
+      <label className="block">
+        <span className="text-sm">Page address</span>
+        <div className="flex items-center gap-1">
+          <span className="text-sm text-gray-500">{window.location.host}/b/</span>
+          <input
+            className="flex-1 border rounded px-3 py-2"
+            value={slug}
+            onChange={(e) => {
+              setSlug(e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, ""));
+              setMsg(null);
+            }}
+            placeholder="your-business"
+          />
+        </div>
+        {!valid && slug && (
+          <span className="text-xs text-red-700">
+            3–60 letters, numbers or dashes, not starting or ending with a dash.
+          </span>
+        )}
+      </label>
+
+      {savedSlug && (
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <Link className="underline" to={`/b/${savedSlug}`} target="_blank" rel="noreferrer">
+            {profileUrl(savedSlug)}
+          </Link>
+          <button type="button" className="text-xs underline" onClick={copy}>
+            Copy link
+          </button>
+        </div>
+      )}
+
+      {msg && <div className="text-green-700 text-sm">{msg}</div>}
+      {err && <div className="text-red-700 text-sm">{err}</div>}
+
+      <button
+        className="bg-black text-white px-4 py-2 rounded disabled:opacity-60"
+        onClick={save}
+        disabled={!valid || saving || slug === savedSlug}
+      >
+        {saving ? "Saving…" : "Save address"}
+      </button>
+    </div>
+  );
+}
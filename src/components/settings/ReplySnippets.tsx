@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../../lib/supabase";
+import {
+  MAX_TEMPLATE_LENGTH,
+  REPLY_PLACEHOLDERS,
+  placeholderToken,
+  type ReplySnippet,
+} from "../../lib/replyTemplates";
+
+type Props = {
+  cleanerId: string;
+};
+
+// Canned replies, inserted from the conversation box in Leads.
+export default function ReplySnippets({ cleanerId }: Props) {
+  const [snippets, setSnippets] = useState<ReplySnippet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+
+  // id of the snippet being edited, "new" for the add form
+  const [editing, setEditing] = useState<string | null>(null);
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("reply_snippets")
+        .select("id, cleaner_id, title, body, created_at")
+        .eq("cleaner_id", cleanerId)
+        .order("title", { ascending: true });
+      if (!alive) return;
+      if (error) setErr(error.message);
+      setSnippets((data as ReplySnippet[]) || []);
+      setLoading(false);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [cleanerId]);
+
+  function startEdit(s: ReplySnippet | null) {
+    setEditing(s ? s.id : "new");
+    setTitle(s?.title ?? "");
+    setBody(s?.body ?? "");
+    setErr(null);
+  }
+
+  async function save() {
+    setBusy(true);
+    setErr(null);
+    const row = { title: title.trim(), body: body.trim() };
+
+    const q =
+      editing === "new"
+        ? supabase.from("reply_snippets").insert({ ...row, cleaner_id: cleanerId })
+        : supabase.from("reply_snippets").update(row).eq("id", editing!);
+
+    const { data, error } = await q.select("id, cleaner_id, title, body, created_at").single();
+    setBusy(false);
+    if (error) return setErr(error.message);
+
+    const saved = data as ReplySnippet;
+    setSnippets((prev) =>
+      [...prev.filter((s) => s.id !== saved.id), saved].sort((a, b) =>
+        a.title.localeCompare(b.title)
+      )
+    );
+    setEditing(null);
+  }
+
+  async function remove(id: string) {
+    if (!window.confirm("Delete this snippet?")) return;
+    setErr(null);
+    const { error } = await supabase.from("reply_snippets").delete().eq("id", id);
+    if (error) return setErr(error.message);
+    setSnippets((prev) => prev.filter((s) => s.id !== id));
+    if (editing === id) setEditing(null);
+  }
+
+  if (loading) return <div className="text-sm text-gray-500">Loading snippets…</div>;
+
+  return (
+    <div className="space-y-3">
+      {snippets.length === 0 && editing !== "new" && (
+        <p className="text-sm text-gray-500">No snippets yet.</p>
+      )}
+
+      <ul className="divide-y border rounded-xl">
+        {snippets.map((s) => (
+          <li key={s.id} className="p-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{s.title}</span>
+              <span className="flex gap-2">
+                <button className="text-xs underline" onClick={() => startEdit(s)}>
+                  Edit
+                </button>
+                <button className="text-xs underline text-red-700" onClick={() => remove(s.id)}>
+                  Delete
+                </button>
+              </span>
+            </div>
+            <p className="text-gray-600 truncate">{s.body}</p>
+          </li>
+        ))}
+      </ul>
+
+      {editing ? (
+        <div className="space-y-2 border rounded-xl p-3">
+          <input
+            className="w-full border rounded px-3 py-2"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Title, e.g. Price list"
+          />
+          <textarea
+            className="w-full border rounded px-3 py-2"
+            rows={4}
+            maxLength={MAX_TEMPLATE_LENGTH}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Hi {{customer_name}}, …"
+          />
+          <p className="text-xs text-gray-500">
+            Placeholders: {REPLY_PLACEHOLDERS.map((p) => placeholderToken(p.key)).join(", ")}
+          </p>
+          <div className="flex gap-2">
+            <button
+              className="bg-black text-white px-4 py-2 rounded disabled:opacity-60"
+              onClick={save}
+              disabled={busy || !title.trim() || !body.trim()}
+            >
+              {busy ? "Saving…" : "Save snippet"}
+            </button>
+            <button className="px-4 py-2 rounded border" onClick={() => setEditing(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button className="px-4 py-2 rounded border" onClick={() => startEdit(null)}>
+          Add snippet
+        </button>
+      )}
+
+      {err && <div className="text-red-700 text-sm">{err}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+export type BinSizeKey = "120L" | "240L" | "360L" | "660L" | "1100L";
+
+// bin_cleaning variants in service_offerings (see ServicesMenu)
+export const BIN_SIZES: { key: BinSizeKey; label: string; commercial: boolean }[] = [
+  { key: "120L",  label: "120L",  commercial: false },
+  { key: "240L",  label: "240L",  commercial: false },
+  { key: "360L",  label: "360L",  commercial: false },
+  { key: "660L",  label: "660L",  commercial: true },
+  { key: "1100L", label: "1100L", commercial: true },
+];
@@ -0,0 +1,52 @@
+// src/constants/leadStatuses.ts
+// Enquiry ("lead") workflow: new → contacted → quoted → won / lost.
+//
+// Columns on public.enquiries (run in Supabase SQL editor):
+//   alter table public.enquiries
+//     add column if not exists status text not null default 'new'
+//       check (status in ('new','contacted','quoted','won','lost')),
+//     add column if not exists notes text,
+//     add column if not exists status_updated_at timestamptz;
+//
+//   -- businesses read / update their own leads
+//   create policy "own enquiries read" on public.enquiries for select
+//     using (cleaner_id in (select id from public.cleaners where user_id = auth.uid()));
+//   create policy "own enquiries update" on public.enquiries for update
+//     using (cleaner_id in (select id from public.cleaners where user_id = auth.uid()));
+//
+//   -- …but only these columns: the customer's real email and their
+//   -- customer_token (the key to the customer side of the thread) stay
+//   -- server-side. reply_to is the relay address enquiryService stores.
+//   alter table public.enquiries add column if not exists reply_to text;
+//   revoke select, update on public.enquiries from anon, authenticated;
+//   grant select (id, cleaner_id, user_name, user_address, user_phone, reply_to, message,
+//     quote, area_id, postcode, status, notes, status_updated_at, created_at, quarantined_at)
+//     on public.enquiries to authenticated;
+//   grant update (status, notes, status_updated_at) on public.enquiries to authenticated;
+
+export type LeadStatus = "new" | "contacted" | "quoted" | "won" | "lost";
+
+export const LEAD_STATUSES: {
+  key: LeadStatus;
+  label: string;
+  badge: string; // tailwind classes
+}[] = [
+  { key: "new", label: "New", badge: "bg-sky-50 text-sky-800 border-sky-200" },
+  { key: "contacted", label: "Contacted", badge: "bg-amber-50 text-amber-800 border-amber-200" },
+  { key: "quoted", label: "Quoted", badge: "bg-violet-50 text-violet-800 border-violet-200" },
+  { key: "won", label: "Won", badge: "bg-emerald-50 text-emerald-800 border-emerald-200" },
+  { key: "lost", label: "Lost", badge: "bg-gray-100 text-gray-600 border-gray-200" },
+];
+
+// the buttons offered from each status (won/lost can be reopened)
+export const NEXT_STATUSES: Record<LeadStatus, LeadStatus[]> = {
+  new: ["contacted", "lost"],
+  contacted: ["quoted", "lost"],
+  quoted: ["won", "lost"],
+  won: ["contacted"],
+  lost: ["contacted"],
+};
+
+export function isLeadStatus(v: unknown): v is LeadStatus {
+  return LEAD_STATUSES.some((s) => s.key === v);
+}
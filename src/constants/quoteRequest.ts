@@ -0,0 +1,58 @@
+// src/constants/quoteRequest.ts
+// Quote request in the CleanerCard enquiry form: bin sizes + quantities and
+// a frequency. Mirrors netlify/functions/_lib/quoteRequest.js, which
+// re-prices it server-side and stores it as enquiries.quote.
+import type { BinSizeKey } from "./binSizes";
+
+export type QuoteFrequency = "one_off" | "monthly" | "four_weekly";
+
+export const QUOTE_FREQUENCIES: { key: QuoteFrequency; label: string }[] = [
+  { key: "one_off", label: "One-off" },
+  { key: "monthly", label: "Monthly" },
+  { key: "four_weekly", label: "Every 4 weeks" },
+];
+
+export const MAX_BIN_QTY = 20;
+
+export type QuoteLine = {
+  size: BinSizeKey;
+  qty: number;
+  unit_price_cents?: number | null;
+};
+
+// as stored on the enquiry
+export type StoredQuote = {
+  frequency: QuoteFrequency;
+  lines: QuoteLine[];
+  indicative_total_cents: number | null;
+};
+
+export function frequencyLabel(key: string) {
+  return QUOTE_FREQUENCIES.find((f) => f.key === key)?.label ?? key;
+}
+
+export function formatPence(cents: number) {
+  return `£${(cents / 100).toFixed(2)}`;
+}
+
+/** Per-clean total, or null unless every chosen size has a price. */
+export function indicativeTotalCents(
+  lines: QuoteLine[],
+  prices: Partial<Record<string, number | null>>
+): number | null {
+  if (!lines.length) return null;
+  let total = 0;
+  for (const l of lines) {
+    const p = prices[l.size];
+    if (typeof p !== "number") return null;
+    total += p * l.qty;
+  }
+  return total;
+}
+
+// "2 × 240L, 1 × 660L – Monthly"
+export function quoteSummary(lines: QuoteLine[], frequency: string) {
+  if (!lines.length) return "";
+  const items = lines.map((l) => `${l.qty} × ${l.size}`).join(", ");
+  return `${items} – ${frequencyLabel(frequency)}`;
+}
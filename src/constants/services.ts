@@ -0,0 +1,32 @@
+export type ServiceSlug = "bin-cleaner" | "window-cleaner" | "cleaner";
+
+// service_categories.slug values offered on the public search
+export const SERVICES: {
+  slug: ServiceSlug;
+  label: string;
+  icon: string;
+  blurb: string;
+}[] = [
+  {
+    slug: "bin-cleaner",
+    label: "Bin Cleaner",
+    icon: "/icons/bin-cleaner.png",
+    blurb: "Wheelie bins, deep clean & deodorise",
+  },
+  {
+    slug: "window-cleaner",
+    label: "Window Cleaner",
+    icon: "/icons/window-cleaner.png",
+    blurb: "Windows, frames, sills",
+  },
+  {
+    slug: "cleaner",
+    label: "Domestic Cleaner",
+    icon: "/icons/general-cleaner.png",
+    blurb: "Domestic cleaning",
+  },
+];
+
+export const SERVICE_LABEL: Record<ServiceSlug, string> = Object.fromEntries(
+  SERVICES.map((s) => [s.slug, s.label])
+) as Record<ServiceSlug, string>;
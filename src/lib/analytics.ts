@@ -3,11 +3,22 @@ export type AnalyticsEvent =
   | "impression"
   | "click_message"
   | "click_phone"
-  | "click_website";
+  | "click_website"
+  | "search_filter"
+  | "profile_view"
+  // recorded server-side by sendEnquiry only (record_event rejects them)
+  | "enquiry_sent_email"
+  | "enquiry_sent_whatsapp";
+
+// an enquiry actually sent = a lead
+export const LEAD_EVENTS: AnalyticsEvent[] = ["enquiry_sent_email", "enquiry_sent_whatsapp"];
+
+// events about the search page itself rather than one business
+export const SITE_EVENTS: AnalyticsEvent[] = ["search_filter"];
 
 export type RecordEventPayload = {
   event: AnalyticsEvent;
-  cleanerId: string;
+  cleanerId: string | null; // null only for SITE_EVENTS
   categoryId?: string | null;
 
   // ⚠️ still accepted for backwards compatibility, but server prefers computed area_id
@@ -83,7 +94,7 @@ async function postEvent(url: string, body: any, preferBeacon: boolean) {
 }
 
 export async function recordEventFetch(payload: RecordEventPayload) {
-  if (!payload.cleanerId) return null;
+  if (!payload.cleanerId && !SITE_EVENTS.includes(payload.event)) return null;
 
   const body = buildBody(payload);
   const preferBeacon =
@@ -97,3 +108,24 @@ export async function recordEventFetch(payload: RecordEventPayload) {
     return await postEvent(FALLBACK_ENDPOINT, body, preferBeacon);
   }
 }
+
+// Several events in one POST (result impressions). Beacon when the page is
+// going away, so the last batch isn't lost.
+export async function recordEventsBatch(
+  payloads: RecordEventPayload[],
+  opts: { unloading?: boolean } = {}
+) {
+  const events = payloads
+    .filter((p) => p.cleanerId || SITE_EVENTS.includes(p.event))
+    .map(buildBody);
+  if (!events.length) return null;
+
+  const body = { events };
+  const preferBeacon = !!opts.unloading;
+
+  try {
+    return await postEvent(PRIMARY_ENDPOINT, body, preferBeacon);
+  } catch {
+    return await postEvent(FALLBACK_ENDPOINT, body, preferBeacon);
+  }
+}
@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { downloadArea, readAreaFile } from "./areaFiles";
+
+// jsdom's File has no text() yet
+const file = (name: string, text: string) => Object.assign(new File([text], name), { text: async () => text });
+
+const geoJsonFile = (coordinates: number[][][]) =>
+  file(
+    "area.geojson",
+    JSON.stringify({
+      type: "Feature",
+      properties: { name: "Bangor" },
+      geometry: { type: "Polygon", coordinates },
+    })
+  );
+
+// squares around Belfast / Bangor, [lng, lat] corners
+const square = (lng: number, lat: number, size: number) => [
+  [lng, lat],
+  [lng + size, lat],
+  [lng + size, lat + size],
+  [lng, lat + size],
+  [lng, lat],
+];
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("readAreaFile", () => {
+  it("flips [lat, lng] files round", async () => {
+    const latLng = square(-5.93, 54.6, 0.02).map(([lng, lat]) => [lat, lng]);
+    const { name, geometry, notes } = await readAreaFile(geoJsonFile([latLng]));
+
+    expect(name).toBe("Bangor");
+    expect(geometry.coordinates.flat(2).every(([lng, lat]) => lng < 0 && lat > 54)).toBe(true);
+    expect(notes).toContain("Coordinates were in latitude, longitude order – swapped round.");
+  });
+
+  it("keeps the holes in a KML polygon", async () => {
+    const ring = (pts: number[][]) => pts.map(([lng, lat]) => `${lng},${lat},0`).join(" ");
+    const kml = `<?xml version="1.0" encoding="UTF-8"?>
+      <kml xmlns="http://www.opengis.net/kml/2.2"><Document><Placemark><name>Holywood</name>
+        <Polygon>
+          <outerBoundaryIs><LinearRing><coordinates>${ring(square(-5.85, 54.63, 0.04))}</coordinates></LinearRing></outerBoundaryIs>
+          <innerBoundaryIs><LinearRing><coordinates>${ring(square(-5.84, 54.64, 0.01))}</coordinates></LinearRing></innerBoundaryIs>
+        </Polygon>
+      </Placemark>
+      <Placemark><name>Office</name><Point><coordinates>-5.83,54.64,0</coordinates></Point></Placemark>
+      </Document></kml>`;
+    const { name, geometry, notes } = await readAreaFile(file("holywood.kml", kml));
+
+    expect(name).toBe("Holywood");
+    expect(geometry.coordinates).toHaveLength(1);
+    expect(geometry.coordinates[0]).toHaveLength(2);
+    expect(notes).toContain("Ignored 1 line or point feature.");
+  });
+
+  it("repairs a bow-tie into valid parts", async () => {
+    const bowTie = [
+      [-5.93, 54.6],
+      [-5.91, 54.62],
+      [-5.91, 54.6],
+      [-5.93, 54.62],
+      [-5.93, 54.6],
+    ];
+    const { geometry, notes } = await readAreaFile(geoJsonFile([bowTie]));
+
+    expect(geometry.coordinates.length).toBeGreaterThan(0);
+    expect(notes).toContain("Fixed 1 place where the outline crossed itself.");
+  });
+
+  it("rejects coordinates that aren't WGS84", async () => {
+    // Irish Grid eastings / northings
+    const grid = square(333000, 372000, 1000);
+    await expect(readAreaFile(geoJsonFile([grid]))).rejects.toThrow(/WGS84/);
+  });
+
+  it("rejects files with no polygons", async () => {
+    const line = file("route.geojson", JSON.stringify({ type: "LineString", coordinates: [[-5.9, 54.6], [-5.8, 54.7]] }));
+    await expect(readAreaFile(line)).rejects.toThrow("No polygons found in that file.");
+  });
+});
+
+describe("downloadArea", () => {
+  it("revokes the object URL only after the download has started", () => {
+    vi.useFakeTimers();
+    const create = vi.fn(() => "blob:area");
+    const revoke = vi.fn();
+    Object.assign(URL, { createObjectURL: create, revokeObjectURL: revoke });
+    vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+
+    downloadArea({ name: "Bangor", gj: { type: "Polygon", coordinates: [square(-5.7, 54.65, 0.02)] } }, "kml");
+    expect(create).toHaveBeenCalledOnce();
+    expect(revoke).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+    expect(revoke).toHaveBeenCalledWith("blob:area");
+  });
+
+  it("refuses an area with no stored shape", () => {
+    expect(() => downloadArea({ name: "Empty", gj: null }, "geojson")).toThrow("This area has no shape to download.");
+  });
+});
@@ -0,0 +1,203 @@
+// src/lib/areaFiles.ts
+// Service areas to and from files: GeoJSON (what we store) and KML (what
+// Google My Maps / Earth export). Imports are cleaned up before they reach
+// the editor, where the user previews them and saves as normal.
+import type { MultiPolygon, Position } from "geojson";
+import {
+  countSelfIntersections,
+  looksLatLngOrdered,
+  removeDuplicateVertices,
+  repairSelfIntersections,
+  swapAxes,
+  toMultiPolygon,
+  type AreaGeometry,
+} from "./areaGeometry";
+import { slugify } from "./publicProfile";
+
+export type AreaFileFormat = "geojson" | "kml";
+
+export type ImportedArea = {
+  name: string | null;
+  geometry: MultiPolygon;
+  // what was changed on the way in, shown next to the preview
+  notes: string[];
+};
+
+export const AREA_FILE_ACCEPT = ".geojson,.json,.kml,application/geo+json,application/vnd.google-earth.kml+xml";
+
+// a service area file is a few hundred KB at most; anything bigger is a
+// whole-country dataset picked by mistake
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+/* ---------- export ---------- */
+
+const escapeXml = (s: string) =>
+  s.replace(/[<>&'"]/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", "'": "&apos;", '"': "&quot;" })[c]!);
+
+const kmlRing = (ring: Position[]) =>
+  `<LinearRing><coordinates>${ring.map(([lng, lat]) => `${lng},${lat}`).join(" ")}</coordinates></LinearRing>`;
+
+function toKml(name: string, geom: MultiPolygon) {
+  const polys = geom.coordinates
+    .map(
+      ([outer, ...holes]) =>
+        `<Polygon><outerBoundaryIs>${kmlRing(outer)}</outerBoundaryIs>` +
+        holes.map((h) => `<innerBoundaryIs>${kmlRing(h)}</innerBoundaryIs>`).join("") +
+        `</Polygon>`
+    )
+    .join("");
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>${escapeXml(name)}</name>`,
+    `<Placemark><name>${escapeXml(name)}</name><MultiGeometry>${polys}</MultiGeometry></Placemark>`,
+    `</Document></kml>`,
+  ].join("\n");
+}
+
+function toGeoJson(name: string, geom: MultiPolygon, codes?: string[] | null) {
+  const properties: Record<string, unknown> = { name };
+  if (codes?.length) properties.postcode_codes = codes;
+  return JSON.stringify(
+    { type: "FeatureCollection", features: [{ type: "Feature", properties, geometry: geom }] },
+    null,
+    2
+  );
+}
+
+/** Save one area as a .geojson / .kml download. Throws if the stored shape is missing. */
+export function downloadArea(
+  area: { name: string; gj: AreaGeometry | null; postcode_codes?: string[] | null },
+  format: AreaFileFormat
+) {
+  if (!area.gj?.coordinates?.length) throw new Error("This area has no shape to download.");
+  const name = area.name || "Service Area";
+  const geom = toMultiPolygon(area.gj);
+  const text = format === "kml" ? toKml(name, geom) : toGeoJson(name, geom, area.postcode_codes);
+  const type = format === "kml" ? "application/vnd.google-earth.kml+xml" : "application/geo+json";
+
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${slugify(name) || "service-area"}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // some browsers start the download after click() returns; revoking now cancels it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/* ---------- import ---------- */
+
+type Parsed = { name: string | null; polygons: Position[][][]; skipped: number };
+
+function parseKml(text: string): Parsed {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) throw new Error("That KML file couldn't be read.");
+
+  const coords = (el: Element | null | undefined): Position[] =>
+    (el?.getElementsByTagName("coordinates")[0]?.textContent || "")
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((tuple) => tuple.split(",").slice(0, 2).map(Number));
+
+  const polygons = Array.from(doc.getElementsByTagName("Polygon")).map((p) => [
+    coords(p.getElementsByTagName("outerBoundaryIs")[0]),
+    ...Array.from(p.getElementsByTagName("innerBoundaryIs")).map(coords),
+  ]);
+  const placemarks = Array.from(doc.getElementsByTagName("Placemark"));
+  const name =
+    placemarks[0]?.getElementsByTagName("name")[0]?.textContent ||
+    doc.getElementsByTagName("name")[0]?.textContent ||
+    null;
+  // lines / points carry no area
+  const skipped = placemarks.filter((pm) => !pm.getElementsByTagName("Polygon").length).length;
+  return { name: name?.trim() || null, polygons, skipped };
+}
+
+// loose view of whatever JSON the file holds
+type GeoNode = {
+  type?: string;
+  features?: GeoNode[];
+  geometry?: GeoNode | null;
+  geometries?: GeoNode[];
+  properties?: { name?: unknown } | null;
+  coordinates?: unknown;
+};
+
+function parseGeoJson(text: string): Parsed {
+  let root: GeoNode;
+  try {
+    root = JSON.parse(text);
+  } catch {
+    throw new Error("That file isn't valid GeoJSON.");
+  }
+
+  const out: Parsed = { name: null, polygons: [], skipped: 0 };
+  const walk = (geo: GeoNode | null | undefined, props?: GeoNode["properties"]) => {
+    if (!geo) return;
+    if (geo.type === "FeatureCollection") return (geo.features || []).forEach((f) => walk(f));
+    if (geo.type === "Feature") return walk(geo.geometry, geo.properties);
+    if (geo.type === "GeometryCollection") return (geo.geometries || []).forEach((g) => walk(g, props));
+
+    if (!Array.isArray(geo.coordinates) || (geo.type !== "Polygon" && geo.type !== "MultiPolygon")) {
+      out.skipped++;
+      return;
+    }
+    if (geo.type === "Polygon") out.polygons.push(geo.coordinates as Position[][]);
+    else out.polygons.push(...(geo.coordinates as Position[][][]));
+    if (!out.name && typeof props?.name === "string") out.name = props.name.trim() || null;
+  };
+  walk(root);
+  return out;
+}
+
+function closeRing(ring: Position[]): Position[] | null {
+  const pts = ring.filter((p) => Array.isArray(p) && Number.isFinite(p[0]) && Number.isFinite(p[1]));
+  if (pts.length < 3) return null;
+  const [f, l] = [pts[0], pts[pts.length - 1]];
+  const closed = f[0] === l[0] && f[1] === l[1] ? pts : [...pts, f];
+  return closed.length >= 4 ? closed.map(([x, y]) => [x, y]) : null;
+}
+
+/**
+ * Read a .geojson / .kml file into one clean MultiPolygon: every polygon in
+ * it becomes a part, rings are closed, [lat, lng] files are flipped round,
+ * and self-intersections / overlapping parts are repaired.
+ */
+export async function readAreaFile(file: File): Promise<ImportedArea> {
+  if (file.size > MAX_FILE_BYTES) throw new Error("That file is too big for a service area.");
+  const text = await file.text();
+  const isKml = /\.kml$/i.test(file.name) || text.trimStart().startsWith("<");
+  const parsed = isKml ? parseKml(text) : parseGeoJson(text);
+
+  const notes: string[] = [];
+  const polygons = parsed.polygons
+    .map(([outer, ...holes]) => {
+      const o = outer && closeRing(outer);
+      return o ? [o, ...holes.map(closeRing).filter((h): h is Position[] => !!h)] : null;
+    })
+    .filter((p): p is Position[][] => !!p);
+  if (!polygons.length) throw new Error("No polygons found in that file.");
+
+  const dropped = parsed.polygons.length - polygons.length;
+  if (dropped) notes.push(`Left out ${dropped} polygon${dropped === 1 ? "" : "s"} with too few points.`);
+  if (parsed.skipped) notes.push(`Ignored ${parsed.skipped} line or point feature${parsed.skipped === 1 ? "" : "s"}.`);
+
+  let geom: MultiPolygon = { type: "MultiPolygon", coordinates: polygons };
+  if (looksLatLngOrdered(geom)) {
+    geom = swapAxes(geom);
+    notes.push("Coordinates were in latitude, longitude order – swapped round.");
+  }
+  if (geom.coordinates.flat(2).some(([lng, lat]) => Math.abs(lng) > 180 || Math.abs(lat) > 90)) {
+    throw new Error("Coordinates must be longitude / latitude (WGS84). Re-export the file in that format.");
+  }
+
+  const kinks = countSelfIntersections(removeDuplicateVertices(geom));
+  const repaired = repairSelfIntersections(geom);
+  if (!repaired) throw new Error("Nothing was left of that shape after repairing it.");
+  if (kinks) notes.push(`Fixed ${kinks} place${kinks === 1 ? "" : "s"} where the outline crossed itself.`);
+  if (repaired.coordinates.length < geom.coordinates.length) notes.push("Merged overlapping polygons.");
+
+  return { name: parsed.name, geometry: repaired, notes };
+}
@@ -0,0 +1,90 @@
+import { area, multiPolygon } from "@turf/turf";
+import type { MultiPolygon, Position } from "geojson";
+import { describe, expect, it } from "vitest";
+import { fixArea, validateArea } from "./areaGeometry";
+
+// [lng, lat] squares near Belfast; 0.01° is roughly 640 m x 1.1 km
+const square = (lng: number, lat: number, size: number): Position[] => [
+  [lng, lat],
+  [lng + size, lat],
+  [lng + size, lat + size],
+  [lng, lat + size],
+  [lng, lat],
+];
+const multi = (...polys: Position[][][]): MultiPolygon => ({ type: "MultiPolygon", coordinates: polys });
+const codes = (geom: MultiPolygon) => validateArea(geom).map((i) => i.code);
+const m2 = (geom: MultiPolygon) => area(multiPolygon(geom.coordinates));
+
+const bowTie: Position[] = [
+  [-5.93, 54.6],
+  [-5.91, 54.62],
+  [-5.91, 54.6],
+  [-5.93, 54.62],
+  [-5.93, 54.6],
+];
+
+describe("validateArea", () => {
+  it("passes a clean area with a hole", () => {
+    expect(validateArea(multi([square(-5.93, 54.6, 0.04), square(-5.92, 54.61, 0.01)]))).toEqual([]);
+  });
+
+  it("points at a repeated vertex", () => {
+    const ring = square(-5.93, 54.6, 0.02);
+    ring.splice(2, 0, ring[1]);
+    expect(validateArea(multi([ring]))).toEqual([{ code: "duplicate_vertex", part: 0, at: ring[1] }]);
+  });
+
+  it("flags a crossed outline without also calling it tiny", () => {
+    const issues = validateArea(multi([square(-5.8, 54.6, 0.02)], [bowTie]));
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ code: "self_intersection", part: 1 });
+    expect(issues[0].at![0]).toBeCloseTo(-5.92);
+    expect(issues[0].at![1]).toBeCloseTo(54.61);
+  });
+
+  it("flags stray-click parts and holes", () => {
+    expect(codes(multi([square(-5.93, 54.6, 0.02)], [square(-5.8, 54.6, 0.0002)]))).toEqual(["tiny_ring"]);
+    expect(codes(multi([square(-5.93, 54.6, 0.02), square(-5.92, 54.61, 0.0002)]))).toEqual(["tiny_ring"]);
+  });
+
+  it("flags areas over the size limit", () => {
+    expect(validateArea(multi([square(-7, 54, 1)]))).toEqual([{ code: "too_large", part: null, at: null }]);
+  });
+});
+
+describe("fixArea", () => {
+  it("untangles a bow-tie, keeping both lobes", () => {
+    const fixed = fixArea(multi([bowTie]), "unkink")!;
+    expect(validateArea(fixed)).toEqual([]);
+    expect(fixed.coordinates).toHaveLength(2);
+  });
+
+  it("rebuilds a bow-tie as one valid piece", () => {
+    const unkinked = fixArea(multi([bowTie]), "unkink")!;
+    const rebuilt = fixArea(multi([bowTie]), "buffer0")!;
+    expect(validateArea(rebuilt)).toEqual([]);
+    expect(m2(rebuilt)).toBeLessThan(m2(unkinked));
+  });
+
+  it("simplifies away repeated points", () => {
+    const ring = square(-5.93, 54.6, 0.02);
+    ring.splice(2, 0, ring[1]);
+    const fixed = fixArea(multi([ring]), "simplify")!;
+    expect(validateArea(fixed)).toEqual([]);
+    expect(fixed.coordinates[0][0]).toHaveLength(5);
+  });
+
+  it("drops tiny parts and holes whatever the fix", () => {
+    const geom = multi([square(-5.93, 54.6, 0.04), square(-5.92, 54.61, 0.0002)], [square(-5.8, 54.6, 0.0002)]);
+    for (const fix of ["unkink", "simplify", "buffer0"] as const) {
+      const fixed = fixArea(geom, fix)!;
+      expect(validateArea(fixed)).toEqual([]);
+      expect(fixed.coordinates).toHaveLength(1);
+      expect(fixed.coordinates[0]).toHaveLength(1);
+    }
+  });
+
+  it("gives null when nothing is left", () => {
+    expect(fixArea(multi([square(-5.8, 54.6, 0.0002)]), "unkink")).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+// src/lib/areaGeometry.ts
+// Geometry checks and clean-up for service areas: axis order and repair for
+// imported files, and the validation (plus one-click fixes) the editor runs
+// before saving. Saves go through netlify/functions/service-area-save.js,
+// which runs the same checks again (netlify/functions/_lib/areaGeometry.js).
+import {
+  area,
+  buffer,
+  centroid,
+  difference,
+  featureCollection,
+  kinks,
+  multiPolygon,
+  polygon,
+  simplify,
+  union,
+  unkinkPolygon,
+} from "@turf/turf";
+import type { Feature, MultiPolygon, Polygon, Position } from "geojson";
+
+export type AreaGeometry = Polygon | MultiPolygon;
+
+// keep in step with netlify/functions/_lib/areaGeometry.js
+export const MAX_AREA_KM2 = 2000;
+// ~50 m x 50 m; anything smaller is a stray click, not a patch anyone covers
+export const MIN_RING_M2 = 2500;
+// ~20 m, enough to drop jitter from traced or imported outlines
+const SIMPLIFY_TOLERANCE_DEG = 0.0002;
+
+export type AreaIssueCode = "self_intersection" | "duplicate_vertex" | "tiny_ring" | "too_large";
+
+// part = index in the MultiPolygon (null = the whole area); at = where to point on the map
+export type AreaIssue = { code: AreaIssueCode; part: number | null; at: Position | null };
+
+export const AREA_ISSUE_MESSAGES: Record<AreaIssueCode, string> = {
+  self_intersection: "The outline crosses itself.",
+  duplicate_vertex: "The same point is used twice in a row.",
+  tiny_ring: "A part or hole is too small to be real – probably a stray click.",
+  too_large: `The area is over ${MAX_AREA_KM2.toLocaleString()} km². Draw it tighter or split it up.`,
+};
+
+export type AreaFix = "unkink" | "simplify" | "buffer0";
+
+/** Friendly text for an "invalid_area:<code>" error raised by the save RPCs, or null. */
+export function areaErrorMessage(message: string) {
+  const code = /invalid_area:(\w+)/.exec(message)?.[1] as AreaIssueCode | undefined;
+  return code && AREA_ISSUE_MESSAGES[code] ? AREA_ISSUE_MESSAGES[code] : null;
+}
+
+// same UK ranges as pairToLatLng in ServiceAreaEditorSafe
+const isUkLat = (v: number) => v >= 49 && v <= 61;
+const isUkLng = (v: number) => v >= -11 && v <= 4;
+
+export function toMultiPolygon(geom: AreaGeometry): MultiPolygon {
+  return geom.type === "Polygon" ? { type: "MultiPolygon", coordinates: [geom.coordinates] } : geom;
+}
+
+/**
+ * True when most points read as [lat, lng] rather than GeoJSON's [lng, lat]:
+ * a common mistake in hand-made files and some exporters.
+ */
+export function looksLatLngOrdered(geom: MultiPolygon) {
+  const pts = geom.coordinates.flat(2);
+  const swapped = pts.filter(([a, b]) => isUkLat(a) && isUkLng(b) && !isUkLat(b)).length;
+  return pts.length > 0 && swapped > pts.length / 2;
+}
+
+export function swapAxes(geom: MultiPolygon): MultiPolygon {
+  return {
+    type: "MultiPolygon",
+    coordinates: geom.coordinates.map((poly) => poly.map((ring) => ring.map(([a, b]) => [b, a]))),
+  };
+}
+
+const samePosition = (a: Position, b: Position) => a[0] === b[0] && a[1] === b[1];
+
+/**
+ * Drop repeated consecutive vertices (turf counts them as crossings and
+ * unkinkPolygon refuses them), then any ring left with under 3 corners.
+ */
+export function removeDuplicateVertices(geom: MultiPolygon): MultiPolygon {
+  const cleanRing = (ring: Position[]) => {
+    const pts = ring.filter((p, i) => i === 0 || !samePosition(p, ring[i - 1]));
+    if (pts.length > 1 && samePosition(pts[0], pts[pts.length - 1])) pts.pop();
+    return pts.length >= 3 ? [...pts, pts[0]] : null;
+  };
+  const coordinates = geom.coordinates
+    .map(([outer, ...holes]) => {
+      const o = cleanRing(outer);
+      return o ? [o, ...holes.map(cleanRing).filter((h): h is Position[] => !!h)] : null;
+    })
+    .filter((p): p is Position[][] => !!p);
+  return { type: "MultiPolygon", coordinates };
+}
+
+/** Number of places where an edge crosses another (after removeDuplicateVertices). */
+export function countSelfIntersections(geom: MultiPolygon) {
+  return geom.coordinates.reduce((n, poly) => n + kinks(polygon(poly)).features.length, 0);
+}
+
+function unionAll(features: Feature<AreaGeometry>[]): MultiPolygon | null {
+  if (!features.length) return null;
+  const merged = features.length === 1 ? features[0] : union(featureCollection(features));
+  return merged ? toMultiPolygon(merged.geometry) : null;
+}
+
+// one ring as valid polygon pieces (a bow-tie becomes two triangles)
+function unkinkRing(ring: Position[]): Feature<Polygon>[] {
+  const f = polygon([ring]);
+  return kinks(f).features.length ? unkinkPolygon(f).features : [f];
+}
+
+/**
+ * Split self-intersecting ("bow-tie") rings at their crossings and dissolve
+ * everything, so overlapping parts become one. Holes are repaired on their
+ * own and cut back out. The result is a valid MultiPolygon, or null if
+ * nothing is left.
+ */
+export function repairSelfIntersections(geom: MultiPolygon): MultiPolygon | null {
+  const pieces = removeDuplicateVertices(geom).coordinates.flatMap((poly): Feature<AreaGeometry>[] => {
+    const f = polygon(poly);
+    if (!kinks(f).features.length) return [f];
+
+    const [outer, ...holes] = poly;
+    const part = unionAll(unkinkRing(outer));
+    const cut = unionAll(holes.flatMap(unkinkRing));
+    if (!part) return [];
+    if (!cut) return [multiPolygon(part.coordinates)];
+    const rest = difference(featureCollection([multiPolygon(part.coordinates), multiPolygon(cut.coordinates)]));
+    return rest ? [rest] : [];
+  });
+  return unionAll(pieces);
+}
+
+/** Dissolve parts that overlap each other (valid MultiPolygons have none). */
+export function dissolveParts(geom: MultiPolygon): MultiPolygon | null {
+  return unionAll(geom.coordinates.map((poly) => polygon(poly)));
+}
+
+const ringM2 = (ring: Position[]) => area(polygon([ring]));
+
+function removeTinyRings(geom: MultiPolygon): MultiPolygon | null {
+  const coordinates = geom.coordinates
+    .filter(([outer]) => ringM2(outer) >= MIN_RING_M2)
+    .map(([outer, ...holes]) => [outer, ...holes.filter((h) => ringM2(h) >= MIN_RING_M2)]);
+  return coordinates.length ? { type: "MultiPolygon", coordinates } : null;
+}
+
+/** Everything wrong with an area, in the order worth fixing it. */
+export function validateArea(geom: MultiPolygon): AreaIssue[] {
+  const issues: AreaIssue[] = [];
+
+  geom.coordinates.forEach((poly, part) => {
+    poly.forEach((ring) =>
+      ring.slice(1).forEach((p, i) => {
+        if (samePosition(p, ring[i])) issues.push({ code: "duplicate_vertex", part, at: p });
+      })
+    );
+
+    const cleaned = removeDuplicateVertices({ type: "MultiPolygon", coordinates: [poly] }).coordinates[0];
+    if (!cleaned) {
+      issues.push({ code: "tiny_ring", part, at: poly[0][0] ?? null });
+      return;
+    }
+    const crossings = kinks(polygon(cleaned)).features;
+    crossings.forEach((k) => issues.push({ code: "self_intersection", part, at: k.geometry.coordinates }));
+    // a crossed ring's lobes cancel out, so its area says nothing until it's unkinked
+    if (crossings.length) return;
+    cleaned
+      .filter((ring) => ringM2(ring) < MIN_RING_M2)
+      .forEach((ring) => issues.push({ code: "tiny_ring", part, at: centroid(polygon([ring])).geometry.coordinates }));
+  });
+
+  if (area(multiPolygon(geom.coordinates)) > MAX_AREA_KM2 * 1_000_000) {
+    issues.push({ code: "too_large", part: null, at: null });
+  }
+  return issues;
+}
+
+/**
+ * One-click repairs offered next to validation problems:
+ *  - unkink: split crossing outlines at the crossings, keeping every lobe
+ *  - simplify: drop near-redundant points (often what caused the crossing)
+ *  - buffer0: rebuild the outline from scratch – the classic GIS clean-up; a
+ *    bow-tie keeps only its larger lobe
+ * Tiny rings go in every case. Null if nothing is left.
+ */
+export function fixArea(geom: MultiPolygon, fix: AreaFix): MultiPolygon | null {
+  let out: MultiPolygon | null;
+  if (fix === "unkink") {
+    out = repairSelfIntersections(geom);
+  } else if (fix === "simplify") {
+    const simple = simplify(multiPolygon(removeDuplicateVertices(geom).coordinates), {
+      tolerance: SIMPLIFY_TOLERANCE_DEG,
+      highQuality: true,
+    });
+    out = repairSelfIntersections(simple.geometry);
+  } else {
+    const rebuilt = buffer(multiPolygon(removeDuplicateVertices(geom).coordinates), 0);
+    out = rebuilt ? toMultiPolygon(rebuilt.geometry) : null;
+  }
+  return out && removeTinyRings(out);
+}
@@ -0,0 +1,65 @@
+// src/lib/areaShapes.ts
+// Ready-made starting shapes for a service area, so nobody has to click
+// round a town vertex by vertex: a radius around the business base, or a
+// drive-time isochrone (netlify/functions/area-isochrone.js).
+import { circle } from "@turf/turf";
+import type { MultiPolygon, Polygon } from "geojson";
+import { supabase } from "./supabase";
+
+export type LatLngPoint = { lat: number; lng: number };
+
+export const RADIUS_MILES = { min: 1, max: 30, default: 5 };
+// keep in step with MIN_MINUTES / MAX_MINUTES in netlify/functions/area-isochrone.js
+export const ISOCHRONE_MINUTES = { min: 5, max: 60, default: 20 };
+
+export const NO_BASE_MESSAGE =
+  "Your business location isn't set yet. Add your address in the onboarding step first.";
+
+// enough sides to look round, few enough to drag vertices about
+const CIRCLE_STEPS = 48;
+
+/** The business base saved by set_cleaner_location, or null if not set. */
+export async function fetchBaseLocation(cleanerId: string): Promise<LatLngPoint | null> {
+  const { data, error } = await supabase.rpc("cleaner_base_points", {
+    p_cleaner_ids: [cleanerId],
+  });
+  if (error) throw error;
+  const row = (data || [])[0];
+  return row && row.lat != null && row.lng != null ? { lat: row.lat, lng: row.lng } : null;
+}
+
+export function radiusArea(center: LatLngPoint, miles: number): Polygon {
+  return circle([center.lng, center.lat], miles, { units: "miles", steps: CIRCLE_STEPS }).geometry;
+}
+
+/** Whether drive-time areas are set up on this site (a routing provider is configured). */
+export async function isochroneAvailable(): Promise<boolean> {
+  try {
+    const res = await fetch("/api/area/isochrone");
+    const data = await res.json().catch(() => ({}));
+    return res.ok && !!data?.available;
+  } catch {
+    return false;
+  }
+}
+
+export async function fetchIsochrone(
+  cleanerId: string,
+  minutes: number
+): Promise<Polygon | MultiPolygon> {
+  const session = (await supabase.auth.getSession())?.data?.session;
+  const token = session?.access_token;
+  if (!token) throw new Error("You must be logged in.");
+
+  const res = await fetch("/api/area/isochrone", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ cleaner_id: cleanerId, minutes }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (data?.error === "no_base_location") {
+    throw new Error(NO_BASE_MESSAGE);
+  }
+  if (!res.ok || !data?.ok) throw new Error(data?.error || "Drive-time lookup failed.");
+  return data.geojson;
+}
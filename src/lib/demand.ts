@@ -0,0 +1,32 @@
+// src/lib/demand.ts
+// Unmet demand (searches that found nobody) for the dashboard map layer.
+import { supabase } from "./supabase";
+
+export type DemandCell = {
+  lat: number; // cell centre, rounded to DEMAND_CELL_DEG
+  lng: number;
+  searches: number;
+  unmet: number;
+};
+
+// search.js rounds search points to 2dp before storing them
+export const DEMAND_CELL_DEG = 0.01;
+
+export async function fetchDemandCells(
+  categoryId: string,
+  days = 30
+): Promise<DemandCell[]> {
+  const session = (await supabase.auth.getSession())?.data?.session;
+  const token = session?.access_token;
+  if (!token) throw new Error("You must be logged in.");
+
+  const qs = new URLSearchParams({ category_id: categoryId, days: String(days) });
+  const res = await fetch(`/.netlify/functions/geo-demand?${qs.toString()}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) {
+    throw new Error(data?.error || "Failed to load demand.");
+  }
+  return (data.cells || []) as DemandCell[];
+}
@@ -0,0 +1,73 @@
+// src/lib/enquiryThread.ts
+// Client for /api/enquiry/thread (see netlify/functions/enquiry-thread.js).
+// Businesses are identified by their session, customers by the token in
+// the link we emailed them.
+import { supabase } from "./supabase";
+
+export type ThreadSender = "customer" | "business";
+
+export type ThreadMessage = {
+  id: string;
+  sender: ThreadSender;
+  body: string;
+  via: "web" | "email";
+  created_at: string;
+};
+
+export type ThreadView = {
+  viewer: ThreadSender;
+  enquiry: {
+    id?: string;
+    business_name: string | null;
+    customer_name: string | null;
+    created_at: string;
+  };
+  messages: ThreadMessage[];
+};
+
+// which thread, from whose side
+export type ThreadRef = { enquiryId: string } | { token: string };
+
+const ENDPOINT = "/.netlify/functions/enquiry-thread";
+
+async function authHeaders(ref: ThreadRef): Promise<Record<string, string>> {
+  if ("token" in ref) return {};
+  const session = (await supabase.auth.getSession())?.data?.session;
+  const token = session?.access_token;
+  if (!token) throw new Error("You must be logged in.");
+  return { Authorization: `Bearer ${token}` };
+}
+
+export async function fetchThread(ref: ThreadRef): Promise<ThreadView> {
+  const qs =
+    "token" in ref
+      ? new URLSearchParams({ token: ref.token })
+      : new URLSearchParams({ enquiry_id: ref.enquiryId });
+
+  const res = await fetch(`${ENDPOINT}?${qs.toString()}`, {
+    headers: await authHeaders(ref),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) {
+    throw new Error(data?.error || "Failed to load conversation.");
+  }
+  return data as ThreadView;
+}
+
+export async function postThreadMessage(
+  ref: ThreadRef,
+  body: string
+): Promise<{ message: ThreadMessage; delivered: boolean }> {
+  const res = await fetch(ENDPOINT, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...(await authHeaders(ref)) },
+    body: JSON.stringify(
+      "token" in ref ? { token: ref.token, body } : { enquiry_id: ref.enquiryId, body }
+    ),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) {
+    throw new Error(data?.error || "Failed to send message.");
+  }
+  return { message: data.message, delivered: !!data.delivered };
+}
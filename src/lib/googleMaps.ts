@@ -0,0 +1,15 @@
+// src/lib/googleMaps.ts
+// One Maps JS loader for the whole app. @react-google-maps/api loads the
+// script once per page and throws if it's asked again with different
+// libraries, so every map and Places input loads it through useGoogleMaps().
+import { useJsApiLoader, type Libraries } from "@react-google-maps/api";
+
+// module-level so the array is the same one on every render
+const LIBRARIES: Libraries = ["geometry", "places", "drawing"];
+
+export function useGoogleMaps() {
+  return useJsApiLoader({
+    googleMapsApiKey: import.meta.env.VITE_GOOGLE_MAPS_KEY as string,
+    libraries: LIBRARIES,
+  });
+}
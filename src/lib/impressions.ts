@@ -0,0 +1,95 @@
+// src/lib/impressions.ts
+// Result-card impressions: logged only once a card has actually been on
+// screen (IntersectionObserver), then sent in small batches instead of one
+// request per card.
+import { useEffect, useRef, type RefObject } from "react";
+import { recordEventsBatch, type RecordEventPayload } from "./analytics";
+
+export const RESULTS_PAGE_SIZE = 10;
+
+// a card counts as seen once half of it is on screen
+const VISIBLE_RATIO = 0.5;
+const FLUSH_DELAY_MS = 1000;
+const MAX_BATCH = 50; // record_event's batch limit
+
+// Re-running the same search (tab back, filter toggled off and on) shouldn't
+// count the same card twice
+const DEDUPE_MS = 60 * 1000;
+const recent = new Map<string, number>(); // dedupe key -> timestamp
+
+let queue: RecordEventPayload[] = [];
+let flushTimer: number | null = null;
+
+function flush(unloading = false) {
+  if (flushTimer) {
+    window.clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  while (queue.length) {
+    const batch = queue.slice(0, MAX_BATCH);
+    queue = queue.slice(MAX_BATCH);
+    void recordEventsBatch(batch, { unloading }).catch((e) =>
+      console.warn("impression batch failed", e)
+    );
+  }
+}
+
+if (typeof window !== "undefined") {
+  window.addEventListener("pagehide", () => flush(true));
+}
+
+/**
+ * Queue the impression rows for one card. `dedupeKey` identifies the card
+ * within a search; returns false when it was already logged recently.
+ */
+export function queueImpressions(dedupeKey: string, rows: RecordEventPayload[]) {
+  const now = Date.now();
+  const last = recent.get(dedupeKey);
+  if (last && now - last < DEDUPE_MS) return false;
+  recent.set(dedupeKey, now);
+
+  if (recent.size > 500) {
+    for (const [k, t] of recent) if (now - t > DEDUPE_MS) recent.delete(k);
+  }
+
+  queue.push(...rows);
+  if (queue.length >= MAX_BATCH) flush();
+  else if (!flushTimer) flushTimer = window.setTimeout(() => flush(), FLUSH_DELAY_MS);
+  return true;
+}
+
+/**
+ * Calls onSeen once, the first time the element is at least half visible.
+ * Changing `resetKey` (e.g. a new search) arms it again.
+ */
+export function useSeenOnce(
+  ref: RefObject<Element | null>,
+  onSeen: () => void,
+  resetKey: string
+) {
+  const onSeenRef = useRef(onSeen);
+  onSeenRef.current = onSeen;
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+
+    // very old browsers: treat rendered as seen rather than never logging
+    if (typeof IntersectionObserver === "undefined") {
+      onSeenRef.current();
+      return;
+    }
+
+    const io = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) {
+          io.disconnect();
+          onSeenRef.current();
+        }
+      },
+      { threshold: VISIBLE_RATIO }
+    );
+    io.observe(el);
+    return () => io.disconnect();
+  }, [ref, resetKey]);
+}
@@ -0,0 +1,61 @@
+// src/lib/leadDelivery.ts
+// How new leads reach a business (see netlify/functions/_lib/leadDelivery.js
+// for the schema, retries and webhook signing).
+import { supabase } from "./supabase";
+
+export type LeadChannel = "email" | "sms" | "webhook";
+
+export const LEAD_CHANNELS: { key: LeadChannel; label: string; hint: string }[] = [
+  { key: "email", label: "Email", hint: "Sent to your contact email." },
+  { key: "sms", label: "Text message", hint: "A short summary to your mobile." },
+  { key: "webhook", label: "Webhook", hint: "JSON POSTed to your CRM, signed with your secret." },
+];
+
+export type DeliveryStatus = "pending" | "sent" | "retrying" | "failed";
+
+export type LeadDelivery = {
+  id: string;
+  enquiry_id: string;
+  channel: LeadChannel;
+  target: string | null;
+  status: DeliveryStatus;
+  attempts: number;
+  last_error: string | null;
+  delivered_at: string | null;
+};
+
+export const DELIVERY_BADGE: Record<DeliveryStatus, string> = {
+  pending: "bg-gray-100 text-gray-600 border-gray-200",
+  sent: "bg-emerald-50 text-emerald-800 border-emerald-200",
+  retrying: "bg-amber-50 text-amber-800 border-amber-200",
+  failed: "bg-red-50 text-red-700 border-red-200",
+};
+
+// The signing secret is kept server-side (lead-webhook-secret.js): we can
+// ask whether one exists, or make a new one and see it that once.
+const SECRET_ENDPOINT = "/.netlify/functions/lead-webhook-secret";
+
+async function secretRequest(method: "GET" | "POST") {
+  const session = (await supabase.auth.getSession())?.data?.session;
+  const token = session?.access_token;
+  if (!token) throw new Error("You must be logged in.");
+
+  const res = await fetch(SECRET_ENDPOINT, {
+    method,
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) {
+    throw new Error(data?.error || "Webhook secret request failed.");
+  }
+  return data;
+}
+
+export async function hasWebhookSecret(): Promise<boolean> {
+  return !!(await secretRequest("GET")).has_secret;
+}
+
+/** Replace the secret; the old one stops working straight away. */
+export async function rotateWebhookSecret(): Promise<string> {
+  return String((await secretRequest("POST")).secret);
+}
@@ -0,0 +1,65 @@
+// src/lib/postcodeAreas.ts
+// Service areas built from postcode districts / sectors
+// (netlify/functions/area-postcodes.js). The chosen codes are saved on the
+// area so it can be re-edited as a list rather than as a polygon.
+//
+// Schema (run in Supabase SQL editor):
+//   alter table public.service_areas add column if not exists postcode_codes text[];
+//   -- insert_service_area / update_service_area take one more argument,
+//   --   p_postcode_codes text[] default null
+//   -- stored as-is (null = drawn by hand), and list_service_areas returns
+//   -- postcode_codes alongside gj.
+import type { MultiPolygon } from "geojson";
+
+export type PostcodeLevel = "district" | "sector";
+
+// "bt19, BT20 5 bt23" -> ["BT19", "BT20 5", "BT23"]; loose on purpose, the
+// server normalises and reports anything it doesn't know
+export function parseCodeList(text: string): string[] {
+  const tokens = text
+    .toUpperCase()
+    .replace(/[^A-Z0-9\s,;]/g, "")
+    .split(/[,;\n]+/)
+    .flatMap((part) => part.trim().split(/\s+(?=[A-Z])/))
+    .map((t) => t.trim().replace(/\s+/g, " "))
+    .filter(Boolean);
+  return [...new Set(tokens)];
+}
+
+/** Whether postcode boundaries have been deployed on this site. */
+export async function postcodeAreasAvailable(): Promise<boolean> {
+  try {
+    const res = await fetch("/api/area/postcodes");
+    const data = await res.json().catch(() => ({}));
+    return res.ok && !!data?.available;
+  } catch {
+    return false;
+  }
+}
+
+export async function fetchPostcodeArea(
+  codes: string[]
+): Promise<{ geojson: MultiPolygon | null; codes: string[]; missing: string[] }> {
+  const res = await fetch("/api/area/postcodes", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ codes }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) throw new Error(data?.error || "Postcode lookup failed.");
+  return { geojson: data.geojson ?? null, codes: data.codes || [], missing: data.missing || [] };
+}
+
+export async function fetchCodeAt(lat: number, lng: number, level: PostcodeLevel) {
+  const qs = new URLSearchParams({ lat: String(lat), lng: String(lng), level });
+  const res = await fetch(`/api/area/postcodes?${qs.toString()}`);
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) throw new Error(data?.error || "Postcode lookup failed.");
+  return (data.code as string | null) ?? null;
+}
+
+export async function suggestCodes(q: string): Promise<string[]> {
+  const res = await fetch(`/api/area/postcodes?q=${encodeURIComponent(q)}`);
+  const data = await res.json().catch(() => ({}));
+  return res.ok && data?.ok ? (data.codes as string[]) : [];
+}
@@ -0,0 +1,57 @@
+// src/lib/publicProfile.ts
+// Public business page at /b/:slug (data from netlify/functions/business-profile.js).
+import type { MultiPolygon, Polygon } from "geojson";
+
+// keep in step with SLUG_RE in netlify/functions/business-profile.js
+export const SLUG_RE = /^[a-z0-9](?:[a-z0-9-]{1,58}[a-z0-9])$/;
+
+export type PublicProfile = {
+  cleaner: {
+    id: string;
+    business_name: string | null;
+    logo_url: string | null;
+    about: string | null;
+    website: string | null;
+    phone: string | null;
+    whatsapp: string | null;
+    payment_methods: string[];
+    bin_sizes: string[];
+    bin_prices: Record<string, number | null>;
+    rating_avg: number | null;
+    rating_count: number | null;
+    google_rating: number | null;
+    google_reviews_count: number | null;
+    google_place_id: string | null;
+  };
+  categories: { id: string; name: string; slug: string }[];
+  areas: { id: string; name: string; category_id: string; gj: Polygon | MultiPolygon }[];
+};
+
+// "Bob's Bins (Belfast)" -> "bobs-bins-belfast"
+export function slugify(s: string) {
+  return s
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+    .replace(/-+$/, "");
+}
+
+export function isValidSlug(s: string) {
+  return SLUG_RE.test(s);
+}
+
+export function profileUrl(slug: string) {
+  return `${window.location.origin}/b/${slug}`;
+}
+
+export async function fetchPublicProfile(slug: string): Promise<PublicProfile | null> {
+  const res = await fetch(`/api/business/profile?slug=${encodeURIComponent(slug)}`);
+  if (res.status === 404) return null;
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || `Profile request failed (${res.status})`);
+  return data as PublicProfile;
+}
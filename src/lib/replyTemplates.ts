@@ -0,0 +1,57 @@
+// src/lib/replyTemplates.ts
+// Business-written enquiry replies: the auto-reply sent to the customer by
+// sendEnquiry, and canned snippets used from Leads. Both support the
+// placeholders below. Mirrors netlify/functions/_lib/replyTemplates.js.
+// In the auto-reply {{customer_name}} is always "there": it goes to an
+// address nobody has confirmed yet, so it carries no text from the form.
+//
+// Schema (run in Supabase SQL editor):
+//   alter table public.cleaners
+//     add column if not exists auto_reply_enabled boolean not null default false,
+//     add column if not exists auto_reply_template text;
+//
+//   create table public.reply_snippets (
+//     id          uuid primary key default gen_random_uuid(),
+//     cleaner_id  uuid not null references public.cleaners(id) on delete cascade,
+//     title       text not null,
+//     body        text not null,
+//     created_at  timestamptz not null default now()
+//   );
+//   alter table public.reply_snippets enable row level security;
+//   create policy "own snippets" on public.reply_snippets for all
+//     using (cleaner_id in (select id from public.cleaners where user_id = auth.uid()))
+//     with check (cleaner_id in (select id from public.cleaners where user_id = auth.uid()));
+
+export const MAX_TEMPLATE_LENGTH = 3000;
+
+export const REPLY_PLACEHOLDERS = [
+  { key: "customer_name", label: "Customer name", sample: "Sam" },
+  { key: "business_name", label: "Business name", sample: "NI Bin Guy" },
+  { key: "area", label: "Area", sample: "Bangor" },
+] as const;
+
+export type ReplyVars = Partial<
+  Record<(typeof REPLY_PLACEHOLDERS)[number]["key"], string | null>
+>;
+
+export type ReplySnippet = {
+  id: string;
+  cleaner_id: string;
+  title: string;
+  body: string;
+  created_at: string;
+};
+
+export const placeholderToken = (key: string) => `{{${key}}}`;
+
+/** Fill {{placeholders}}; unknown ones are left as typed, empty ones blank. */
+export function renderReplyTemplate(template: string, vars: ReplyVars) {
+  const known = new Set<string>(REPLY_PLACEHOLDERS.map((p) => p.key));
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (whole, key: string) =>
+    known.has(key) ? (vars[key as keyof ReplyVars] ?? "").trim() : whole
+  );
+}
+
+export const SAMPLE_VARS: ReplyVars = Object.fromEntries(
+  REPLY_PLACEHOLDERS.map((p) => [p.key, p.sample])
+);
@@ -0,0 +1,143 @@
+// src/lib/resultFilters.ts
+// Customer-side filters + sorting for search results, round-tripped through
+// the URL (?pay=card_machine&bins=1100L&rating=4.5&wa=1&sort=nearest) so a
+// filtered results link can be shared.
+
+export type ResultSort = "relevance" | "rating" | "reviews" | "nearest";
+
+export type ResultFilters = {
+  payments: string[]; // must accept every selected method
+  binSizes: string[]; // must offer every selected size
+  minRating: number | null;
+  whatsapp: boolean;
+  sort: ResultSort;
+};
+
+export const EMPTY_FILTERS: ResultFilters = {
+  payments: [],
+  binSizes: [],
+  minRating: null,
+  whatsapp: false,
+  sort: "relevance",
+};
+
+export const RATING_OPTIONS = [4, 4.5] as const;
+
+const SORTS: ResultSort[] = ["relevance", "rating", "reviews", "nearest"];
+
+// the URL keys this module owns (everything else in the query is left alone)
+const PARAM_KEYS = ["pay", "bins", "rating", "wa", "sort"] as const;
+
+type FilterableResult = {
+  is_covering_sponsor?: boolean;
+  payment_methods?: string[] | null;
+  bin_sizes?: string[] | null;
+  whatsapp?: string | null;
+  google_rating?: number | null;
+  google_reviews_count?: number | null;
+  rating_avg?: number | null;
+  rating_count?: number | null;
+  distance_miles?: number | null;
+};
+
+function splitList(v: string | null) {
+  return (v || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+export function filtersFromParams(params: URLSearchParams): ResultFilters {
+  const rating = Number(params.get("rating"));
+  const sort = params.get("sort") as ResultSort | null;
+
+  return {
+    payments: splitList(params.get("pay")),
+    binSizes: splitList(params.get("bins")),
+    minRating: Number.isFinite(rating) && rating > 0 ? rating : null,
+    whatsapp: params.get("wa") === "1",
+    sort: sort && SORTS.includes(sort) ? sort : "relevance",
+  };
+}
+
+export function filtersToParams(
+  current: URLSearchParams,
+  f: ResultFilters
+): URLSearchParams {
+  const next = new URLSearchParams(current);
+  PARAM_KEYS.forEach((k) => next.delete(k));
+
+  if (f.payments.length) next.set("pay", f.payments.join(","));
+  if (f.binSizes.length) next.set("bins", f.binSizes.join(","));
+  if (f.minRating != null) next.set("rating", String(f.minRating));
+  if (f.whatsapp) next.set("wa", "1");
+  if (f.sort !== "relevance") next.set("sort", f.sort);
+
+  return next;
+}
+
+export function hasActiveFilters(f: ResultFilters) {
+  return (
+    f.payments.length > 0 ||
+    f.binSizes.length > 0 ||
+    f.minRating != null ||
+    f.whatsapp
+  );
+}
+
+export function ratingOf(c: FilterableResult): number | null {
+  if (typeof c.google_rating === "number") return c.google_rating;
+  if (typeof c.rating_avg === "number") return c.rating_avg;
+  return null;
+}
+
+export function reviewCountOf(c: FilterableResult): number {
+  if (typeof c.google_reviews_count === "number") return c.google_reviews_count;
+  if (typeof c.rating_count === "number") return c.rating_count;
+  return 0;
+}
+
+function matches(c: FilterableResult, f: ResultFilters) {
+  const pay = c.payment_methods ?? [];
+  if (!f.payments.every((p) => pay.includes(p))) return false;
+
+  const bins = c.bin_sizes ?? [];
+  if (!f.binSizes.every((b) => bins.includes(b))) return false;
+
+  if (f.minRating != null) {
+    const r = ratingOf(c);
+    if (r == null || r < f.minRating) return false;
+  }
+
+  if (f.whatsapp && !c.whatsapp?.trim()) return false;
+
+  return true;
+}
+
+/**
+ * Filter, then sort. Sponsors stay pinned above everyone else whatever the
+ * sort (their placement is what they pay for); "relevance" keeps the order
+ * the server ranked.
+ */
+export function applyFilters<T extends FilterableResult>(
+  rows: T[],
+  f: ResultFilters
+): T[] {
+  const kept = rows.filter((c) => matches(c, f));
+  if (f.sort === "relevance") return kept;
+
+  // higher is better; unknown distance sorts last
+  const score =
+    f.sort === "rating"
+      ? (c: T) => ratingOf(c) ?? -1
+      : f.sort === "nearest"
+      ? (c: T) => -(c.distance_miles ?? Number.MAX_SAFE_INTEGER)
+      : (c: T) => reviewCountOf(c);
+
+  const sponsored = kept.filter((c) => c.is_covering_sponsor);
+  const organic = kept.filter((c) => !c.is_covering_sponsor);
+
+  // Array.prototype.sort is stable, so ties keep the server order
+  organic.sort((a, b) => score(b) - score(a));
+  return [...sponsored, ...organic];
+}
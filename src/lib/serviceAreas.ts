@@ -0,0 +1,37 @@
+// src/lib/serviceAreas.ts
+// Saving a service area. It goes through netlify/functions/service-area-save.js,
+// which checks the shape again before the save RPCs run.
+import type { MultiPolygon } from "geojson";
+import { supabase } from "./supabase";
+
+export type ServiceAreaSave = {
+  areaId: string | null; // null = new area
+  cleanerId: string;
+  categoryId: string | null;
+  name: string;
+  gj: MultiPolygon;
+  postcodeCodes: string[] | null;
+};
+
+/** Insert or update an area; errors carry "invalid_area:<code>" (see areaErrorMessage). */
+export async function saveServiceArea(area: ServiceAreaSave) {
+  const session = (await supabase.auth.getSession())?.data?.session;
+  const token = session?.access_token;
+  if (!token) throw new Error("You must be logged in.");
+
+  const res = await fetch("/api/area/save", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify({
+      area_id: area.areaId,
+      cleaner_id: area.cleanerId,
+      category_id: area.categoryId,
+      name: area.name,
+      gj: area.gj,
+      postcode_codes: area.postcodeCodes,
+    }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.ok) throw new Error(data?.error || "Failed to save area.");
+  return data.data;
+}
@@ -0,0 +1,76 @@
+// src/pages/AlertAction.tsx
+// /alerts/confirm?token=… and /alerts/unsubscribe?token=… – where the search
+// alert emails link to. Nothing changes until the button is pressed (the
+// API only takes a POST), so email link scanners can't confirm or
+// unsubscribe anyone. Afterwards it goes home, where Landing shows the banner.
+import { useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+
+type Action = "confirm" | "unsubscribe";
+
+const COPY: Record<Action, { title: string; body: string; button: string }> = {
+  confirm: {
+    title: "Confirm your alert",
+    body: "We’ll send you one email when a business starts covering your area.",
+    button: "Confirm my alert",
+  },
+  unsubscribe: {
+    title: "Unsubscribe",
+    body: "You won’t get this alert any more.",
+    button: "Unsubscribe",
+  },
+};
+
+function isAction(v: string | undefined): v is Action {
+  return v === "confirm" || v === "unsubscribe";
+}
+
+export default function AlertAction() {
+  const { action } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const token = searchParams.get("token") || "";
+  const [sending, setSending] = useState(false);
+
+  if (!isAction(action) || !token) {
+    return (
+      <div className="container mx-auto max-w-xl px-4 sm:px-6 py-10">
+        <div className="muted">That link isn’t valid.</div>
+      </div>
+    );
+  }
+
+  const copy = COPY[action];
+
+  async function submit() {
+    setSending(true);
+    let status = "error";
+    try {
+      const res = await fetch(`/api/alerts/${action}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (typeof data?.status === "string") status = data.status;
+    } catch (err) {
+      console.warn(`alert ${action} failed`, err);
+    }
+    navigate(`/?alert=${status}`, { replace: true });
+  }
+
+  return (
+    <div className="container mx-auto max-w-xl px-4 sm:px-6 py-10">
+      <h1 className="section-title text-2xl mb-1">{copy.title}</h1>
+      <p className="muted">{copy.body}</p>
+      <button
+        type="button"
+        onClick={submit}
+        disabled={sending}
+        className="mt-6 h-10 rounded-xl bg-emerald-700 px-4 text-sm font-semibold text-white disabled:opacity-60"
+      >
+        {sending ? "Saving…" : copy.button}
+      </button>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 import { useEffect, useMemo, useState } from "react";
 import { useLocation } from "react-router-dom";
 import { supabase } from "../lib/supabase";
+import { LEAD_EVENTS } from "../lib/analytics";
 
 type Category = {
   id: string;
@@ -18,6 +19,7 @@ type Row30d = {
   clicks_phone: number | null;
   cleaner_id: string;
   category_id?: string | null;
+  leads?: number; // counted from analytics_events, not in the view
 };
 
 type MonthRow = {
@@ -29,6 +31,7 @@ type MonthRow = {
   clicks_phone: number;
   total_clicks: number;
   ctr: string;
+  leads: number;
 };
 
 function useHashSearchParams() {
@@ -170,7 +173,26 @@ export default function Analytics() {
       .order("area_name", { ascending: true });
 
     if (e30) throw e30;
-    setRows30d((d30 as Row30d[]) || []);
+
+    // leads per area over the same 30 days
+    const since30 = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const { data: leadEvs, error: el } = await supabase
+      .from("analytics_events")
+      .select("area_id")
+      .eq("cleaner_id", cleanerId)
+      .eq("category_id", categoryId)
+      .in("event", LEAD_EVENTS)
+      .gte("created_at", since30);
+
+    if (el) throw el;
+    const leadsByArea = new Map<string, number>();
+    for (const e of leadEvs || []) {
+      if (e.area_id) leadsByArea.set(e.area_id, (leadsByArea.get(e.area_id) || 0) + 1);
+    }
+
+    setRows30d(
+      ((d30 as Row30d[]) || []).map((r) => ({ ...r, leads: leadsByArea.get(r.area_id) || 0 }))
+    );
 
     // 2) Monthly breakdown since joined
     let qe = supabase
@@ -186,13 +208,27 @@ export default function Analytics() {
 
     const bucket = new Map<
       string,
-      { impressions: number; msg: number; web: number; phone: number; searchIds: Set<string> }
+      {
+        impressions: number;
+        msg: number;
+        web: number;
+        phone: number;
+        leads: number;
+        searchIds: Set<string>;
+      }
     >();
 
     for (const e of (evs as any[]) || []) {
       const key = monthKey(new Date(e.created_at));
       const cur =
-        bucket.get(key) || { impressions: 0, msg: 0, web: 0, phone: 0, searchIds: new Set<string>() };
+        bucket.get(key) || {
+          impressions: 0,
+          msg: 0,
+          web: 0,
+          phone: 0,
+          leads: 0,
+          searchIds: new Set<string>(),
+        };
 
       if (e.event === "impression") {
         cur.impressions += 1;
@@ -202,6 +238,7 @@ export default function Analytics() {
       if (e.event === "click_message") cur.msg += 1;
       if (e.event === "click_website") cur.web += 1;
       if (e.event === "click_phone") cur.phone += 1;
+      if (LEAD_EVENTS.includes(e.event)) cur.leads += 1;
 
       bucket.set(key, cur);
     }
@@ -220,6 +257,7 @@ export default function Analytics() {
           clicks_phone: v.phone,
           total_clicks: total,
           ctr,
+          leads: v.leads,
         };
       });
 
@@ -397,6 +435,7 @@ export default function Analytics() {
               <th className="py-2 px-3">Clicks (Phone)</th>
               <th className="py-2 px-3">Total Clicks</th>
               <th className="py-2 px-3">CTR</th>
+              <th className="py-2 px-3">Leads</th>
             </tr>
           </thead>
           <tbody>
@@ -410,12 +449,13 @@ export default function Analytics() {
                 <td className="py-2 px-3">{m.clicks_phone}</td>
                 <td className="py-2 px-3">{m.total_clicks}</td>
                 <td className="py-2 px-3">{m.ctr}</td>
+                <td className="py-2 px-3">{m.leads}</td>
               </tr>
             ))}
 
             {months.length === 0 && (
               <tr>
-                <td className="py-6 px-3 text-gray-500" colSpan={8}>
+                <td className="py-6 px-3 text-gray-500" colSpan={9}>
                   No history yet for this industry.
                 </td>
               </tr>
@@ -440,6 +480,7 @@ export default function Analytics() {
               <th className="py-2 px-3">Clicks (Phone)</th>
               <th className="py-2 px-3">Total Clicks</th>
               <th className="py-2 px-3">CTR</th>
+              <th className="py-2 px-3">Leads</th>
             </tr>
           </thead>
           <tbody>
@@ -459,13 +500,14 @@ export default function Analytics() {
                   <td className="py-2 px-3">{phone}</td>
                   <td className="py-2 px-3">{total}</td>
                   <td className="py-2 px-3">{ctr}</td>
+                  <td className="py-2 px-3">{r.leads || 0}</td>
                 </tr>
               );
             })}
 
             {filtered30d.length === 0 && (
               <tr>
-                <td className="py-6 px-3 text-gray-500" colSpan={7}>
+                <td className="py-6 px-3 text-gray-500" colSpan={8}>
                   {q.trim() ? "No areas match your filter." : "No 30-day stats yet for this industry."}
                 </td>
               </tr>
@@ -0,0 +1,206 @@
+// src/pages/BusinessProfile.tsx
+// Public, shareable page for one business: /b/:slug. No login. The slug is
+// set in Settings → Public page.
+import { useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import CleanerCard from "../components/CleanerCard";
+import ServiceAreasMap from "../components/ServiceAreasMap";
+import { getOrCreateSessionId, recordEventFetch } from "../lib/analytics";
+import { fetchPublicProfile, type PublicProfile } from "../lib/publicProfile";
+import { PAYMENT_METHODS } from "../constants/paymentMethods";
+import { BIN_SIZES } from "../constants/binSizes";
+import { formatPence } from "../constants/quoteRequest";
+
+export default function BusinessProfile() {
+  const { slug = "" } = useParams();
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      setLoading(true);
+      setNotFound(false);
+      setErr(null);
+      try {
+        const p = await fetchPublicProfile(slug.toLowerCase());
+        if (!alive) return;
+        if (!p) {
+          setNotFound(true);
+          return;
+        }
+        setProfile(p);
+        void recordEventFetch({
+          event: "profile_view",
+          cleanerId: p.cleaner.id,
+          sessionId: getOrCreateSessionId(),
+          meta: { slug, referrer: document.referrer || null },
+        }).catch((e) => console.warn("record profile view failed", e));
+      } catch (e: unknown) {
+        if (alive) setErr(e instanceof Error ? e.message : "Could not load this page.");
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [slug]);
+
+  const name = profile?.cleaner.business_name || "Cleaner";
+
+  useEffect(() => {
+    if (!profile) return;
+    const prev = document.title;
+    document.title = `${name} | Kleanly`;
+    return () => {
+      document.title = prev;
+    };
+  }, [profile, name]);
+
+  const binRows = useMemo(() => {
+    const prices = profile?.cleaner.bin_prices ?? {};
+    return BIN_SIZES.filter((b) => b.key in prices).map((b) => ({
+      ...b,
+      price: prices[b.key],
+    }));
+  }, [profile]);
+
+  const methods = useMemo(() => {
+    const have = new Set(profile?.cleaner.payment_methods ?? []);
+    return PAYMENT_METHODS.filter((m) => have.has(m.key));
+  }, [profile]);
+
+  if (loading) {
+    return <div className="container mx-auto max-w-4xl px-4 sm:px-6 py-12">Loading...</div>;
+  }
+
+  if (notFound || err || !profile) {
+    return (
+      <div className="container mx-auto max-w-4xl px-4 sm:px-6 py-12">
+        <h1 className="section-title text-2xl mb-2">
+          {notFound ? "Business not found" : "Something went wrong"}
+        </h1>
+        <p className="muted">
+          {notFound ? "That page doesn’t exist or has moved." : err}{" "}
+          <Link className="underline" to="/">
+            Find a cleaner near you
+          </Link>
+          .
+        </p>
+      </div>
+    );
+  }
+
+  const { cleaner, categories, areas } = profile;
+  const rating = cleaner.google_rating ?? cleaner.rating_avg;
+  const reviews = cleaner.google_reviews_count ?? cleaner.rating_count;
+
+  return (
+    <div className="container mx-auto max-w-4xl px-4 sm:px-6 py-10 space-y-6">
+      <header className="flex items-center gap-4">
+        {cleaner.logo_url ? (
+          <img
+            src={cleaner.logo_url}
+            alt={`${name} logo`}
+            className="h-20 w-20 rounded-xl object-cover border"
+          />
+        ) : null}
+        <div>
+          <h1 className="section-title text-2xl">{name}</h1>
+          {typeof rating === "number" && (
+            <div className="text-sm text-gray-700">
+              ★ {rating.toFixed(1)}
+              {typeof reviews === "number" && (
+                <span className="text-gray-500">
+                  {" "}
+                  ({reviews} {cleaner.google_rating != null ? "Google " : ""}
+                  review{reviews === 1 ? "" : "s"})
+                </span>
+              )}
+            </div>
+          )}
+          {categories.length > 0 && (
+            <div className="mt-1 flex flex-wrap gap-1">
+              {categories.map((c) => (
+                <span key={c.id} className="rounded-full border px-2 py-0.5 text-xs">
+                  {c.name}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </header>
+
+      {cleaner.about && (
+        <section className="card">
+          <div className="card-pad">
+            <h2 className="text-lg font-semibold mb-2">About</h2>
+            <p className="whitespace-pre-line text-sm text-gray-700">{cleaner.about}</p>
+          </div>
+        </section>
+      )}
+
+      {areas.length > 0 && (
+        <section className="card">
+          <div className="card-pad space-y-2">
+            <h2 className="text-lg font-semibold">Where we work</h2>
+            <ServiceAreasMap areas={areas} />
+            <p className="muted text-sm">{areas.map((a) => a.name).join(" • ")}</p>
+          </div>
+        </section>
+      )}
+
+      <div className="grid sm:grid-cols-2 gap-6">
+        {binRows.length > 0 && (
+          <section className="card">
+            <div className="card-pad">
+              <h2 className="text-lg font-semibold mb-2">Bin sizes</h2>
+              <ul className="text-sm space-y-1">
+                {binRows.map((b) => (
+                  <li key={b.key} className="flex justify-between">
+                    <span>
+                      {b.label}
+                      {b.commercial && <span className="text-gray-500"> (commercial)</span>}
+                    </span>
+                    {typeof b.price === "number" && (
+                      <span className="text-gray-700">from {formatPence(b.price)}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </section>
+        )}
+
+        {methods.length > 0 && (
+          <section className="card">
+            <div className="card-pad">
+              <h2 className="text-lg font-semibold mb-2">Payment methods</h2>
+              <ul className="flex flex-wrap gap-3 text-sm">
+                {methods.map((m) => (
+                  <li key={m.key} className="flex items-center gap-1">
+                    <img src={m.iconUrl} alt="" className="h-5 w-5" />
+                    {m.label}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </section>
+        )}
+      </div>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-2">Get in touch</h2>
+        <CleanerCard
+          cleaner={cleaner}
+          categoryId={categories.length === 1 ? categories[0].id : null}
+          showPayments={false}
+          source="profile"
+        />
+      </section>
+    </div>
+  );
+}
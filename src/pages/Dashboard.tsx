@@ -360,6 +360,10 @@ export default function Dashboard() {
                   Edit profile
                 </Link>
 
+                <Link to="/leads" className="btn w-full sm:w-auto">
+                  Leads
+                </Link>
+
                 <Link to="/invoices" className="btn w-full sm:w-auto">
                   Invoices
                 </Link>
@@ -0,0 +1,33 @@
+// src/pages/EnquiryConversation.tsx
+// Customer's view of their enquiry: /enquiry/:token (link from the
+// confirmation and reply emails). No login – the token is the key.
+import { useState } from "react";
+import { useParams } from "react-router-dom";
+import EnquiryThread from "../components/EnquiryThread";
+
+export default function EnquiryConversation() {
+  const { token = "" } = useParams();
+  const [businessName, setBusinessName] = useState<string | null>(null);
+
+  return (
+    <div className="container mx-auto max-w-3xl px-4 sm:px-6 py-10">
+      <h1 className="section-title text-2xl mb-1">
+        {businessName ? `Your enquiry to ${businessName}` : "Your enquiry"}
+      </h1>
+      <p className="muted">Replies from the business appear here and in your inbox.</p>
+
+      <section className="card mt-6">
+        <div className="card-pad">
+          {token ? (
+            <EnquiryThread
+              threadRef={{ token }}
+              onLoaded={(v) => setBusinessName(v.enquiry.business_name)}
+            />
+          ) : (
+            <div className="muted">That link isn’t valid.</div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
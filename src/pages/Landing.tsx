@@ -1,50 +1,64 @@
 // src/pages/Landing.tsx
 import { useEffect, useMemo, useState } from "react";
-import FindCleaners, { type ServiceSlug } from "../components/FindCleaners";
+import { useSearchParams } from "react-router-dom";
+import FindCleaners, {
+  type MatchOut,
+  type SearchContext,
+  type ServiceSlug,
+} from "../components/FindCleaners";
 import ResultsList from "../components/ResultsList";
+import SearchAlertForm from "../components/SearchAlertForm";
 import { supabase } from "../lib/supabase";
+import { SERVICES } from "../constants/services";
 
 type Cleaner = any;
 
-const SERVICE_BUTTONS: {
-  slug: ServiceSlug;
-  label: string;
-  icon: string;
-  blurb: string;
-}[] = [
-  {
-    slug: "bin-cleaner",
-    label: "Bin Cleaner",
-    icon: "/icons/bin-cleaner.png",
-    blurb: "Wheelie bins, deep clean & deodorise",
-  },
-  {
-    slug: "window-cleaner",
-    label: "Window Cleaner",
-    icon: "/icons/window-cleaner.png",
-    blurb: "Windows, frames, sills",
-  },
-  {
-    slug: "cleaner",
-    label: "Domestic Cleaner",
-    icon: "/icons/general-cleaner.png",
-    blurb: "Domestic cleaning",
-  },
-];
-
 type ServiceCategory = {
   id: string;
   slug: string;
   name: string;
 };
 
+// ?alert=… is set by the confirm / unsubscribe pages (src/pages/AlertAction.tsx)
+const ALERT_BANNERS: Record<string, string> = {
+  confirmed: "Alert confirmed – we’ll email you when a business covers your area.",
+  unsubscribed: "You’ve been unsubscribed from that alert.",
+  invalid: "That link has expired or was already used.",
+  error: "Something went wrong with that link. Please try again later.",
+};
+
+function isServiceSlug(v: string | null): v is ServiceSlug {
+  return SERVICES.some((b) => b.slug === v);
+}
+
+// keep the picker order so "bin + window" and "window + bin" are one search
+function sortSlugs(slugs: ServiceSlug[]) {
+  return SERVICES.map((s) => s.slug).filter((slug) => slugs.includes(slug));
+}
+
 export default function Landing() {
+  // ?pc=…&service=… (plus result filters) make a results page shareable
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [initialPostcode] = useState(() => searchParams.get("pc") || "");
+  const [alertBanner, setAlertBanner] = useState<string | null>(
+    () => ALERT_BANNERS[searchParams.get("alert") || ""] ?? null
+  );
+
   const [cleaners, setCleaners] = useState<Cleaner[] | null>(null);
+  const [partialCleaners, setPartialCleaners] = useState<MatchOut[]>([]);
   const [postcode, setPostcode] = useState<string>("");
   const [locality, setLocality] = useState<string>("");
 
-  const [serviceSlug, setServiceSlug] = useState<ServiceSlug>("bin-cleaner");
+  const [serviceSlugs, setServiceSlugs] = useState<ServiceSlug[]>(() => {
+    const fromUrl = (searchParams.get("service") || "")
+      .split(",")
+      .filter(isServiceSlug);
+    return fromUrl.length ? sortSlugs(fromUrl) : ["bin-cleaner"];
+  });
+  const serviceSlug = serviceSlugs[0]; // primary, for single-value contexts
+  const isMulti = serviceSlugs.length > 1;
 
+  const [searchContext, setSearchContext] = useState<SearchContext | null>(null);
   const [searchLat, setSearchLat] = useState<number | null>(null);
   const [searchLng, setSearchLng] = useState<number | null>(null);
 
@@ -80,7 +94,7 @@ export default function Landing() {
     };
   }, []);
 
-  // map current slug -> category id
+  // map primary slug -> category id
   const categoryIdForSlug = useMemo(() => {
     const hit = serviceCategories.find((c) => c.slug === serviceSlug);
     return hit?.id ?? null;
@@ -91,13 +105,14 @@ export default function Landing() {
     setActiveCategoryId(categoryIdForSlug);
   }, [categoryIdForSlug]);
 
-  const activeService = useMemo(
-    () =>
-      SERVICE_BUTTONS.find((s) => s.slug === serviceSlug) ?? SERVICE_BUTTONS[0],
-    [serviceSlug]
+  const activeServices = useMemo(
+    () => SERVICES.filter((s) => serviceSlugs.includes(s.slug)),
+    [serviceSlugs]
   );
 
   const hasResults = Array.isArray(cleaners);
+  const nothingFound =
+    hasResults && cleaners.length === 0 && partialCleaners.length === 0;
 
   return (
     <main className="w-full">
@@ -119,6 +134,30 @@ export default function Landing() {
           </p>
         </div>
 
+        {alertBanner && (
+          <div className="mt-6 max-w-5xl mx-auto flex items-start justify-between gap-3 rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-900">
+            <span>{alertBanner}</span>
+            <button
+              type="button"
+              className="text-emerald-800 font-semibold"
+              onClick={() => {
+                setAlertBanner(null);
+                setSearchParams(
+                  (prev) => {
+                    const next = new URLSearchParams(prev);
+                    next.delete("alert");
+                    return next;
+                  },
+                  { replace: true }
+                );
+              }}
+              aria-label="Dismiss"
+            >
+              ×
+            </button>
+          </div>
+        )}
+
         {/* ✅ Shared width wrapper so Search + Results align */}
         <div className="mt-7 sm:mt-8 w-full max-w-5xl mx-auto">
           {/* Search panel */}
@@ -127,23 +166,32 @@ export default function Landing() {
             <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
               <div>
                 <div className="text-sm font-semibold text-gray-900">
-                  Service
+                  Services
                 </div>
                 <div className="text-xs text-gray-500 mt-1">
-                  {activeService.blurb}
+                  {isMulti
+                    ? "Businesses offering all of these are listed first"
+                    : activeServices[0]?.blurb}
                 </div>
               </div>
 
               <div className="inline-flex flex-wrap justify-center sm:justify-end gap-2">
-                {SERVICE_BUTTONS.map((b) => {
-                  const active = b.slug === serviceSlug;
+                {SERVICES.map((b) => {
+                  const active = serviceSlugs.includes(b.slug);
                   return (
                     <button
                       key={b.slug}
                       type="button"
+                      aria-pressed={active}
                       onClick={() => {
-                        setServiceSlug(b.slug);
+                        // multi-select, but always keep at least one service
+                        const next = active
+                          ? serviceSlugs.filter((x) => x !== b.slug)
+                          : sortSlugs([...serviceSlugs, b.slug]);
+                        if (!next.length) return;
+                        setServiceSlugs(next);
                         setCleaners(null);
+                        setPartialCleaners([]);
                         setActiveAreaId(null); // reset area context
                         // category context updated by effect above
                       }}
@@ -173,18 +221,33 @@ export default function Landing() {
             {/* Postcode search */}
             <div className="mt-4">
               <FindCleaners
-                serviceSlug={serviceSlug}
+                serviceSlugs={serviceSlugs}
+                initialPostcode={initialPostcode}
                 onSearchStart={() => {
                   setCleaners(null);
+                  setPartialCleaners([]);
                   setActiveAreaId(null);
                 }}
-                onSearchComplete={(results, pc, town, lat, lng) => {
+                onSearchComplete={(results, pc, town, lat, lng, partial, search) => {
                   const next = results || [];
                   setCleaners(next);
+                  setPartialCleaners(partial || []);
+                  setSearchContext(search ?? null);
 
                   setPostcode(pc || "");
                   setLocality(town || "");
 
+                  setSearchParams(
+                    (prev) => {
+                      const next = new URLSearchParams(prev);
+                      if (pc) next.set("pc", pc);
+                      else next.delete("pc");
+                      next.set("service", serviceSlugs.join(","));
+                      return next;
+                    },
+                    { replace: true }
+                  );
+
                   setSearchLat(typeof lat === "number" ? lat : null);
                   setSearchLng(typeof lng === "number" ? lng : null);
 
@@ -221,17 +284,22 @@ export default function Landing() {
                   </div>
                 </div>
 
-                <div className="shrink-0">
-                  <span className="inline-flex items-center gap-2 rounded-full bg-emerald-50 text-emerald-800 border border-emerald-100 px-3 py-1 text-sm">
-                    {/* ✅ render image icon here too */}
-                    <img
-                      src={activeService.icon}
-                      alt=""
-                      className="h-4 w-4 shrink-0"
-                      aria-hidden="true"
-                    />
-                    <span>{activeService.label}</span>
-                  </span>
+                <div className="shrink-0 flex flex-wrap justify-end gap-2">
+                  {activeServices.map((svc) => (
+                    <span
+                      key={svc.slug}
+                      className="inline-flex items-center gap-2 rounded-full bg-emerald-50 text-emerald-800 border border-emerald-100 px-3 py-1 text-sm"
+                    >
+                      {/* ✅ render image icon here too */}
+                      <img
+                        src={svc.icon}
+                        alt=""
+                        className="h-4 w-4 shrink-0"
+                        aria-hidden="true"
+                      />
+                      <span>{svc.label}</span>
+                    </span>
+                  ))}
                 </div>
               </div>
 
@@ -243,8 +311,47 @@ export default function Landing() {
                   // ✅ crucial: ensures clicks log with correct ids
                   categoryId={activeCategoryId}
                   areaId={activeAreaId}
+                  serviceSlugs={serviceSlugs}
+                  search={searchContext}
+                  section="full"
+                  emptyText={
+                    isMulti && partialCleaners.length > 0
+                      ? "No single business covers all of these services here yet. See partial matches below."
+                      : undefined
+                  }
                 />
               </div>
+
+              {nothingFound && searchLat != null && searchLng != null && (
+                <SearchAlertForm
+                  postcode={postcode}
+                  lat={searchLat}
+                  lng={searchLng}
+                  serviceSlugs={serviceSlugs}
+                />
+              )}
+
+              {isMulti && partialCleaners.length > 0 && (
+                <div className="mt-8">
+                  <div className="text-xs tracking-widest text-gray-500">
+                    PARTIAL MATCHES
+                  </div>
+                  <div className="text-base font-bold text-gray-900">
+                    Cover some of the services you picked
+                  </div>
+                  <ResultsList
+                    cleaners={partialCleaners}
+                    postcode={postcode}
+                    locality={locality}
+                    categoryId={activeCategoryId}
+                    areaId={null}
+                    serviceSlugs={serviceSlugs}
+                    search={searchContext}
+                    section="partial"
+                    showFilters={false}
+                  />
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,470 @@
+// src/pages/Leads.tsx
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "../lib/supabase";
+import EnquiryThread from "../components/EnquiryThread";
+import type { ReplySnippet } from "../lib/replyTemplates";
+import { DELIVERY_BADGE, LEAD_CHANNELS, type LeadDelivery } from "../lib/leadDelivery";
+import {
+  LEAD_STATUSES,
+  NEXT_STATUSES,
+  isLeadStatus,
+  type LeadStatus,
+} from "../constants/leadStatuses";
+import { formatPence, frequencyLabel, type StoredQuote } from "../constants/quoteRequest";
+
+type LeadRow = {
+  id: string;
+  cleaner_id: string;
+  user_name: string | null;
+  user_address: string | null;
+  user_phone: string | null;
+  reply_to: string | null; // relay address, never the customer's own
+  message: string | null;
+  quote: StoredQuote | null;
+  area_id: string | null;
+  status: LeadStatus;
+  notes: string | null;
+  status_updated_at: string | null;
+  created_at: string;
+};
+
+type DateRange = "7" | "30" | "90" | "all";
+
+const STATUS_META = new Map(LEAD_STATUSES.map((s) => [s.key, s]));
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  return d.toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function StatusBadge({ status }: { status: LeadStatus }) {
+  const meta = STATUS_META.get(status);
+  return (
+    <span
+      className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-semibold ${
+        meta?.badge ?? ""
+      }`}
+    >
+      {meta?.label ?? status}
+    </span>
+  );
+}
+
+export default function Leads() {
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [leads, setLeads] = useState<LeadRow[]>([]);
+  const [snippets, setSnippets] = useState<ReplySnippet[]>([]);
+  const [areaNames, setAreaNames] = useState<Map<string, string>>(new Map());
+  const [deliveries, setDeliveries] = useState<Map<string, LeadDelivery[]>>(new Map());
+
+  // Filters
+  const [statusFilter, setStatusFilter] = useState<LeadStatus | "open" | "all">("open");
+  const [rangeFilter, setRangeFilter] = useState<DateRange>("90");
+  const [query, setQuery] = useState("");
+
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState("");
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    (async () => {
+      setLoading(true);
+      setErrorMsg(null);
+
+      try {
+        const {
+          data: { session },
+          error: sessErr,
+        } = await supabase.auth.getSession();
+
+        if (sessErr) throw sessErr;
+
+        if (!session?.user) {
+          if (alive) {
+            setErrorMsg("You must be logged in to view leads.");
+            setLoading(false);
+          }
+          return;
+        }
+
+        const { data: cleaner, error: cleanerErr } = await supabase
+          .from("cleaners")
+          .select("id")
+          .eq("user_id", session.user.id)
+          .maybeSingle();
+
+        if (cleanerErr) throw cleanerErr;
+        if (!cleaner?.id) {
+          if (alive) {
+            setErrorMsg("Could not find your business profile.");
+            setLoading(false);
+          }
+          return;
+        }
+
+        const { data, error } = await supabase
+          .from("enquiries")
+          .select(
+            "id, cleaner_id, user_name, user_address, user_phone, reply_to, message, quote, area_id, status, notes, status_updated_at, created_at"
+          )
+          .eq("cleaner_id", cleaner.id)
+          .is("quarantined_at", null) // held by spam checks
+          .order("created_at", { ascending: false });
+
+        if (error) throw error;
+
+        // canned replies + area names for the conversation box, and how each
+        // lead reached the business; not fatal
+        const [{ data: snips }, { data: areas }, { data: sent }] = await Promise.all([
+          supabase
+            .from("reply_snippets")
+            .select("id, cleaner_id, title, body, created_at")
+            .eq("cleaner_id", cleaner.id)
+            .order("title", { ascending: true }),
+          supabase.from("service_areas").select("id, name").eq("cleaner_id", cleaner.id),
+          supabase
+            .from("lead_deliveries")
+            .select("id, enquiry_id, channel, target, status, attempts, last_error, delivered_at")
+            .eq("cleaner_id", cleaner.id),
+        ]);
+
+        const byLead = new Map<string, LeadDelivery[]>();
+        for (const d of (sent as LeadDelivery[]) || []) {
+          byLead.set(d.enquiry_id, [...(byLead.get(d.enquiry_id) || []), d]);
+        }
+
+        const rows: LeadRow[] = (data || []).map((r) => ({
+          ...(r as LeadRow),
+          status: isLeadStatus(r.status) ? r.status : "new",
+        }));
+
+        if (alive) {
+          setLeads(rows);
+          setSnippets((snips as ReplySnippet[]) || []);
+          setAreaNames(new Map((areas || []).map((a) => [a.id as string, a.name as string])));
+          setDeliveries(byLead);
+          setLoading(false);
+        }
+      } catch (e: unknown) {
+        console.error(e);
+        if (alive) {
+          setErrorMsg(e instanceof Error ? e.message : "Failed to load leads.");
+          setLoading(false);
+        }
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const counts = useMemo(() => {
+    const m = new Map<LeadStatus, number>();
+    for (const l of leads) m.set(l.status, (m.get(l.status) || 0) + 1);
+    return m;
+  }, [leads]);
+
+  const filtered = useMemo(() => {
+    const since =
+      rangeFilter === "all"
+        ? 0
+        : Date.now() - Number(rangeFilter) * 24 * 60 * 60 * 1000;
+    const q = query.trim().toLowerCase();
+
+    return leads.filter((l) => {
+      if (statusFilter === "open" && (l.status === "won" || l.status === "lost")) {
+        return false;
+      }
+      if (statusFilter !== "open" && statusFilter !== "all" && l.status !== statusFilter) {
+        return false;
+      }
+      if (since && new Date(l.created_at).getTime() < since) return false;
+      if (!q) return true;
+      return [l.user_name, l.user_address, l.user_phone, l.message, l.notes]
+        .filter(Boolean)
+        .some((v) => String(v).toLowerCase().includes(q));
+    });
+  }, [leads, statusFilter, rangeFilter, query]);
+
+  async function updateLead(id: string, patch: Partial<Pick<LeadRow, "status" | "notes">>) {
+    setSavingId(id);
+    setErrorMsg(null);
+
+    const full = {
+      ...patch,
+      ...(patch.status ? { status_updated_at: new Date().toISOString() } : {}),
+    };
+
+    try {
+      const { error } = await supabase.from("enquiries").update(full).eq("id", id);
+      if (error) throw error;
+      setLeads((prev) => prev.map((l) => (l.id === id ? { ...l, ...full } : l)));
+    } catch (e: unknown) {
+      console.error(e);
+      setErrorMsg(e instanceof Error ? e.message : "Failed to update lead.");
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  function toggleOpen(lead: LeadRow) {
+    if (openId === lead.id) {
+      setOpenId(null);
+      return;
+    }
+    setOpenId(lead.id);
+    setNoteDraft(lead.notes || "");
+  }
+
+  const clearFilters = () => {
+    setStatusFilter("open");
+    setRangeFilter("90");
+    setQuery("");
+  };
+
+  return (
+    <div className="container mx-auto max-w-6xl px-4 sm:px-6 py-10">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="section-title text-2xl mb-1">Leads</h1>
+          <p className="muted">
+            Enquiries from your listing ({filtered.length}
+            {counts.get("new") ? ` • ${counts.get("new")} new` : ""})
+          </p>
+        </div>
+      </div>
+
+      <section className="card mt-6">
+        <div className="card-pad">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_2fr_auto] gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium mb-1">Status</label>
+              <select
+                className="input w-full"
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as LeadStatus | "open" | "all")}
+                disabled={loading}
+              >
+                <option value="open">Open (not won / lost)</option>
+                <option value="all">All</option>
+                {LEAD_STATUSES.map((s) => (
+                  <option key={s.key} value={s.key}>
+                    {s.label} ({counts.get(s.key) || 0})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Received</label>
+              <select
+                className="input w-full"
+                value={rangeFilter}
+                onChange={(e) => setRangeFilter(e.target.value as DateRange)}
+                disabled={loading}
+              >
+                <option value="7">Last 7 days</option>
+                <option value="30">Last 30 days</option>
+                <option value="90">Last 90 days</option>
+                <option value="all">Any time</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Search</label>
+              <input
+                className="input w-full"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Name, phone, address, notes…"
+                disabled={loading}
+              />
+            </div>
+
+            <button className="btn md:justify-self-end" onClick={clearFilters} disabled={loading}>
+              Clear
+            </button>
+          </div>
+
+          {errorMsg ? <div className="alert alert-error mt-4">{errorMsg}</div> : null}
+        </div>
+      </section>
+
+      <section className="card mt-6">
+        <div className="card-pad">
+          {loading ? (
+            <div className="muted">Loading…</div>
+          ) : filtered.length === 0 ? (
+            <div className="muted">No leads found.</div>
+          ) : (
+            <ul className="divide-y divide-ink-100">
+              {filtered.map((lead) => {
+                const isOpen = openId === lead.id;
+                const busy = savingId === lead.id;
+
+                return (
+                  <li key={lead.id} className="py-4">
+                    <button
+                      type="button"
+                      className="w-full text-left"
+                      onClick={() => toggleOpen(lead)}
+                    >
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="min-w-0 flex items-center gap-2">
+                          <span className="font-semibold truncate">
+                            {lead.user_name || "Unknown"}
+                          </span>
+                          <StatusBadge status={lead.status} />
+                        </div>
+                        <span className="text-xs text-gray-500">
+                          {fmtDateTime(lead.created_at)}
+                        </span>
+                      </div>
+                      <div className="text-sm text-gray-600 truncate mt-1">
+                        {lead.user_address || "—"}
+                      </div>
+                      {!isOpen && lead.message && (
+                        <div className="text-sm text-gray-500 truncate mt-1">{lead.message}</div>
+                      )}
+                    </button>
+
+                    {isOpen && (
+                      <div className="mt-3 space-y-3">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+                          <div>
+                            <span className="text-gray-500">Phone: </span>
+                            {lead.user_phone ? (
+                              <a className="underline" href={`tel:${lead.user_phone}`}>
+                                {lead.user_phone}
+                              </a>
+                            ) : (
+                              "—"
+                            )}
+                          </div>
+                          <div>
+                            <span className="text-gray-500">Email: </span>
+                            {lead.reply_to ? (
+                              <a className="underline" href={`mailto:${lead.reply_to}`}>
+                                {lead.reply_to}
+                              </a>
+                            ) : (
+                              "—"
+                            )}
+                          </div>
+                        </div>
+
+                        {lead.quote?.lines?.length ? (
+                          <div className="rounded-lg border border-ink-100 p-3 text-sm">
+                            <div className="font-medium mb-1">
+                              Quote request • {frequencyLabel(lead.quote.frequency)}
+                            </div>
+                            <ul className="space-y-0.5">
+                              {lead.quote.lines.map((l) => (
+                                <li key={l.size}>
+                                  {l.qty} × {l.size}
+                                  {typeof l.unit_price_cents === "number" && (
+                                    <span className="text-gray-500">
+                                      {" "}
+                                      @ {formatPence(l.unit_price_cents)}
+                                    </span>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                            {lead.quote.indicative_total_cents != null && (
+                              <div className="mt-1 text-gray-600">
+                                Indicative: {formatPence(lead.quote.indicative_total_cents)} per clean
+                              </div>
+                            )}
+                          </div>
+                        ) : null}
+
+                        {deliveries.get(lead.id)?.length ? (
+                          <div className="flex flex-wrap items-center gap-2 text-xs">
+                            <span className="text-gray-500">Delivered by:</span>
+                            {deliveries.get(lead.id)!.map((d) => (
+                              <span
+                                key={d.id}
+                                className={`rounded-full border px-2 py-0.5 ${DELIVERY_BADGE[d.status]}`}
+                                title={
+                                  d.last_error
+                                    ? `${d.attempts} attempt(s) • ${d.last_error}`
+                                    : d.target || undefined
+                                }
+                              >
+                                {LEAD_CHANNELS.find((c) => c.key === d.channel)?.label ?? d.channel}:{" "}
+                                {d.status}
+                              </span>
+                            ))}
+                          </div>
+                        ) : null}
+
+                        <div>
+                          <div className="text-sm font-medium mb-2">Conversation</div>
+                          <EnquiryThread
+                            threadRef={{ enquiryId: lead.id }}
+                            snippets={snippets}
+                            areaName={lead.area_id ? areaNames.get(lead.area_id) : null}
+                          />
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-2">
+                          {NEXT_STATUSES[lead.status].map((next) => (
+                            <button
+                              key={next}
+                              className={next === "lost" ? "btn" : "btn btn-primary"}
+                              onClick={() => updateLead(lead.id, { status: next })}
+                              disabled={busy}
+                            >
+                              {lead.status === "won" || lead.status === "lost"
+                                ? "Reopen"
+                                : `Mark ${STATUS_META.get(next)?.label.toLowerCase()}`}
+                            </button>
+                          ))}
+                          {lead.status_updated_at && (
+                            <span className="text-xs text-gray-500">
+                              Status changed {fmtDateTime(lead.status_updated_at)}
+                            </span>
+                          )}
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium mb-1">Notes</label>
+                          <textarea
+                            className="input w-full min-h-[80px]"
+                            value={noteDraft}
+                            onChange={(e) => setNoteDraft(e.target.value)}
+                            placeholder="Only you can see these."
+                          />
+                          <div className="mt-2 flex justify-end">
+                            <button
+                              className="btn"
+                              onClick={() => updateLead(lead.id, { notes: noteDraft.trim() || null })}
+                              disabled={busy || noteDraft.trim() === (lead.notes || "").trim()}
+                            >
+                              {busy ? "Saving…" : "Save notes"}
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
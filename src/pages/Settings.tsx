@@ -5,6 +5,10 @@ import { supabase } from "../lib/supabase";
 import CleanerCard from "../components/CleanerCard";
 import { PAYMENT_METHODS as PM_ALL } from "../constants/paymentMethods";
 import AccountDangerZone from "../components/settings/AccountDangerZone";
+import EnquiryAutoReply from "../components/settings/EnquiryAutoReply";
+import ReplySnippets from "../components/settings/ReplySnippets";
+import LeadDeliverySettings from "../components/settings/LeadDeliverySettings";
+import PublicProfileLink from "../components/settings/PublicProfileLink";
 
 type Cleaner = {
   id: string;
@@ -853,6 +857,46 @@ const previewCleaner: any = useMemo(
         </section>
       </div>
 
+      {/* Public page */}
+      {cleaner?.id && (
+        <section className="space-y-3 p-4 border rounded-2xl bg-white">
+          <h2 className="text-lg font-semibold">Public page</h2>
+          <p className="text-xs text-gray-500">
+            A page just for your business with your areas, prices and an enquiry form. Put the link on your van or socials.
+          </p>
+          <PublicProfileLink cleanerId={cleaner.id} businessName={businessName || null} />
+        </section>
+      )}
+
+      {/* Lead delivery */}
+      {cleaner?.id && (
+        <section className="space-y-3 p-4 border rounded-2xl bg-white">
+          <h2 className="text-lg font-semibold">How you receive leads</h2>
+          <p className="text-xs text-gray-500">
+            Failed deliveries are retried for a couple of hours; the status of each shows in Leads.
+          </p>
+          <LeadDeliverySettings cleanerId={cleaner.id} />
+        </section>
+      )}
+
+      {/* Enquiry replies */}
+      {cleaner?.id && (
+        <div className="grid lg:grid-cols-2 gap-6">
+          <section className="space-y-3 p-4 border rounded-2xl bg-white">
+            <h2 className="text-lg font-semibold">Enquiry auto-reply</h2>
+            <EnquiryAutoReply cleanerId={cleaner.id} businessName={businessName || null} />
+          </section>
+
+          <section className="space-y-3 p-4 border rounded-2xl bg-white">
+            <h2 className="text-lg font-semibold">Reply snippets</h2>
+            <p className="text-xs text-gray-500">
+              Saved replies you can drop into a conversation from Leads.
+            </p>
+            <ReplySnippets cleanerId={cleaner.id} />
+          </section>
+        </div>
+      )}
+
       {/* Danger Zone */}
       <section className="space-y-3 p-4 border rounded-2xl bg-white">
         <h2 className="text-lg font-semibold">Account</h2>